@@ -7,6 +7,7 @@ Place your Roboflow model endpoint URL in: ROBOFLOW_MODEL_URL
 
 import os
 import io
+import base64
 import logging
 from typing import List, Dict
 from fastapi import FastAPI, File, UploadFile, HTTPException
@@ -53,6 +54,16 @@ ROBOFLOW_MODEL_URL = os.getenv("ROBOFLOW_MODEL_URL")  # e.g. https://detect.robo
 if not ROBOFLOW_MODEL_URL:
     logging.warning("ROBOFLOW_MODEL_URL not set. You must configure it in environment variables.")
 
+def model_version_from_url(url: str) -> str:
+    # "https://detect.roboflow.com/{workspace}/{model}/{version}?api_key=..." -> "roboflow:{workspace}/{model}/{version}"
+    path = httpx.URL(url).path.strip("/")
+    return f"roboflow:{path}" if path else "roboflow"
+
+MODEL_VERSION = os.getenv("MODEL_VERSION") or (model_version_from_url(ROBOFLOW_MODEL_URL) if ROBOFLOW_MODEL_URL else "")
+
+# Roboflow's hosted CLIP image encoder, used for "find animals that look like this one"
+ROBOFLOW_CLIP_URL = os.getenv("ROBOFLOW_CLIP_URL", "https://infer.roboflow.com/clip/embed_image")
+
 # Simple response model
 class TopKItem(BaseModel):
     breed: str
@@ -65,6 +76,11 @@ class PredictResponse(BaseModel):
     disadvantages: List[str] = []
     top_k: List[TopKItem] = []
     advice: str = ""
+    model_version: str = ""
+
+class EmbedResponse(BaseModel):
+    embedding: List[float]
+    model_version: str = ""
 
 def validate_image(contents: bytes) -> None:
     try:
@@ -137,8 +153,41 @@ async def predict(file: UploadFile = File(...)):
                 "advantages": info.get("advantages", []),
                 "disadvantages": info.get("disadvantages", []),
                 "top_k": top_k,
-                "advice": advice
+                "advice": advice,
+                "model_version": MODEL_VERSION
             }
 
     # If no remote inference configured, return helpful error
     raise HTTPException(status_code=500, detail="No inference backend configured (ROBOFLOW_* env vars missing).")
+
+@app.post("/embed", response_model=EmbedResponse)
+async def embed(file: UploadFile = File(...)):
+    if file.content_type.split("/")[0] != "image":
+        raise HTTPException(status_code=400, detail="Upload must be an image.")
+    contents = await file.read()
+    if len(contents) > (8 * 1024 * 1024):  # 8 MB limit
+        raise HTTPException(status_code=400, detail="Image too large (max 8MB).")
+    validate_image(contents)
+
+    if not ROBOFLOW_API_KEY:
+        raise HTTPException(status_code=500, detail="No embedding backend configured (ROBOFLOW_API_KEY missing).")
+
+    async with httpx.AsyncClient(timeout=30.0) as client:
+        try:
+            resp = await client.post(
+                ROBOFLOW_CLIP_URL,
+                params={"api_key": ROBOFLOW_API_KEY},
+                json={"image": {"type": "base64", "value": base64.b64encode(contents).decode("ascii")}},
+                headers={"User-Agent": "Cattle-Proxy/1.0"},
+            )
+        except Exception as e:
+            raise HTTPException(status_code=502, detail="Error contacting embedding service.")
+    if resp.status_code != 200:
+        raise HTTPException(status_code=502, detail=f"Embedding failed: {resp.status_code}")
+
+    # Expected: data["embeddings"] = [[...512 floats...]]
+    embeddings = resp.json().get("embeddings") or []
+    if not embeddings:
+        raise HTTPException(status_code=502, detail="No embedding returned by model.")
+
+    return {"embedding": embeddings[0], "model_version": "roboflow:clip"}
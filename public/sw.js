@@ -0,0 +1,74 @@
+// App-shell service worker: lets field workers reopen the app without a connection.
+// API and Storage requests are never cached here; pages keep their own data cache.
+const SHELL_CACHE = 'krishimitr-shell-v1';
+// On-device classifier model and onnxruntime WASM binaries. Entries are keyed by URL,
+// so a new model must be published under a new URL (e.g. with its version in the name).
+const MODEL_CACHE = 'krishimitr-models-v1';
+const MODEL_FILE = /\.(onnx|wasm)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/', '/index.html'])));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter((key) => key.startsWith('krishimitr-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key)))
+    )
+  );
+  self.clients.claim();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET') return;
+
+  // Model files are large and immutable: cache first, from any origin (e.g. the WASM CDN)
+  if (MODEL_FILE.test(url.pathname)) {
+    event.respondWith(
+      caches.open(MODEL_CACHE).then((cache) =>
+        cache.match(request).then((cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) cache.put(request, response.clone());
+            return response;
+          })
+        )
+      )
+    );
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // Navigations: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Hashed build assets and icons: cache first
+  event.respondWith(
+    caches.match(request).then((cached) =>
+      cached ||
+      fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+    )
+  );
+});
@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OfflineQueueProvider } from "@/contexts/OfflineQueueContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import AppLayout from "@/components/AppLayout";
 import Index from "./pages/Index";
@@ -12,6 +13,12 @@ import Dashboard from "./pages/Dashboard";
 import Records from "./pages/Records";
 import Breeds from "./pages/Breeds";
 import Profile from "./pages/Profile";
+import Review from "./pages/Review";
+import BulkImport from "./pages/BulkImport";
+import Models from "./pages/Models";
+import Analytics from "./pages/Analytics";
+import Duplicates from "./pages/Duplicates";
+import Datasets from "./pages/Datasets";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,53 +29,115 @@ const App = () => (
       <Toaster />
       <Sonner />
       <AuthProvider>
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <AppLayout>
-                    <Dashboard />
-                  </AppLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/records"
-              element={
-                <ProtectedRoute>
-                  <AppLayout>
-                    <Records />
-                  </AppLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/breeds"
-              element={
-                <ProtectedRoute>
-                  <AppLayout>
-                    <Breeds />
-                  </AppLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/profile"
-              element={
-                <ProtectedRoute>
-                  <AppLayout>
-                    <Profile />
-                  </AppLayout>
-                </ProtectedRoute>
-              }
-            />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <OfflineQueueProvider>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route
+                path="/dashboard"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <Dashboard />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/records"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <Records />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/breeds"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <Breeds />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/profile"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <Profile />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/import"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <BulkImport />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/review"
+                element={
+                  <ProtectedRoute roles={["supervisor", "district_admin"]}>
+                    <AppLayout>
+                      <Review />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/analytics"
+                element={
+                  <ProtectedRoute roles={["supervisor", "district_admin"]}>
+                    <AppLayout>
+                      <Analytics />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/duplicates"
+                element={
+                  <ProtectedRoute roles={["supervisor", "district_admin"]}>
+                    <AppLayout>
+                      <Duplicates />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/models"
+                element={
+                  <ProtectedRoute roles={["district_admin"]}>
+                    <AppLayout>
+                      <Models />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/datasets"
+                element={
+                  <ProtectedRoute roles={["district_admin"]}>
+                    <AppLayout>
+                      <Datasets />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </OfflineQueueProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
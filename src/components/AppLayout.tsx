@@ -1,11 +1,16 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { useOfflineQueue } from "@/contexts/OfflineQueueContext";
+import { CloudOff, RefreshCw, Wifi } from "lucide-react";
 
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
 const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
+  const { isOnline, syncing, items } = useOfflineQueue();
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
@@ -15,6 +20,22 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           {/* Header */}
           <header className="h-16 flex items-center justify-between px-6 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
             <SidebarTrigger />
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              {items.length > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  {syncing && <RefreshCw className="h-3 w-3 animate-spin" />}
+                  {items.length} pending sync
+                </Badge>
+              )}
+              {isOnline ? (
+                <Wifi className="h-4 w-4" />
+              ) : (
+                <span className="flex items-center gap-1 text-destructive">
+                  <CloudOff className="h-4 w-4" />
+                  Offline
+                </span>
+              )}
+            </div>
           </header>
 
           {/* Main Content */}
@@ -8,6 +8,12 @@ import {
   LogOut,
   Heart,
   Shield,
+  ClipboardCheck,
+  FileArchive,
+  Cpu,
+  BarChart3,
+  Layers,
+  Copy,
 } from "lucide-react";
 
 import {
@@ -29,14 +35,28 @@ import { useAuth } from "@/contexts/AuthContext";
 const items = [
   { title: "Dashboard", url: "/dashboard", icon: Home },
   { title: "Animal Records", url: "/records", icon: Database },
+  { title: "Bulk Import", url: "/import", icon: FileArchive },
   { title: "Breeds", url: "/breeds", icon: Heart },
   { title: "Profile", url: "/profile", icon: User },
 ];
 
+// Only shown to supervisors and district admins
+const reviewerItems = [
+  { title: "Review Queue", url: "/review", icon: ClipboardCheck },
+  { title: "Model Accuracy", url: "/analytics", icon: BarChart3 },
+  { title: "Duplicates", url: "/duplicates", icon: Copy },
+];
+
+// Only shown to district admins
+const adminItems = [
+  { title: "Models", url: "/models", icon: Cpu },
+  { title: "Training Data", url: "/datasets", icon: Layers },
+];
+
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
-  const { signOut, user } = useAuth();
+  const { signOut, user, role } = useAuth();
   const currentPath = location.pathname;
   const collapsed = state === "collapsed";
 
@@ -70,7 +90,11 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {items.map((item) => (
+              {[
+                ...items,
+                ...(role === "supervisor" || role === "district_admin" ? reviewerItems : []),
+                ...(role === "district_admin" ? adminItems : []),
+              ].map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} className={getNavCls}>
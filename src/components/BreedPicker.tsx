@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { Check, ChevronsUpDown } from 'lucide-react';
+
+interface BreedOption {
+  breed_code: string;
+  name: string;
+}
+
+interface BreedPickerProps {
+  id?: string;
+  value: string;
+  onChange: (breedCode: string) => void;
+  animalType?: string;
+  // Model alternatives, listed first when they are valid for the animal type
+  suggestions?: Array<{ breed: string; confidence: number }>;
+  placeholder?: string;
+}
+
+const BreedPicker = ({
+  id,
+  value,
+  onChange,
+  animalType,
+  suggestions = [],
+  placeholder = 'Select breed',
+}: BreedPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [breeds, setBreeds] = useState<BreedOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBreeds = async () => {
+      try {
+        setLoading(true);
+
+        const { data: response, error } = await supabase.functions
+          .invoke('get-breeds', {
+            body: animalType ? { animal_type: animalType } : {},
+          });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        setBreeds(response.breeds || []);
+      } catch (error) {
+        console.error('Error fetching breeds:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBreeds();
+  }, [animalType]);
+
+  const breedsByCode = Object.fromEntries(breeds.map((b) => [b.breed_code, b]));
+  const suggested = suggestions.filter((s) => breedsByCode[s.breed]);
+  const suggestedCodes = new Set(suggested.map((s) => s.breed));
+  const others = breeds.filter((b) => !suggestedCodes.has(b.breed_code));
+
+  const select = (breedCode: string) => {
+    onChange(breedCode);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn(!value && 'text-muted-foreground')}>
+            {value ? breedsByCode[value]?.name || value : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search breeds..." />
+          <CommandList>
+            <CommandEmpty>{loading ? 'Loading breeds...' : 'No breed found.'}</CommandEmpty>
+
+            {suggested.length > 0 && (
+              <>
+                <CommandGroup heading="Model suggestions">
+                  {suggested.map((s) => (
+                    <CommandItem
+                      key={s.breed}
+                      value={`${breedsByCode[s.breed].name} ${s.breed}`}
+                      onSelect={() => select(s.breed)}
+                    >
+                      <Check className={cn('mr-2 h-4 w-4', value === s.breed ? 'opacity-100' : 'opacity-0')} />
+                      <span className="flex-1">{breedsByCode[s.breed].name}</span>
+                      <span className="text-xs text-muted-foreground">{(s.confidence * 100).toFixed(1)}%</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            )}
+
+            <CommandGroup heading={animalType ? `All ${animalType} breeds` : 'All breeds'}>
+              {others.map((b) => (
+                <CommandItem
+                  key={b.breed_code}
+                  value={`${b.name} ${b.breed_code}`}
+                  onSelect={() => select(b.breed_code)}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value === b.breed_code ? 'opacity-100' : 'opacity-0')} />
+                  {b.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default BreedPicker;
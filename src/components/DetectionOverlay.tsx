@@ -0,0 +1,52 @@
+import StorageImage from '@/components/StorageImage';
+import type { ImageSize } from '@/lib/image-urls';
+import type { ViewDetections } from '@shared/schemas';
+import { cn } from '@/lib/utils';
+
+interface DetectionOverlayProps {
+  src: string;
+  alt: string;
+  size?: ImageSize;
+  detections?: ViewDetections | null;
+  className?: string;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Photo at its natural aspect ratio with the detector's boxes drawn on top; the classified crop is highlighted
+const DetectionOverlay = ({ src, alt, size = 'medium', detections, className }: DetectionOverlayProps) => (
+  <div className={cn('relative overflow-hidden rounded-lg', className)}>
+    <StorageImage src={src} size={size} alt={alt} className="block w-full h-auto min-h-32" />
+    {detections?.detections.map((detection, idx) => {
+      const isCrop = detections.crop !== null
+        && detection.box.x === detections.crop.x
+        && detection.box.y === detections.crop.y;
+      return (
+        <div
+          key={idx}
+          className={cn(
+            'absolute border-2 pointer-events-none',
+            isCrop ? 'border-primary' : 'border-dashed border-white/70',
+          )}
+          style={{
+            left: percent(detection.box.x),
+            top: percent(detection.box.y),
+            width: percent(detection.box.width),
+            height: percent(detection.box.height),
+          }}
+        >
+          <span
+            className={cn(
+              'absolute left-0 top-0 px-1 text-[10px] leading-4',
+              isCrop ? 'bg-primary text-primary-foreground' : 'bg-black/60 text-white',
+            )}
+          >
+            {detection.label} {(detection.score * 100).toFixed(0)}%
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default DetectionOverlay;
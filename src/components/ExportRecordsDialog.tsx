@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { downloadFile } from '@/lib/download';
+import { readFunctionError } from '@/lib/function-errors';
+import { Download, Loader2 } from 'lucide-react';
+
+type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface RecordFilters {
+  status: string;
+  animalType: string;
+  breed: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const FORMAT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+const ExportRecordsDialog = ({ filters }: { filters: RecordFilters }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<'mine' | 'area'>('mine');
+  const [district, setDistrict] = useState('');
+  const [dateFrom, setDateFrom] = useState(filters.dateFrom);
+  const [dateTo, setDateTo] = useState(filters.dateTo);
+  const [exporting, setExporting] = useState(false);
+
+  const { role } = useAuth();
+  const { toast } = useToast();
+  const isReviewer = role === 'supervisor' || role === 'district_admin';
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from the filters currently applied on the Records screen
+    if (next) {
+      setDateFrom(filters.dateFrom);
+      setDateTo(filters.dateTo);
+    }
+    setOpen(next);
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+
+      const { data, error } = await supabase.functions
+        .invoke('export-animal-records', {
+          body: {
+            format,
+            scope,
+            status: filters.status !== 'all' ? filters.status : undefined,
+            animal_type: filters.animalType !== 'all' ? filters.animalType : undefined,
+            breed: filters.breed !== 'all' ? filters.breed : undefined,
+            date_from: dateFrom || undefined,
+            date_to: dateTo || undefined,
+            district: scope === 'area' && role === 'district_admin' && district ? district : undefined,
+          },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadFile(data, `animal-records-${stamp}.${format}`, FORMAT_TYPES[format]);
+      setOpen(false);
+
+    } catch (error) {
+      console.error('Error exporting records:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Records</DialogTitle>
+          <DialogDescription>
+            Uses the status, animal type and breed filters from the Records screen
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV (all columns)</SelectItem>
+                <SelectItem value="xlsx">Excel (all columns + summary)</SelectItem>
+                <SelectItem value="pdf">PDF registration summary</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isReviewer && (
+            <div>
+              <Label>Records</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as 'mine' | 'area')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">My records</SelectItem>
+                  <SelectItem value="area">
+                    {role === 'supervisor' ? 'All workers in my district' : 'All workers in my state'}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === 'area' && role === 'district_admin' && (
+            <div>
+              <Label htmlFor="exportDistrict">District</Label>
+              <Input
+                id="exportDistrict"
+                value={district}
+                onChange={(e) => setDistrict(e.target.value)}
+                placeholder="Leave empty for the whole state"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="exportFrom">From</Label>
+              <Input id="exportFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="exportTo">To</Label>
+              <Input id="exportTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={exporting}>
+              {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportRecordsDialog;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { readCache, writeCache } from '@/lib/offline-cache';
+import type { FarmerInput } from '@shared/schemas';
+
+export const NO_FARMER = 'none';
+export const NEW_FARMER = 'new';
+
+interface FarmerOption {
+  id: string;
+  name: string;
+  phone: string | null;
+  village: string;
+}
+
+interface FarmerDetailsProps {
+  form: UseFormReturn<FarmerInput>;
+  // NO_FARMER, NEW_FARMER or the id of one of the worker's farmers
+  farmerId: string;
+  onFarmerIdChange: (farmerId: string) => void;
+  disabled?: boolean;
+  // Bump to reload the list, e.g. after a capture created a new farmer
+  refreshKey?: number;
+}
+
+const FIELDS: Array<{ name: keyof FarmerInput; label: string; placeholder?: string; type?: string }> = [
+  { name: 'name', label: 'Farmer name' },
+  { name: 'phone', label: 'Mobile number', placeholder: '10 digit mobile number', type: 'tel' },
+  { name: 'village', label: 'Village' },
+  { name: 'tehsil', label: 'Tehsil', placeholder: 'Optional' },
+  { name: 'district', label: 'District' },
+  { name: 'state', label: 'State' },
+];
+
+const FarmerDetails = ({ form, farmerId, onFarmerIdChange, disabled, refreshKey = 0 }: FarmerDetailsProps) => {
+  const { user } = useAuth();
+  const cacheKey = `farmers:${user?.id}`;
+  const [farmers, setFarmers] = useState<FarmerOption[]>(() => readCache<FarmerOption[]>(cacheKey)?.data ?? []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Another worker may have signed in on this device since the list was last shown
+    setFarmers(readCache<FarmerOption[]>(cacheKey)?.data ?? []);
+
+    const fetchFarmers = async () => {
+      try {
+        const { data: response, error } = await supabase.functions.invoke('get-farmers', { body: {} });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        setFarmers(response.farmers || []);
+        writeCache(cacheKey, response.farmers || []);
+      } catch (error) {
+        // Offline: keep the cached list so existing farmers can still be picked
+        console.error('Error fetching farmers:', error);
+      }
+    };
+
+    fetchFarmers();
+  }, [user, cacheKey, refreshKey]);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium">Farmer</label>
+      <Select value={farmerId} onValueChange={onFarmerIdChange} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select farmer" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FARMER}>Not recorded</SelectItem>
+          <SelectItem value={NEW_FARMER}>+ New farmer</SelectItem>
+          {farmers.map((farmer) => (
+            <SelectItem key={farmer.id} value={farmer.id}>
+              {farmer.name} — {farmer.village}{farmer.phone ? ` (${farmer.phone})` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {farmerId === NEW_FARMER && (
+        <Form {...form}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {FIELDS.map((field) => (
+              <FormField
+                key={field.name}
+                control={form.control}
+                name={field.name}
+                render={({ field: input }) => (
+                  <FormItem>
+                    <FormLabel>{field.label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...input}
+                        value={input.value ?? ''}
+                        type={field.type ?? 'text'}
+                        placeholder={field.placeholder}
+                        disabled={disabled}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </Form>
+      )}
+    </div>
+  );
+};
+
+export default FarmerDetails;
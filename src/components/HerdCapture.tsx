@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import type { Detection } from '@shared/schemas';
+
+export interface HerdAnimal {
+  detection: Detection;
+  animalId: string;
+  selected: boolean;
+}
+
+interface HerdCaptureProps {
+  // Object URL of the herd photo
+  preview: string;
+  animals: HerdAnimal[];
+  onChange: (animals: HerdAnimal[]) => void;
+  disabled?: boolean;
+}
+
+const CROP_EDGE = 240;
+
+// Small previews of each detected animal, cut from the local photo so nothing is downloaded again
+const cropPreviews = async (preview: string, detections: Detection[]) => {
+  const image = new Image();
+  image.src = preview;
+  await image.decode();
+
+  return detections.map(({ box }) => {
+    const sx = box.x * image.naturalWidth;
+    const sy = box.y * image.naturalHeight;
+    const sw = box.width * image.naturalWidth;
+    const sh = box.height * image.naturalHeight;
+    const scale = Math.min(1, CROP_EDGE / Math.max(sw, sh));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    canvas.getContext('2d')?.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  });
+};
+
+// One selectable crop per animal found in a herd photo; each selected crop becomes its own record
+const HerdCapture = ({ preview, animals, onChange, disabled }: HerdCaptureProps) => {
+  const [crops, setCrops] = useState<string[]>([]);
+  const detections = animals.map((animal) => animal.detection);
+  const detectionsKey = JSON.stringify(detections);
+
+  useEffect(() => {
+    let cancelled = false;
+    cropPreviews(preview, JSON.parse(detectionsKey))
+      .then((urls) => {
+        if (!cancelled) setCrops(urls);
+      })
+      .catch((error) => console.error('Error cropping herd photo:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preview, detectionsKey]);
+
+  const update = (index: number, changes: Partial<HerdAnimal>) =>
+    onChange(animals.map((animal, idx) => (idx === index ? { ...animal, ...changes } : animal)));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {animals.length} animal{animals.length > 1 ? 's' : ''} found — choose which to record and give each an ear tag
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {animals.map((animal, idx) => (
+          <div
+            key={idx}
+            className={`rounded-lg border p-2 space-y-2 ${animal.selected ? 'border-primary' : 'opacity-60'}`}
+          >
+            <label className="block cursor-pointer">
+              {crops[idx] ? (
+                <img src={crops[idx]} alt={`Animal ${idx + 1}`} className="w-full h-24 object-contain rounded bg-muted" />
+              ) : (
+                <div className="w-full h-24 rounded bg-muted" />
+              )}
+              <div className="flex items-center gap-2 mt-2 text-xs">
+                <Checkbox
+                  checked={animal.selected}
+                  onCheckedChange={(checked) => update(idx, { selected: checked === true })}
+                  disabled={disabled}
+                />
+                Animal {idx + 1} • {(animal.detection.score * 100).toFixed(0)}%
+              </div>
+            </label>
+            <Input
+              value={animal.animalId}
+              onChange={(e) => update(idx, { animalId: e.target.value })}
+              placeholder="Ear tag"
+              className="h-8"
+              disabled={disabled || !animal.selected}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HerdCapture;
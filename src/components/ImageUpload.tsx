@@ -1,121 +1,393 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { Camera, Upload, X, Loader2 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Camera, Upload, X, Loader2, CloudOff, MapPin, Users, Images } from 'lucide-react';
+import FarmerDetails, { NEW_FARMER, NO_FARMER } from '@/components/FarmerDetails';
+import HerdCapture, { type HerdAnimal } from '@/components/HerdCapture';
+import SimilarAnimals from '@/components/SimilarAnimals';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
 import { useToast } from '@/hooks/use-toast';
+import {
+  Capture,
+  ClassificationResult,
+  ConflictError,
+  OfflineError,
+  deleteCaptureImage,
+  detectAnimals,
+  newCaptureId,
+  submitCapture,
+  uploadCaptureImage,
+} from '@/lib/capture';
+import { IMAGE_VIEWS, IMAGE_VIEW_LABELS, ImageView, MAX_IMAGES_PER_ANIMAL } from '@/lib/image-views';
+import { formatLocation, getCurrentLocation } from '@/lib/geolocation';
+import { formatFileSize, preprocessImage } from '@/lib/image-preprocess';
+import type { QualityAssessment } from '@/lib/image-quality';
+import {
+  classifyOnDevice,
+  isOnDeviceClassifierAvailable,
+  isOnDeviceClassifierEnabled,
+  setOnDeviceClassifierEnabled,
+  warmUpOnDeviceClassifier,
+} from '@/lib/on-device-classifier';
+import { farmerSchema, type FarmerInput, type LocationData, type OnDevicePrediction } from '@shared/schemas';
+
+interface CapturedImage {
+  // Already oriented, resized and stripped of EXIF
+  file: File;
+  originalSize: number;
+  preview: string;
+  view: ImageView;
+  quality: QualityAssessment;
+}
+
+// A single photo showing several animals, already uploaded once and shared by their records
+interface HerdPhoto {
+  imageUrl: string;
+  animals: HerdAnimal[];
+}
 
 interface ImageUploadProps {
-  onClassificationComplete?: (result: any) => void;
+  onClassificationComplete?: (result: ClassificationResult) => void;
 }
 
+const formatBreedName = (breed: string) =>
+  breed.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
 const ImageUpload: React.FC<ImageUploadProps> = ({ onClassificationComplete }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [images, setImages] = useState<CapturedImage[]>([]);
   const [animalType, setAnimalType] = useState<'cattle' | 'buffalo'>('cattle');
+  const [animalId, setAnimalId] = useState('');
+  const [conflict, setConflict] = useState<Capture | null>(null);
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState('');
+  const [farmerId, setFarmerId] = useState(NO_FARMER);
+  const [farmersVersion, setFarmersVersion] = useState(0);
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [exifLocation, setExifLocation] = useState<LocationData | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [onDeviceEnabled, setOnDeviceEnabled] = useState(isOnDeviceClassifierEnabled);
+  const [provisional, setProvisional] = useState<OnDevicePrediction | null>(null);
+  const [classifyingOnDevice, setClassifyingOnDevice] = useState(false);
+  const [herd, setHerd] = useState<HerdPhoto | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  // First photo, uploaded to look up verified animals that resemble it
+  const [similarPhotoUrl, setSimilarPhotoUrl] = useState<string | null>(null);
+  const [uploadingSimilar, setUploadingSimilar] = useState(false);
+  const classifiedImagesRef = useRef('');
+  // Photos uploaded only for a lookup; deleted when the capture is dropped unless a record uses them
+  const lookupUploadsRef = useRef<string[]>([]);
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
   
   const { user } = useAuth();
+  const { isOnline, enqueue } = useOfflineQueue();
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file) {
-      setSelectedFile(file);
-      setPreview(URL.createObjectURL(file));
-      setError('');
-    }
+  const farmerForm = useForm<FarmerInput>({
+    resolver: zodResolver(farmerSchema),
+    defaultValues: { name: '', phone: '', village: '', tehsil: '', district: '', state: '' },
+  });
+
+  const releaseLookupUploads = useCallback(() => {
+    lookupUploadsRef.current.forEach((url) => deleteCaptureImage(url));
+    lookupUploadsRef.current = [];
+  }, []);
+
+  const keepLookupUpload = (url: string | null | undefined) => {
+    lookupUploadsRef.current = lookupUploadsRef.current.filter((upload) => upload !== url);
+  };
+
+  // Leaving the page drops the capture in progress
+  useEffect(() => () => {
+    imagesRef.current.forEach((image) => URL.revokeObjectURL(image.preview));
+    releaseLookupUploads();
+  }, [releaseLookupUploads]);
+
+  // The position is taken when the first photo is added, i.e. while standing next to the animal
+  const recordLocation = useCallback(async () => {
+    setLocating(true);
+    setLocation(await getCurrentLocation());
+    setLocating(false);
   }, []);
 
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const files = acceptedFiles.slice(0, MAX_IMAGES_PER_ANIMAL - images.length);
+    if (files.length === 0) return;
+
+    if (images.length === 0) {
+      recordLocation();
+    }
+
+    setError('');
+    setConflict(null);
+    setHerd(null);
+    setSimilarPhotoUrl(null);
+    releaseLookupUploads();
+    setProcessing(true);
+
+    try {
+      // One at a time, so several full-size photos are never decoded together on a low-end phone
+      const processed = [];
+      for (const file of files) {
+        processed.push(await preprocessImage(file));
+      }
+
+      setImages((current) => {
+        const added = processed.map((image, idx) => {
+          // Suggest the next view that has not been captured yet
+          const taken = current.map((img) => img.view);
+          const view = IMAGE_VIEWS.filter((v) => !taken.includes(v))[idx] ?? 'other';
+          return {
+            file: image.file,
+            originalSize: image.originalSize,
+            preview: URL.createObjectURL(image.file),
+            view,
+            quality: image.quality,
+          };
+        });
+        const next = [...current, ...added];
+        next.slice(MAX_IMAGES_PER_ANIMAL).forEach((image) => URL.revokeObjectURL(image.preview));
+        return next.slice(0, MAX_IMAGES_PER_ANIMAL);
+      });
+
+      // Where the photo was taken beats where the worker is when uploading it
+      const photoLocation = processed.find((image) => image.exifLocation)?.exifLocation;
+      if (photoLocation) {
+        setExifLocation((current) => current ?? photoLocation);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProcessing(false);
+    }
+  }, [images.length, recordLocation, releaseLookupUploads]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.webp']
     },
-    maxFiles: 1,
-    maxSize: 10 * 1024 * 1024, // 10MB
+    maxFiles: MAX_IMAGES_PER_ANIMAL,
+    disabled: images.length >= MAX_IMAGES_PER_ANIMAL || processing,
+    maxSize: 20 * 1024 * 1024, // 20MB, compressed before upload
   });
 
+  useEffect(() => {
+    if (onDeviceEnabled) warmUpOnDeviceClassifier();
+  }, [onDeviceEnabled]);
+
+  // Provisional breed from the on-device model, refreshed when photos are added or removed
+  useEffect(() => {
+    const key = images.map((image) => image.preview).join('|');
+    if (!onDeviceEnabled || key === classifiedImagesRef.current) return;
+    classifiedImagesRef.current = key;
+
+    if (images.length === 0) {
+      setProvisional(null);
+      return;
+    }
+
+    let cancelled = false;
+    setClassifyingOnDevice(true);
+    classifyOnDevice(images.map((image) => image.file))
+      .then((result) => {
+        if (!cancelled) setProvisional(result);
+      })
+      .catch((err) => {
+        console.error('On-device classification failed:', err);
+        if (!cancelled) setProvisional(null);
+      })
+      .finally(() => {
+        if (!cancelled) setClassifyingOnDevice(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [images, onDeviceEnabled]);
+
+  const toggleOnDevice = (enabled: boolean) => {
+    setOnDeviceClassifierEnabled(enabled);
+    setOnDeviceEnabled(enabled);
+    if (!enabled) {
+      classifiedImagesRef.current = '';
+      setProvisional(null);
+    }
+  };
+
+  const removeImage = (index: number) => {
+    setConflict(null);
+    setHerd(null);
+    setSimilarPhotoUrl(null);
+    releaseLookupUploads();
+    URL.revokeObjectURL(images[index].preview);
+    setImages((current) => current.filter((_, idx) => idx !== index));
+  };
+
+  const setImageView = (index: number, view: ImageView) => {
+    setImages((current) => current.map((img, idx) => (idx === index ? { ...img, view } : img)));
+  };
+
   const clearFile = () => {
-    setSelectedFile(null);
-    setPreview(null);
+    images.forEach((image) => URL.revokeObjectURL(image.preview));
+    releaseLookupUploads();
+    setImages([]);
+    setAnimalId('');
+    setConflict(null);
     setError('');
     setProgress(0);
+    setLocation(null);
+    setExifLocation(null);
+    setHerd(null);
+    setSimilarPhotoUrl(null);
   };
 
-  const uploadAndClassify = async () => {
-    if (!selectedFile || !user) return;
+  const captureLocation = exifLocation ?? location;
+  const originalBytes = images.reduce((sum, image) => sum + image.originalSize, 0);
+  const compressedBytes = images.reduce((sum, image) => sum + image.file.size, 0);
+  const needsRetake = images.some((image) => image.quality.quality.level === 'block');
 
-    setUploading(true);
-    setProgress(10);
-    setError('');
+  const buildCapture = (): Capture => {
+    const id = newCaptureId();
+    return {
+      id,
+      animalId: animalId.trim() || `${user!.id}-${Date.now()}`,
+      animalType,
+      images: images.map((image, idx) => ({
+        blob: image.file,
+        name: image.file.name,
+        view: image.view,
+        quality: image.quality.quality,
+        // The first photo is already in storage if it was compared with verified animals
+        uploadedUrl: idx === 0 ? similarPhotoUrl : null,
+      })),
+      locationData: captureLocation,
+      farmerId: farmerId !== NO_FARMER && farmerId !== NEW_FARMER ? farmerId : null,
+      farmer: farmerId === NEW_FARMER ? farmerForm.getValues() : null,
+      onDevicePrediction: provisional,
+      capturedAt: new Date().toISOString(),
+    };
+  };
 
-    try {
-      // Generate unique filename
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+  const saveOffline = async (capture: Capture) => {
+    await enqueue(capture);
+    keepLookupUpload(capture.images[0]?.uploadedUrl);
+    toast({
+      title: "Saved for sync",
+      description: capture.onDevicePrediction
+        ? `${capture.animalId}: provisionally ${formatBreedName(capture.onDevicePrediction.predictions[0].breed)} (${(capture.onDevicePrediction.predictions[0].confidence * 100).toFixed(0)}%). It will be uploaded and verified by the server when you're back online`
+        : `${capture.animalId} will be uploaded and classified when you're back online`,
+    });
+    clearFile();
+  };
 
-      setProgress(30);
+  const uploadAndClassify = async (overwrite = false) => {
+    if (images.length === 0 || !user) return;
 
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('animal-images')
-        .upload(fileName, selectedFile);
+    if (farmerId === NEW_FARMER && !(await farmerForm.trigger())) {
+      setError('Please correct the farmer details');
+      return;
+    }
 
-      if (uploadError) {
-        throw new Error(`Upload failed: ${uploadError.message}`);
-      }
+    const capture = overwrite && conflict ? conflict : buildCapture();
 
-      setProgress(50);
+    // No connection at all: go straight to the local queue
+    if (!navigator.onLine) {
+      await saveOffline(capture);
+      return;
+    }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('animal-images')
-        .getPublicUrl(fileName);
+    setUploading(true);
+    setProgress(10);
+    setError('');
+    setConflict(null);
 
-      setProgress(70);
+    try {
+      const classificationData = await submitCapture(capture, user.id, { overwrite, onProgress: setProgress });
+      const viewCount = capture.images.length;
 
-      // Call classification edge function
-      const { data: classificationData, error: classificationError } = await supabase.functions
-        .invoke('classify-breed', {
-          body: {
-            image_url: urlData.publicUrl,
-            animal_id: `${user.id}-${Date.now()}`,
-            user_id: user.id,
-            animal_type: animalType,
-          },
+      if (classificationData.outcome === 'not_bovine') {
+        toast({
+          title: "No Cattle or Buffalo Found",
+          description: "The photos don't seem to show cattle or buffalo. Retake them with the whole animal in frame, or a supervisor will check the record.",
+          variant: "destructive",
+        });
+      } else if (classificationData.outcome === 'unknown_breed') {
+        toast({
+          title: "Breed Not in Catalog — Sent for Expert Review",
+          description: "None of the known breeds matched this animal well. A supervisor will record its breed.",
+        });
+      } else if (classificationData.outcome === 'needs_review') {
+        const candidates = classificationData.predictions
+          .slice(0, 2)
+          .map((p) => `${formatBreedName(p.breed)} ${(p.confidence * 100).toFixed(0)}%`)
+          .join(', ');
+        toast({
+          title: "Uncertain — Sent for Expert Review",
+          description: `The model could not tell the breed confidently (${candidates}). A supervisor will confirm it.`,
+        });
+      } else if (classificationData.top_prediction) {
+        toast({
+          title: "Classification Complete!",
+          description: `Detected breed: ${classificationData.top_prediction.breed} (${(classificationData.top_prediction.confidence * 100).toFixed(1)}% confidence from ${viewCount} view${viewCount > 1 ? 's' : ''})`,
         });
-
-      if (classificationError) {
-        throw new Error(`Classification failed: ${classificationError.message}`);
       }
 
-      setProgress(100);
+      const duplicates = classificationData.duplicates ?? [];
+      if (duplicates.length > 0) {
+        const ownMatches = duplicates.filter((d) => d.same_worker).map((d) => d.matched_animal_id);
+        toast({
+          title: "Possible Duplicate",
+          description: ownMatches.length > 0
+            ? `This photo looks like the one on ${ownMatches.join(', ')}. Check that it is a different animal.`
+            : 'This photo looks like one already recorded in your district. A supervisor will check it.',
+          variant: "destructive",
+        });
+      }
 
-      toast({
-        title: "Classification Complete!",
-        description: `Detected breed: ${classificationData.top_prediction.breed} (${(classificationData.top_prediction.confidence * 100).toFixed(1)}% confidence)`,
-      });
+      keepLookupUpload(capture.images[0]?.uploadedUrl);
 
       if (onClassificationComplete) {
         onClassificationComplete(classificationData);
       }
 
+      // Keep the new farmer selected for the next animal of the same herd
+      if (farmerId === NEW_FARMER && classificationData.farmer_id) {
+        setFarmerId(classificationData.farmer_id);
+        setFarmersVersion((v) => v + 1);
+        farmerForm.reset();
+      }
+
       // Clear the form after successful upload
       clearFile();
 
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      if (err instanceof OfflineError) {
+        await saveOffline(capture);
+        return;
+      }
+
+      if (err instanceof ConflictError) {
+        setConflict(capture);
+      }
+
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
       toast({
         title: "Classification Failed",
-        description: err.message,
+        description: message,
         variant: "destructive",
       });
     } finally {
@@ -124,6 +396,162 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onClassificationComplete }) =
     }
   };
 
+  // Uploads the photo once and asks the server which animals are in it
+  const findAnimals = async () => {
+    if (images.length !== 1 || !user) return;
+
+    setDetecting(true);
+    setError('');
+
+    try {
+      const image = images[0];
+      const imageUrl = await uploadCaptureImage(newCaptureId(), 0, {
+        blob: image.file,
+        name: image.file.name,
+        view: image.view,
+      }, user.id);
+      lookupUploadsRef.current.push(imageUrl);
+      const detections = await detectAnimals(imageUrl);
+
+      if (detections.length === 0) {
+        setError('No animal found in the photo. Retake it with the animals in frame.');
+        return;
+      }
+
+      setHerd({
+        imageUrl,
+        animals: detections.map((detection) => ({ detection, animalId: '', selected: true })),
+      });
+    } catch (err) {
+      setError(err instanceof OfflineError
+        ? 'Finding animals needs a connection. Try again when you are back online.'
+        : err instanceof Error ? err.message : String(err));
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  // Uploads the first photo so verified animals that look like it can be shown before classifying
+  const findSimilar = async () => {
+    if (images.length === 0 || !user) return;
+
+    setUploadingSimilar(true);
+    setError('');
+
+    try {
+      const image = images[0];
+      const imageUrl = await uploadCaptureImage(newCaptureId(), 0, {
+        blob: image.file,
+        name: image.file.name,
+        view: image.view,
+      }, user.id);
+      lookupUploadsRef.current.push(imageUrl);
+      setSimilarPhotoUrl(imageUrl);
+    } catch (err) {
+      setError(err instanceof OfflineError
+        ? 'Finding similar animals needs a connection. Try again when you are back online.'
+        : err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploadingSimilar(false);
+    }
+  };
+
+  // One record per selected animal, each classified on its own crop of the shared photo
+  const classifyHerd = async () => {
+    if (!herd || !user) return;
+
+    const selected = herd.animals.filter((animal) => animal.selected);
+    if (selected.length === 0) return;
+
+    if (farmerId === NEW_FARMER && !(await farmerForm.trigger())) {
+      setError('Please correct the farmer details');
+      return;
+    }
+
+    setUploading(true);
+    setProgress(10);
+    setError('');
+
+    const image = images[0];
+    const capturedAt = new Date().toISOString();
+    // A new farmer is created with the first animal and reused for the rest of the herd
+    let herdFarmerId = farmerId !== NO_FARMER && farmerId !== NEW_FARMER ? farmerId : null;
+    const failed: Array<{ animal: HerdAnimal; message: string }> = [];
+    let classified = 0;
+    let queued = 0;
+    let duplicatesFound = 0;
+
+    for (const [idx, animal] of selected.entries()) {
+      const capture: Capture = {
+        id: newCaptureId(),
+        animalId: animal.animalId.trim() || `${user.id}-${Date.now()}-${idx + 1}`,
+        animalType,
+        images: [{
+          blob: image.file,
+          name: image.file.name,
+          view: image.view,
+          quality: image.quality.quality,
+          uploadedUrl: herd.imageUrl,
+          detections: [animal.detection],
+        }],
+        locationData: captureLocation,
+        farmerId: herdFarmerId,
+        farmer: !herdFarmerId && farmerId === NEW_FARMER ? farmerForm.getValues() : null,
+        capturedAt,
+      };
+
+      try {
+        const result = await submitCapture(capture, user.id);
+        herdFarmerId = herdFarmerId ?? result.farmer_id;
+        classified++;
+        if (result.duplicates?.length) duplicatesFound++;
+        onClassificationComplete?.(result);
+      } catch (err) {
+        if (err instanceof OfflineError) {
+          await enqueue(capture);
+          queued++;
+        } else {
+          failed.push({ animal, message: `${capture.animalId}: ${err instanceof Error ? err.message : String(err)}` });
+        }
+      }
+
+      setProgress(10 + Math.round((90 * (idx + 1)) / selected.length));
+    }
+
+    setUploading(false);
+    setTimeout(() => setProgress(0), 1000);
+
+    if (classified + queued > 0) {
+      keepLookupUpload(herd.imageUrl);
+    }
+
+    toast({
+      title: failed.length > 0 ? "Some Animals Failed" : "Herd Classified",
+      description: [
+        `${classified} of ${selected.length} animals classified`,
+        queued > 0 ? `${queued} saved for sync` : '',
+        duplicatesFound > 0 ? `${duplicatesFound} possible duplicate${duplicatesFound > 1 ? 's' : ''} flagged` : '',
+      ].filter(Boolean).join(', '),
+      variant: failed.length > 0 ? "destructive" : undefined,
+    });
+
+    if (farmerId === NEW_FARMER && herdFarmerId) {
+      setFarmerId(herdFarmerId);
+      setFarmersVersion((v) => v + 1);
+      farmerForm.reset();
+    }
+
+    if (failed.length > 0) {
+      // Keep only the animals that still need a record, so the worker can fix their IDs and retry
+      setHerd({ ...herd, animals: failed.map(({ animal }) => animal) });
+      setError(failed.map(({ message }) => message).join('\n'));
+    } else {
+      clearFile();
+    }
+  };
+
+  const herdSelected = herd?.animals.filter((animal) => animal.selected).length ?? 0;
+
   return (
     <Card className="w-full max-w-2xl">
       <CardContent className="p-6">
@@ -142,91 +570,310 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onClassificationComplete }) =
             </Select>
           </div>
 
+          {/* Animal ID */}
+          {!herd && (
+            <div className="space-y-2">
+              <label htmlFor="animalId" className="text-sm font-medium">Animal ID (ear tag)</label>
+              <Input
+                id="animalId"
+                value={animalId}
+                onChange={(e) => setAnimalId(e.target.value)}
+                placeholder="Leave blank to generate one"
+                disabled={uploading}
+              />
+            </div>
+          )}
+
+          {isOnDeviceClassifierAvailable() && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="onDevice" className="text-sm font-medium">
+                Instant breed check on this device
+              </label>
+              <Switch id="onDevice" checked={onDeviceEnabled} onCheckedChange={toggleOnDevice} />
+            </div>
+          )}
+
+          <FarmerDetails
+            form={farmerForm}
+            farmerId={farmerId}
+            onFarmerIdChange={setFarmerId}
+            disabled={uploading}
+            refreshKey={farmersVersion}
+          />
+
+          {/* Captured Views */}
+          {images.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              {images.map((image, idx) => (
+                <div key={image.preview} className="space-y-2">
+                  <div className="relative">
+                    <img
+                      src={image.preview}
+                      alt={IMAGE_VIEW_LABELS[image.view]}
+                      className="w-full h-32 object-cover rounded-lg"
+                    />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      className="absolute top-2 right-2 h-7 w-7"
+                      onClick={() => removeImage(idx)}
+                      disabled={uploading}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                    {image.quality.quality.level !== 'ok' && (
+                      <Badge
+                        variant={image.quality.quality.level === 'block' ? 'destructive' : 'secondary'}
+                        className="absolute bottom-2 left-2"
+                      >
+                        {image.quality.quality.level === 'block' ? 'Retake' : 'Check photo'}
+                      </Badge>
+                    )}
+                  </div>
+                  {image.quality.problems.map((problem) => (
+                    <p
+                      key={problem.check}
+                      className={`text-xs ${problem.level === 'block' ? 'text-destructive' : 'text-muted-foreground'}`}
+                    >
+                      {problem.guidance}
+                    </p>
+                  ))}
+                  <Select
+                    value={image.view}
+                    onValueChange={(value: ImageView) => setImageView(idx, value)}
+                    disabled={uploading}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMAGE_VIEWS.map((view) => (
+                        <SelectItem key={view} value={view}>{IMAGE_VIEW_LABELS[view]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Herd Photo */}
+          {herd ? (
+            <HerdCapture
+              preview={images[0].preview}
+              animals={herd.animals}
+              onChange={(animals) => setHerd({ ...herd, animals })}
+              disabled={uploading}
+            />
+          ) : images.length === 1 && isOnline && !uploading && (
+            <Button variant="outline" className="w-full" onClick={findAnimals} disabled={detecting || processing}>
+              {detecting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Users className="h-4 w-4 mr-2" />
+              )}
+              {detecting ? 'Finding animals...' : 'Several animals in this photo? Find them'}
+            </Button>
+          )}
+
+          {/* Similar Verified Animals */}
+          {similarPhotoUrl ? (
+            <div className="rounded-lg border p-3">
+              <SimilarAnimals imageUrl={similarPhotoUrl} animalType={animalType} />
+            </div>
+          ) : images.length > 0 && isOnline && !uploading && !herd && (
+            <Button variant="outline" className="w-full" onClick={findSimilar} disabled={uploadingSimilar || processing}>
+              {uploadingSimilar ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Images className="h-4 w-4 mr-2" />
+              )}
+              {uploadingSimilar ? 'Uploading photo...' : 'Compare with verified animals'}
+            </Button>
+          )}
+
           {/* File Upload Area */}
-          {!selectedFile ? (
+          {images.length < MAX_IMAGES_PER_ANIMAL && !uploading && !herd && (
             <div
               {...getRootProps()}
-              className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+              className={`border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+                images.length > 0 ? 'p-4' : 'p-8'
+              } ${
                 isDragActive 
                   ? 'border-primary bg-primary/5' 
                   : 'border-muted-foreground/25 hover:border-primary/50'
               }`}
             >
               <input {...getInputProps()} />
-              <Camera className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-lg font-medium mb-2">
-                {isDragActive ? 'Drop your image here' : 'Upload Animal Photo'}
-              </p>
-              <p className="text-sm text-muted-foreground mb-4">
-                Drag and drop an image, or click to select
-              </p>
-              <Button variant="outline" type="button">
-                <Upload className="h-4 w-4 mr-2" />
-                Choose File
-              </Button>
-              <p className="text-xs text-muted-foreground mt-2">
-                Supports: JPEG, PNG, WebP (max 10MB)
-              </p>
+              {images.length === 0 ? (
+                <>
+                  <Camera className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-lg font-medium mb-2">
+                    {isDragActive ? 'Drop your images here' : 'Upload Animal Photos'}
+                  </p>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Add up to {MAX_IMAGES_PER_ANIMAL} views: left side, right side, front face and rear/udder
+                  </p>
+                  <Button variant="outline" type="button">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Choose Files
+                  </Button>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Supports: JPEG, PNG, WebP (max 20MB each, compressed before upload)
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  <Upload className="h-4 w-4 inline mr-2" />
+                  Add another view ({images.length}/{MAX_IMAGES_PER_ANIMAL})
+                </p>
+              )}
             </div>
-          ) : (
+          )}
+
+          {processing && (
+            <p className="text-sm text-center text-muted-foreground">
+              <Loader2 className="h-4 w-4 inline mr-2 animate-spin" />
+              Optimizing photos...
+            </p>
+          )}
+
+          {images.length > 0 && (
             <div className="space-y-4">
-              {/* Image Preview */}
-              <div className="relative">
-                <img
-                  src={preview!}
-                  alt="Upload preview"
-                  className="w-full h-64 object-cover rounded-lg"
-                />
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  className="absolute top-2 right-2"
-                  onClick={clearFile}
-                  disabled={uploading}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
+              {/* On-device Provisional Breed */}
+              {onDeviceEnabled && !herd && (classifyingOnDevice || provisional) && (
+                <div className="rounded-lg border p-3 text-sm">
+                  {classifyingOnDevice ? (
+                    <span className="text-muted-foreground">
+                      <Loader2 className="h-4 w-4 inline mr-2 animate-spin" />
+                      Checking breed on this device...
+                    </span>
+                  ) : provisional && provisional.predictions.length > 0 && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          Provisional: {formatBreedName(provisional.predictions[0].breed)}
+                        </span>
+                        <Badge variant="outline">
+                          {(provisional.predictions[0].confidence * 100).toFixed(0)}% on-device
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {provisional.predictions.slice(1, 3)
+                          .map((p) => `${formatBreedName(p.breed)} ${(p.confidence * 100).toFixed(0)}%`)
+                          .join(' • ')}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Capture Location */}
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <MapPin className="h-4 w-4" />
+                {captureLocation ? (
+                  <span>
+                    {formatLocation(captureLocation)}
+                    {captureLocation.source === 'exif' && ' (from photo)'}
+                  </span>
+                ) : locating ? (
+                  <span>Getting location...</span>
+                ) : (
+                  <>
+                    <span>Location unavailable</span>
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={recordLocation} disabled={uploading}>
+                      Retry
+                    </Button>
+                  </>
+                )}
               </div>
 
+              {needsRetake && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Some photos are not usable for breed identification. Remove the ones marked "Retake" and take them again.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Upload Size */}
+              <p className="text-sm text-muted-foreground">
+                Upload size: {formatFileSize(compressedBytes)}
+                <span className="text-xs"> (original {formatFileSize(originalBytes)})</span>
+              </p>
+
               {/* Progress Bar */}
               {uploading && (
                 <div className="space-y-2">
                   <Progress value={progress} className="w-full" />
                   <p className="text-sm text-center text-muted-foreground">
                     {progress < 30 ? 'Preparing upload...' :
-                     progress < 50 ? 'Uploading image...' :
-                     progress < 70 ? 'Getting image URL...' :
+                     progress < 70 ? 'Uploading images...' :
                      progress < 100 ? 'Analyzing breed...' : 'Complete!'}
                   </p>
                 </div>
               )}
 
               {/* Upload Button */}
-              <Button 
-                onClick={uploadAndClassify} 
-                disabled={uploading} 
-                className="w-full"
-                size="lg"
-              >
-                {uploading ? (
-                  <>
+              {herd ? (
+                <Button
+                  onClick={classifyHerd}
+                  disabled={uploading || needsRetake || herdSelected === 0}
+                  className="w-full"
+                  size="lg"
+                >
+                  {uploading ? (
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Analyzing...
-                  </>
-                ) : (
-                  <>
+                  ) : (
                     <Camera className="h-4 w-4 mr-2" />
-                    Classify Breed
-                  </>
-                )}
-              </Button>
+                  )}
+                  {uploading ? 'Analyzing...' : `Classify ${herdSelected} Animal${herdSelected === 1 ? '' : 's'}`}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => uploadAndClassify()}
+                  disabled={uploading || processing || needsRetake}
+                  className="w-full"
+                  size="lg"
+                >
+                  {uploading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Analyzing...
+                    </>
+                  ) : isOnline ? (
+                    <>
+                      <Camera className="h-4 w-4 mr-2" />
+                      Classify Breed
+                    </>
+                  ) : (
+                    <>
+                      <CloudOff className="h-4 w-4 mr-2" />
+                      Save for Sync
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           )}
 
           {/* Error Message */}
           {error && (
             <Alert variant="destructive">
-              <AlertDescription>{error}</AlertDescription>
+              <AlertDescription className="whitespace-pre-line">
+                {error}
+                {conflict && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2 block"
+                    onClick={() => uploadAndClassify(true)}
+                    disabled={uploading}
+                  >
+                    Replace existing record
+                  </Button>
+                )}
+              </AlertDescription>
             </Alert>
           )}
         </div>
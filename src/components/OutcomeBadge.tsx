@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { PREDICTION_OUTCOME_BADGE_CLASSES, PREDICTION_OUTCOME_LABELS, type PredictionOutcome } from '@/lib/prediction-outcomes';
+
+interface OutcomeBadgeProps {
+  outcome?: PredictionOutcome;
+  // A reviewer has set the final breed, so the model's outcome no longer matters
+  settled?: boolean;
+}
+
+// Marks records whose prediction didn't yield a trusted breed
+const OutcomeBadge = ({ outcome, settled }: OutcomeBadgeProps) => {
+  if (!outcome || outcome === 'confident' || settled) return null;
+
+  return (
+    <Badge variant="outline" className={PREDICTION_OUTCOME_BADGE_CLASSES[outcome]}>
+      {PREDICTION_OUTCOME_LABELS[outcome]}
+    </Badge>
+  );
+};
+
+export default OutcomeBadge;
@@ -0,0 +1,88 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Brain } from 'lucide-react';
+
+export interface PredictionRun {
+  id: string;
+  predicted_breeds: Array<{ breed: string; confidence: number }>;
+  model_version: string | null;
+  processing_time_ms: number | null;
+  run_type?: 'capture' | 'reclassify';
+  created_at: string;
+}
+
+interface PredictionHistoryProps {
+  predictions: PredictionRun[];
+  authoritativeId: string | null | undefined;
+  // Omitted when the record can't be changed, e.g. while showing cached records offline
+  onChoose?: (predictionId: string) => void;
+  choosing?: boolean;
+}
+
+const formatBreedName = (breed: string) => {
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+// Every server classification of the record, oldest first, with the one the record uses marked
+const PredictionHistory = ({ predictions, authoritativeId, onChoose, choosing }: PredictionHistoryProps) => {
+  const runs = [...predictions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2 flex items-center gap-2">
+        <Brain className="h-4 w-4" />
+        Prediction History
+      </h4>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No predictions stored</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {runs.map((run) => {
+            const top = run.predicted_breeds[0];
+            const isAuthoritative = run.id === authoritativeId;
+            return (
+              <li key={run.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                    isAuthoritative ? 'bg-primary' : 'bg-muted-foreground/40'
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="outline">{run.run_type === 'reclassify' ? 'Re-run' : 'Capture'}</Badge>
+                  <span className="font-medium">
+                    {top ? `${formatBreedName(top.breed)} ${(top.confidence * 100).toFixed(1)}%` : 'No breed'}
+                  </span>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {new Date(run.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{run.model_version || 'unknown model'}</span>
+                  {run.processing_time_ms !== null && <span>• {run.processing_time_ms}ms</span>}
+                  {isAuthoritative ? (
+                    <Badge className="ml-auto">Authoritative</Badge>
+                  ) : onChoose && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="ml-auto h-auto p-0 text-xs"
+                      onClick={() => onChoose(run.id)}
+                      disabled={choosing}
+                    >
+                      Use this prediction
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default PredictionHistory;
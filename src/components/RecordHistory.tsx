@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { PREDICTION_OUTCOME_LABELS, type PredictionOutcome } from '@/lib/prediction-outcomes';
+import { History } from 'lucide-react';
+
+interface HistoryEntry {
+  id: string;
+  changed_by: string | null;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  changed_fields: string[];
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  changed_at: string;
+  actor: {
+    full_name?: string | null;
+    employee_id?: string | null;
+    role?: string | null;
+  } | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  animal_id: 'Animal ID',
+  animal_type: 'Animal type',
+  farmer_id: 'Farmer',
+  predicted_breed: 'Predicted breed',
+  manual_breed: 'Manual breed',
+  final_breed: 'Final breed',
+  confidence_score: 'Confidence',
+  prediction_outcome: 'Prediction outcome',
+  authoritative_prediction_id: 'Prediction used',
+  image_url: 'Photo',
+  location_data: 'Location',
+  owner_details: 'Owner details',
+  verification_status: 'Status',
+  verification_reason: 'Review reason',
+  verified_by: 'Reviewer',
+  verified_at: 'Reviewed at',
+  notes: 'Notes',
+};
+
+const OPERATION_LABELS: Record<HistoryEntry['operation'], string> = {
+  INSERT: 'Created',
+  UPDATE: 'Edited',
+  DELETE: 'Deleted',
+};
+
+const BREED_FIELDS = ['predicted_breed', 'manual_breed', 'final_breed'];
+const ID_FIELDS = ['image_url', 'verified_by', 'farmer_id', 'authoritative_prediction_id'];
+
+const formatBreedName = (breed: string) => {
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (BREED_FIELDS.includes(field) && typeof value === 'string') return formatBreedName(value);
+  if (field === 'confidence_score') return `${(Number(value) * 100).toFixed(1)}%`;
+  if (field === 'prediction_outcome') return PREDICTION_OUTCOME_LABELS[value as PredictionOutcome] ?? String(value);
+  if (field === 'verified_at') return new Date(String(value)).toLocaleString();
+  // Nested details and IDs are not meaningful side by side; the change itself is what matters
+  if (typeof value === 'object' || ID_FIELDS.includes(field)) return 'updated';
+  return String(value);
+};
+
+const RecordHistory = ({ recordId }: { recordId: string }) => {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data: response, error } = await supabase.functions
+          .invoke('get-record-history', {
+            body: { record_id: recordId },
+          });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        setHistory(response.history || []);
+      } catch (error) {
+        console.error('Error fetching record history:', error);
+        setError('History is unavailable right now');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [recordId]);
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2 flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Change History
+      </h4>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-muted-foreground">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {history.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{OPERATION_LABELS[entry.operation]}</Badge>
+                <span className="font-medium">
+                  {entry.actor?.full_name || 'Unknown user'}
+                </span>
+                {entry.actor?.role && (
+                  <span className="text-xs text-muted-foreground capitalize">
+                    {entry.actor.role.replace('_', ' ')}
+                  </span>
+                )}
+                <span className="text-xs text-muted-foreground ml-auto">
+                  {new Date(entry.changed_at).toLocaleString()}
+                </span>
+              </div>
+
+              {entry.operation !== 'DELETE' && entry.changed_fields.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {entry.changed_fields.map((field) => (
+                    <li key={field}>
+                      <span className="text-muted-foreground">{FIELD_LABELS[field] || field}:</span>{' '}
+                      {entry.operation === 'UPDATE' && (
+                        <>
+                          <span className="line-through text-muted-foreground">
+                            {formatValue(field, entry.old_values?.[field])}
+                          </span>
+                          {' → '}
+                        </>
+                      )}
+                      <span>{formatValue(field, entry.new_values?.[field])}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RecordHistory;
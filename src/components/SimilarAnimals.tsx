@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { readFunctionError } from '@/lib/function-errors';
+import { Images } from 'lucide-react';
+import type { BoundingBox } from '@shared/schemas';
+
+interface SimilarMatch {
+  // Null for other workers' records outside the viewer's review area, as is thumbnail_url
+  record_id: string | null;
+  animal_id: string | null;
+  own: boolean;
+  animal_type: string;
+  final_breed: string;
+  similarity: number;
+  verified_at: string | null;
+  thumbnail_url: string | null;
+}
+
+type SimilarAnimalsProps =
+  | { recordId: string; imageUrl?: never; crop?: never; animalType?: never }
+  | { recordId?: never; imageUrl: string; crop?: BoundingBox | null; animalType?: string };
+
+const formatBreedName = (breed: string) => {
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+// Nearest verified records to a stored record or to a photo that hasn't been classified yet
+const SimilarAnimals = ({ recordId, imageUrl, crop, animalType }: SimilarAnimalsProps) => {
+  const [matches, setMatches] = useState<SimilarMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSimilar = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data: response, error } = await supabase.functions
+          .invoke('find-similar-animals', {
+            body: recordId
+              ? { record_id: recordId }
+              : { image_url: imageUrl, crop: crop ?? undefined, animal_type: animalType },
+          });
+
+        if (error) {
+          const body = await readFunctionError(error);
+          throw new Error(body.code === 'similarity_unavailable' ? 'Similarity search is not set up yet' : body.error);
+        }
+
+        setMatches(response.matches || []);
+      } catch (error) {
+        console.error('Error finding similar animals:', error);
+        setError(error instanceof Error ? error.message : 'Similar animals are unavailable right now');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSimilar();
+  }, [recordId, imageUrl, crop, animalType]);
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2 flex items-center gap-2">
+        <Images className="h-4 w-4" />
+        Similar Animals
+      </h4>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Looking for verified animals that look alike...</p>
+      ) : error ? (
+        <p className="text-sm text-muted-foreground">{error}</p>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No verified animals to compare with yet</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {matches.map((match, idx) => (
+            <div key={match.record_id ?? idx} className="space-y-1">
+              <div className="aspect-square overflow-hidden rounded-md bg-muted">
+                {match.thumbnail_url ? (
+                  <img
+                    src={match.thumbnail_url}
+                    alt={formatBreedName(match.final_breed)}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                ) : !match.record_id && (
+                  <p className="h-full flex items-center justify-center p-1 text-center text-[10px] text-muted-foreground">
+                    Outside your area
+                  </p>
+                )}
+              </div>
+              <p className="text-xs font-medium leading-tight">{formatBreedName(match.final_breed)}</p>
+              <p className="text-xs text-muted-foreground leading-tight">
+                {(match.similarity * 100).toFixed(0)}% alike
+                {match.animal_id && ` • ${match.animal_id}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimilarAnimals;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { getImageUrl, ImageSize } from '@/lib/image-urls';
+import { cn } from '@/lib/utils';
+
+interface StorageImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  // The image_url stored on the record
+  src: string | null | undefined;
+  size?: ImageSize;
+}
+
+// <img> for photos in the private animal-images bucket; shows a placeholder until the signed URL arrives
+const StorageImage = ({ src, size = 'thumb', alt, className, ...props }: StorageImageProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!src) return;
+
+    let cancelled = false;
+    getImageUrl(src, size)
+      .then((signed) => {
+        if (!cancelled) setUrl(signed);
+      })
+      .catch((error) => console.error('Error loading image URL:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, size]);
+
+  if (!url) {
+    return <div role="img" aria-label={alt} className={cn('bg-muted', className)} />;
+  }
+
+  return <img src={url} alt={alt} className={className} {...props} />;
+};
+
+export default StorageImage;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CloudOff, RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
+import type { QueuedCapture, QueueStatus } from '@/lib/offline-queue';
+
+const statusStyles: Record<QueueStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  syncing: 'bg-blue-100 text-blue-800 border-blue-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  conflict: 'bg-orange-100 text-orange-800 border-orange-200',
+  rejected: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const QueueItem = ({ item }: { item: QueuedCapture }) => {
+  const { resolveConflict, retry, discard } = useOfflineQueue();
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const [newAnimalId, setNewAnimalId] = useState(`${item.animalId}-2`);
+
+  useEffect(() => {
+    const blob = item.images[0]?.blob;
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setThumbnail(url);
+    return () => URL.revokeObjectURL(url);
+  }, [item.images]);
+
+  return (
+    <div className="flex gap-3 py-3 border-b last:border-b-0">
+      {thumbnail && (
+        <img src={thumbnail} alt="Queued capture" className="w-14 h-14 rounded-lg object-cover" />
+      )}
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium truncate">{item.animalId}</span>
+          <Badge className={statusStyles[item.status]}>
+            {item.status === 'pending' ? 'pending sync' : item.status === 'rejected' ? 'needs action' : item.status}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {item.animalType} • {item.images.length} photo{item.images.length > 1 ? 's' : ''} • captured{' '}
+          {new Date(item.capturedAt).toLocaleString()}
+        </p>
+        {item.status === 'failed' && item.nextAttemptAt !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            Attempt {item.attempts} failed, retrying after {new Date(item.nextAttemptAt).toLocaleTimeString()}
+            {item.lastError && ` — ${item.lastError}`}
+          </p>
+        )}
+
+        {item.status === 'conflict' ? (
+          <div className="space-y-2 pt-1">
+            <p className="text-xs text-orange-700 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {item.lastError}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => resolveConflict(item.id, { overwrite: true })}>
+                Replace existing
+              </Button>
+              <Input
+                value={newAnimalId}
+                onChange={(e) => setNewAnimalId(e.target.value)}
+                className="h-8 w-36"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!newAnimalId.trim() || newAnimalId.trim() === item.animalId}
+                onClick={() => resolveConflict(item.id, { animalId: newAnimalId.trim() })}
+              >
+                Save as new ID
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => discard(item.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ) : item.status === 'rejected' ? (
+          <div className="space-y-2 pt-1">
+            <p className="text-xs text-red-700 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {item.lastError}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => retry(item.id)}>
+                Try again
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => discard(item.id)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        ) : item.status !== 'syncing' && (
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => discard(item.id)}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Discard
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SyncQueue = () => {
+  const { items, isOnline, syncing, syncNow } = useOfflineQueue();
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CloudOff className="h-4 w-4" />
+            Pending Sync ({items.length})
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={syncNow} disabled={!isOnline || syncing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            Sync now
+          </Button>
+        </div>
+        <CardDescription>
+          {isOnline
+            ? 'Captures saved on this device are uploaded automatically'
+            : 'You are offline. Captures will upload when the connection returns'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items.map((item) => (
+          <QueueItem key={item.id} item={item} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SyncQueue;
@@ -0,0 +1,194 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Capture, ConflictError, OfflineError, RejectedError, submitCapture } from '@/lib/capture';
+import {
+  QueuedCapture,
+  deleteQueuedCapture,
+  enqueueCapture,
+  getQueuedCapture,
+  listQueuedCaptures,
+  nextRetryDelay,
+  saveQueuedCapture,
+} from '@/lib/offline-queue';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+interface OfflineQueueContextType {
+  items: QueuedCapture[];
+  isOnline: boolean;
+  syncing: boolean;
+  // Bumped after every successful sync so pages can refetch
+  lastSyncedAt: number | null;
+  enqueue: (capture: Capture) => Promise<void>;
+  syncNow: () => Promise<void>;
+  resolveConflict: (id: string, resolution: { overwrite: true } | { animalId: string }) => Promise<void>;
+  // Sends a rejected capture again, e.g. once the worker's access has been fixed
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+export const useOfflineQueue = () => {
+  const context = useContext(OfflineQueueContext);
+  if (context === undefined) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider');
+  }
+  return context;
+};
+
+export const OfflineQueueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<QueuedCapture[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const syncingRef = useRef(false);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setItems([]);
+      return;
+    }
+    setItems(await listQueuedCaptures(user.id));
+  }, [user]);
+
+  const syncNow = useCallback(async () => {
+    if (!user || syncingRef.current || !navigator.onLine) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    let synced = 0;
+
+    try {
+      const queued = await listQueuedCaptures(user.id);
+      // Conflicts and rejected captures wait for the user
+      const due = queued.filter((item) =>
+        item.status === 'syncing' ||
+        ((item.status === 'pending' || item.status === 'failed') && (item.nextAttemptAt ?? Infinity) <= Date.now())
+      );
+
+      for (const item of due) {
+        await saveQueuedCapture({ ...item, status: 'syncing' });
+        await refresh();
+
+        try {
+          await submitCapture(item, user.id, { overwrite: item.overwrite });
+          await deleteQueuedCapture(item.id);
+          synced++;
+        } catch (error) {
+          const attempts = item.attempts + 1;
+          if (error instanceof ConflictError) {
+            await saveQueuedCapture({ ...item, status: 'conflict', attempts, lastError: error.message });
+          } else if (error instanceof RejectedError) {
+            await saveQueuedCapture({
+              ...item,
+              status: 'rejected',
+              attempts,
+              nextAttemptAt: undefined,
+              lastError: error.message,
+            });
+          } else {
+            await saveQueuedCapture({
+              ...item,
+              status: 'failed',
+              attempts,
+              nextAttemptAt: Date.now() + nextRetryDelay(attempts),
+              lastError: error instanceof Error ? error.message : String(error),
+            });
+            // No point trying the rest of the queue while the network is down
+            if (error instanceof OfflineError) break;
+          }
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    if (synced > 0) {
+      setLastSyncedAt(Date.now());
+      toast({
+        title: "Offline captures synced",
+        description: `${synced} animal${synced > 1 ? 's' : ''} uploaded and classified`,
+      });
+    }
+  }, [user, refresh, toast]);
+
+  const enqueue = useCallback(async (capture: Capture) => {
+    if (!user) return;
+    await enqueueCapture(capture, user.id);
+    await refresh();
+  }, [user, refresh]);
+
+  const resolveConflict = useCallback(async (
+    id: string,
+    resolution: { overwrite: true } | { animalId: string },
+  ) => {
+    const item = await getQueuedCapture(id);
+    if (!item) return;
+
+    await saveQueuedCapture({
+      ...item,
+      ...('overwrite' in resolution ? { overwrite: true } : { animalId: resolution.animalId }),
+      status: 'pending',
+      nextAttemptAt: Date.now(),
+      lastError: undefined,
+    });
+    await refresh();
+    await syncNow();
+  }, [refresh, syncNow]);
+
+  const retry = useCallback(async (id: string) => {
+    const item = await getQueuedCapture(id);
+    if (!item) return;
+
+    await saveQueuedCapture({ ...item, status: 'pending', nextAttemptAt: Date.now(), lastError: undefined });
+    await refresh();
+    await syncNow();
+  }, [refresh, syncNow]);
+
+  const discard = useCallback(async (id: string) => {
+    await deleteQueuedCapture(id);
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Sync when connectivity returns and periodically while online, so backed-off items get retried
+  useEffect(() => {
+    refresh();
+    if (!isOnline) return;
+
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, refresh, syncNow]);
+
+  const value = {
+    items,
+    isOnline,
+    syncing,
+    lastSyncedAt,
+    enqueue,
+    syncNow,
+    resolveConflict,
+    retry,
+    discard,
+  };
+
+  return <OfflineQueueContext.Provider value={value}>{children}</OfflineQueueContext.Provider>;
+};
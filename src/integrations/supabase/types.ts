@@ -14,12 +14,102 @@ export type Database = {
   }
   public: {
     Tables: {
+      animal_images: {
+        Row: {
+          animal_record_id: string
+          created_at: string
+          embedding: string | null
+          id: string
+          image_url: string
+          phash: string | null
+          position: number
+          predicted_breeds: Json | null
+          user_id: string
+          view: Database["public"]["Enums"]["image_view"]
+          weight: number | null
+        }
+        Insert: {
+          animal_record_id: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          image_url: string
+          phash?: string | null
+          position?: number
+          predicted_breeds?: Json | null
+          user_id: string
+          view?: Database["public"]["Enums"]["image_view"]
+          weight?: number | null
+        }
+        Update: {
+          animal_record_id?: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          image_url?: string
+          phash?: string | null
+          position?: number
+          predicted_breeds?: Json | null
+          user_id?: string
+          view?: Database["public"]["Enums"]["image_view"]
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "animal_images_animal_record_id_fkey"
+            columns: ["animal_record_id"]
+            isOneToOne: false
+            referencedRelation: "animal_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      animal_record_history: {
+        Row: {
+          animal_record_id: string
+          changed_at: string
+          changed_by: string | null
+          changed_fields: string[]
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          operation: string
+          user_id: string
+        }
+        Insert: {
+          animal_record_id: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[]
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          operation: string
+          user_id: string
+        }
+        Update: {
+          animal_record_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[]
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          operation?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       animal_records: {
         Row: {
           animal_id: string
           animal_type: Database["public"]["Enums"]["animal_type"]
+          authoritative_prediction_id: string | null
           confidence_score: number | null
           created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          farmer_id: string | null
           final_breed: Database["public"]["Enums"]["breed_type"] | null
           id: string
           image_url: string | null
@@ -28,16 +118,24 @@ export type Database = {
           notes: string | null
           owner_details: Json | null
           predicted_breed: Database["public"]["Enums"]["breed_type"] | null
+          prediction_outcome: string
           updated_at: string
+          updated_by: string | null
           user_id: string
+          verification_reason: string | null
           verification_status: string | null
+          verified_at: string | null
           verified_by: string | null
         }
         Insert: {
           animal_id: string
           animal_type: Database["public"]["Enums"]["animal_type"]
+          authoritative_prediction_id?: string | null
           confidence_score?: number | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          farmer_id?: string | null
           final_breed?: Database["public"]["Enums"]["breed_type"] | null
           id?: string
           image_url?: string | null
@@ -46,16 +144,24 @@ export type Database = {
           notes?: string | null
           owner_details?: Json | null
           predicted_breed?: Database["public"]["Enums"]["breed_type"] | null
+          prediction_outcome?: string
           updated_at?: string
+          updated_by?: string | null
           user_id: string
+          verification_reason?: string | null
           verification_status?: string | null
+          verified_at?: string | null
           verified_by?: string | null
         }
         Update: {
           animal_id?: string
           animal_type?: Database["public"]["Enums"]["animal_type"]
+          authoritative_prediction_id?: string | null
           confidence_score?: number | null
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          farmer_id?: string | null
           final_breed?: Database["public"]["Enums"]["breed_type"] | null
           id?: string
           image_url?: string | null
@@ -64,40 +170,83 @@ export type Database = {
           notes?: string | null
           owner_details?: Json | null
           predicted_breed?: Database["public"]["Enums"]["breed_type"] | null
+          prediction_outcome?: string
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
+          verification_reason?: string | null
           verification_status?: string | null
+          verified_at?: string | null
           verified_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "animal_records_farmer_id_fkey"
+            columns: ["farmer_id"]
+            isOneToOne: false
+            referencedRelation: "farmers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_records_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       breed_predictions: {
         Row: {
           animal_record_id: string
           created_at: string
+          detections: Json | null
           id: string
           image_url: string
+          model_id: string | null
           model_version: string | null
+          non_bovine_score: number | null
           predicted_breeds: Json
           processing_time_ms: number | null
+          quality_scores: Json | null
+          run_type: string
+          shadow_of: string | null
+          source: string
+          view_contributions: Json | null
         }
         Insert: {
           animal_record_id: string
           created_at?: string
+          detections?: Json | null
           id?: string
           image_url: string
+          model_id?: string | null
           model_version?: string | null
+          non_bovine_score?: number | null
           predicted_breeds: Json
           processing_time_ms?: number | null
+          quality_scores?: Json | null
+          run_type?: string
+          shadow_of?: string | null
+          source?: string
+          view_contributions?: Json | null
         }
         Update: {
           animal_record_id?: string
           created_at?: string
+          detections?: Json | null
           id?: string
           image_url?: string
+          model_id?: string | null
           model_version?: string | null
+          non_bovine_score?: number | null
           predicted_breeds?: Json
           processing_time_ms?: number | null
+          quality_scores?: Json | null
+          run_type?: string
+          shadow_of?: string | null
+          source?: string
+          view_contributions?: Json | null
         }
         Relationships: [
           {
@@ -148,17 +297,415 @@ export type Database = {
         }
         Relationships: []
       }
+      classification_thresholds: {
+        Row: {
+          animal_type: Database["public"]["Enums"]["animal_type"]
+          created_at: string
+          max_non_bovine: number
+          min_confidence: number
+          min_known_confidence: number
+          min_margin: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          animal_type: Database["public"]["Enums"]["animal_type"]
+          created_at?: string
+          max_non_bovine?: number
+          min_confidence: number
+          min_known_confidence?: number
+          min_margin: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          animal_type?: Database["public"]["Enums"]["animal_type"]
+          created_at?: string
+          max_non_bovine?: number
+          min_confidence?: number
+          min_known_confidence?: number
+          min_margin?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      dataset_snapshot_items: {
+        Row: {
+          animal_id: string
+          animal_record_id: string | null
+          animal_type: string
+          breed: Database["public"]["Enums"]["breed_type"]
+          crop: Json | null
+          id: string
+          image_url: string
+          position: number
+          snapshot_id: string
+          split: string
+          view: string
+        }
+        Insert: {
+          animal_id: string
+          animal_record_id?: string | null
+          animal_type: string
+          breed: Database["public"]["Enums"]["breed_type"]
+          crop?: Json | null
+          id?: string
+          image_url: string
+          position: number
+          snapshot_id: string
+          split: string
+          view: string
+        }
+        Update: {
+          animal_id?: string
+          animal_record_id?: string | null
+          animal_type?: string
+          breed?: Database["public"]["Enums"]["breed_type"]
+          crop?: Json | null
+          id?: string
+          image_url?: string
+          position?: number
+          snapshot_id?: string
+          split?: string
+          view?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dataset_snapshot_items_animal_record_id_fkey"
+            columns: ["animal_record_id"]
+            isOneToOne: false
+            referencedRelation: "animal_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dataset_snapshot_items_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "dataset_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dataset_snapshots: {
+        Row: {
+          breed_counts: Json
+          created_at: string
+          created_by: string
+          filters: Json
+          id: string
+          image_count: number
+          name: string
+          record_count: number
+          seed: string
+          split_ratios: Json
+        }
+        Insert: {
+          breed_counts?: Json
+          created_at?: string
+          created_by: string
+          filters?: Json
+          id?: string
+          image_count?: number
+          name: string
+          record_count?: number
+          seed: string
+          split_ratios: Json
+        }
+        Update: {
+          breed_counts?: Json
+          created_at?: string
+          created_by?: string
+          filters?: Json
+          id?: string
+          image_count?: number
+          name?: string
+          record_count?: number
+          seed?: string
+          split_ratios?: Json
+        }
+        Relationships: []
+      }
+      duplicate_flags: {
+        Row: {
+          animal_record_id: string
+          created_at: string
+          distance: number
+          id: string
+          image_url: string
+          matched_image_url: string
+          matched_record_id: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          same_worker: boolean
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          animal_record_id: string
+          created_at?: string
+          distance: number
+          id?: string
+          image_url: string
+          matched_image_url: string
+          matched_record_id: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          same_worker: boolean
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          animal_record_id?: string
+          created_at?: string
+          distance?: number
+          id?: string
+          image_url?: string
+          matched_image_url?: string
+          matched_record_id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          same_worker?: boolean
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_flags_animal_record_id_fkey"
+            columns: ["animal_record_id"]
+            isOneToOne: false
+            referencedRelation: "animal_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_matched_record_id_fkey"
+            columns: ["matched_record_id"]
+            isOneToOne: false
+            referencedRelation: "animal_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farmers: {
+        Row: {
+          created_at: string
+          created_by: string
+          district: string
+          id: string
+          name: string
+          phone: string | null
+          state: string
+          tehsil: string | null
+          updated_at: string
+          village: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          district: string
+          id?: string
+          name: string
+          phone?: string | null
+          state: string
+          tehsil?: string | null
+          updated_at?: string
+          village: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          district?: string
+          id?: string
+          name?: string
+          phone?: string | null
+          state?: string
+          tehsil?: string | null
+          updated_at?: string
+          village?: string
+        }
+        Relationships: []
+      }
+      import_job_rows: {
+        Row: {
+          animal_id: string | null
+          animal_record_id: string | null
+          animal_type: string | null
+          created_at: string
+          error: string | null
+          id: string
+          image_file: string | null
+          image_url: string | null
+          job_id: string
+          known_breed: string | null
+          owner_name: string | null
+          row_number: number
+          status: string
+          updated_at: string
+          user_id: string
+          village: string | null
+        }
+        Insert: {
+          animal_id?: string | null
+          animal_record_id?: string | null
+          animal_type?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          image_file?: string | null
+          image_url?: string | null
+          job_id: string
+          known_breed?: string | null
+          owner_name?: string | null
+          row_number: number
+          status?: string
+          updated_at?: string
+          user_id: string
+          village?: string | null
+        }
+        Update: {
+          animal_id?: string | null
+          animal_record_id?: string | null
+          animal_type?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          image_file?: string | null
+          image_url?: string | null
+          job_id?: string
+          known_breed?: string | null
+          owner_name?: string | null
+          row_number?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+          village?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_rows_animal_record_id_fkey"
+            columns: ["animal_record_id"]
+            isOneToOne: false
+            referencedRelation: "animal_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          failed_rows: number
+          file_name: string | null
+          id: string
+          status: string
+          succeeded_rows: number
+          total_rows: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          failed_rows?: number
+          file_name?: string | null
+          id?: string
+          status?: string
+          succeeded_rows?: number
+          total_rows?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          failed_rows?: number
+          file_name?: string | null
+          id?: string
+          status?: string
+          succeeded_rows?: number
+          total_rows?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      models: {
+        Row: {
+          config: Json
+          created_at: string
+          created_by: string | null
+          dataset_snapshot_id: string | null
+          id: string
+          name: string
+          notes: string | null
+          provider: string
+          status: string
+          updated_at: string
+          updated_by: string | null
+          version: string
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          dataset_snapshot_id?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          provider: string
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          dataset_snapshot_id?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          provider?: string
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "models_dataset_snapshot_id_fkey"
+            columns: ["dataset_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "dataset_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           designation: string | null
           district: string | null
+          district_key: string | null
           employee_id: string | null
           full_name: string | null
           id: string
           is_verified: boolean | null
           phone: string | null
+          role: Database["public"]["Enums"]["app_role"]
           state: string | null
+          state_key: string | null
           updated_at: string
           user_id: string
         }
@@ -166,12 +713,15 @@ export type Database = {
           created_at?: string
           designation?: string | null
           district?: string | null
+          district_key?: never
           employee_id?: string | null
           full_name?: string | null
           id?: string
           is_verified?: boolean | null
           phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
           state?: string | null
+          state_key?: never
           updated_at?: string
           user_id: string
         }
@@ -179,12 +729,15 @@ export type Database = {
           created_at?: string
           designation?: string | null
           district?: string | null
+          district_key?: never
           employee_id?: string | null
           full_name?: string | null
           id?: string
           is_verified?: boolean | null
           phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
           state?: string | null
+          state_key?: never
           updated_at?: string
           user_id?: string
         }
@@ -195,10 +748,72 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_review_records_of: {
+        Args: { p_reviewer: string; p_worker: string }
+        Returns: boolean
+      }
+      find_duplicate_images: {
+        Args: { p_max_distance: number; p_record_id: string }
+        Returns: {
+          distance: number
+          image_url: string
+          matched_animal_id: string
+          matched_image_url: string
+          matched_record_id: string
+          matched_user_id: string
+          same_worker: boolean
+        }[]
+      }
+      get_dashboard_stats: {
+        Args: { p_days?: number; p_user_id: string }
+        Returns: Json
+      }
+      get_user_role: {
+        Args: { p_user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      match_verified_records: {
+        Args: {
+          p_animal_type?: string
+          p_embedding: string
+          p_embedding_model: string
+          p_exclude_record?: string
+          p_match_count?: number
+        }
+        Returns: {
+          animal_id: string
+          animal_type: string
+          final_breed: string
+          id: string
+          image_url: string
+          similarity: number
+          user_id: string
+          verified_at: string
+        }[]
+      }
+      phash_distance: {
+        Args: { a: string; b: string }
+        Returns: number
+      }
+      verified_model_versions: {
+        Args: {
+          p_animal_type?: string
+          p_district_key?: string
+          p_from?: string
+          p_state_key: string
+          p_to?: string
+        }
+        Returns: {
+          model_version: string
+        }[]
+      }
     }
     Enums: {
       animal_type: "cattle" | "buffalo"
+      app_role:
+        | "field_worker"
+        | "supervisor"
+        | "district_admin"
       breed_type:
         | "gir"
         | "sahiwal"
@@ -241,6 +856,12 @@ export type Database = {
         | "punganur"
         | "siri"
         | "vechur"
+      image_view:
+        | "left_side"
+        | "right_side"
+        | "front_face"
+        | "rear_udder"
+        | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -369,6 +990,7 @@ export const Constants = {
   public: {
     Enums: {
       animal_type: ["cattle", "buffalo"],
+      app_role: ["field_worker", "supervisor", "district_admin"],
       breed_type: [
         "gir",
         "sahiwal",
@@ -412,6 +1034,13 @@ export const Constants = {
         "siri",
         "vechur",
       ],
+      image_view: [
+        "left_side",
+        "right_side",
+        "front_face",
+        "rear_udder",
+        "other",
+      ],
     },
   },
 } as const
@@ -0,0 +1,180 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { parseCsvRecords, toCsv } from '@/lib/csv';
+
+export const MANIFEST_COLUMNS = ['animal_id', 'animal_type', 'owner', 'village', 'known_breed', 'image'];
+
+// 10MB, same limit as single captures
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export interface ImportRow {
+  row_number: number;
+  animal_id: string;
+  animal_type: string;
+  owner_name: string;
+  village: string;
+  known_breed: string;
+  image_file: string;
+  image_url?: string;
+  error?: string;
+}
+
+export interface ImportArchive {
+  manifestName: string;
+  rows: ImportRow[];
+  images: Map<string, JSZip.JSZipObject>;
+}
+
+export type ImportJobStatus = 'processing' | 'completed' | 'completed_with_errors' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  file_name: string | null;
+  status: ImportJobStatus;
+  total_rows: number;
+  succeeded_rows: number;
+  failed_rows: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface ImportJobRow {
+  id: string;
+  row_number: number;
+  animal_id: string | null;
+  image_file: string | null;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error: string | null;
+  animal_record_id: string | null;
+}
+
+const baseName = (path: string) => path.split('/').pop()!.toLowerCase();
+const extension = (path: string) => path.split('.').pop()!.toLowerCase();
+const withoutExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+export const manifestTemplate = () =>
+  toCsv(MANIFEST_COLUMNS, [['BPA-000123', 'cattle', 'Ramesh Patel', 'Anand', 'gir', 'BPA-000123.jpg']]);
+
+// Reads the ZIP and the manifest (a separate CSV, or the first .csv inside the ZIP)
+export const readImportArchive = async (zipFile: File, manifestFile?: File | null): Promise<ImportArchive> => {
+  const zip = await JSZip.loadAsync(zipFile);
+  const entries = Object.values(zip.files).filter((f) => !f.dir && !f.name.startsWith('__MACOSX/'));
+
+  const images = new Map<string, JSZip.JSZipObject>();
+  for (const entry of entries) {
+    if (IMAGE_TYPES[extension(entry.name)]) {
+      images.set(baseName(entry.name), entry);
+    }
+  }
+
+  let manifestText: string;
+  let manifestName: string;
+  if (manifestFile) {
+    manifestText = await manifestFile.text();
+    manifestName = manifestFile.name;
+  } else {
+    const csvEntry = entries.find((f) => extension(f.name) === 'csv');
+    if (!csvEntry) {
+      throw new Error('No manifest found. Add a CSV file to the ZIP or select one separately.');
+    }
+    manifestText = await csvEntry.async('string');
+    manifestName = baseName(csvEntry.name);
+  }
+
+  const records = parseCsvRecords(manifestText);
+  if (records.length === 0) {
+    throw new Error('The manifest has no rows');
+  }
+  if (!('animal_id' in records[0]) || !('animal_type' in records[0])) {
+    throw new Error('The manifest must have at least the columns: animal_id, animal_type');
+  }
+
+  // Rows without an image column are matched to a file named after the animal ID
+  const byAnimalId = new Map<string, string>();
+  for (const name of images.keys()) {
+    byAnimalId.set(withoutExtension(name), name);
+  }
+
+  const rows = records.map((record, idx) => {
+    const image = record.image || record.image_file || record.filename || '';
+    const imageFile = image
+      ? baseName(image)
+      : byAnimalId.get(record.animal_id.toLowerCase()) ?? '';
+
+    return {
+      row_number: idx + 1,
+      animal_id: record.animal_id,
+      animal_type: record.animal_type,
+      owner_name: record.owner || record.owner_name || '',
+      village: record.village || '',
+      known_breed: record.known_breed || record.breed || '',
+      image_file: imageFile,
+      error: !imageFile || !images.has(imageFile)
+        ? `Image ${image || `for ${record.animal_id}`} not found in the ZIP`
+        : undefined,
+    };
+  });
+
+  return { manifestName, rows, images };
+};
+
+// Uploads the image of every row that passed the local checks; failures are recorded on the row
+export const uploadImportImages = async (
+  archive: ImportArchive,
+  userId: string,
+  batchId: string,
+  onProgress?: (done: number, total: number) => void,
+) => {
+  const rows = archive.rows.map((row) => ({ ...row }));
+  const uploadable = rows.filter((row) => !row.error);
+  let done = 0;
+
+  for (const row of uploadable) {
+    try {
+      const entry = archive.images.get(row.image_file)!;
+      const ext = extension(row.image_file);
+      const blob = new Blob([await entry.async('arraybuffer')], { type: IMAGE_TYPES[ext] });
+
+      if (blob.size > MAX_IMAGE_BYTES) {
+        throw new Error('Image is larger than 10MB');
+      }
+
+      const fileName = `${userId}/import-${batchId}-${row.row_number}.${ext}`;
+      const { error: uploadError } = await supabase.storage
+        .from('animal-images')
+        .upload(fileName, blob, { upsert: true, contentType: blob.type });
+
+      if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`);
+      }
+
+      const { data: urlData } = supabase.storage
+        .from('animal-images')
+        .getPublicUrl(fileName);
+
+      row.image_url = urlData.publicUrl;
+    } catch (error) {
+      row.error = error instanceof Error ? error.message : String(error);
+    }
+
+    done++;
+    onProgress?.(done, uploadable.length);
+  }
+
+  return rows;
+};
+
+export const errorReport = (rows: ImportJobRow[]) =>
+  toCsv(
+    ['row_number', 'animal_id', 'image', 'error'],
+    rows
+      .filter((row) => row.status === 'failed')
+      .map((row) => [row.row_number, row.animal_id, row.image_file, row.error]),
+  );
@@ -0,0 +1,237 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { readFunctionError } from '@/lib/function-errors';
+import type { ImageView } from '@/lib/image-views';
+import type { Detection, FarmerInput, ImageQuality, LocationData, OnDevicePrediction } from '@shared/schemas';
+import type { PredictionOutcome } from '@shared/breeds';
+
+export type AnimalType = 'cattle' | 'buffalo';
+
+export interface CaptureImage {
+  blob: Blob;
+  name: string;
+  view: ImageView;
+  quality?: ImageQuality | null;
+  // Already in Storage, e.g. the shared photo of a herd capture
+  uploadedUrl?: string | null;
+  // The animal to classify when the photo shows several
+  detections?: Detection[] | null;
+}
+
+// Everything needed to upload and classify one animal, online or later from the offline queue
+export interface Capture {
+  id: string;
+  animalId: string;
+  animalType: AnimalType;
+  images: CaptureImage[];
+  locationData?: LocationData | null;
+  // An existing farmer, or details of a new one that classify-breed saves (e.g. entered offline)
+  farmerId?: string | null;
+  farmer?: FarmerInput | null;
+  // Provisional result of the in-browser model, stored next to the server prediction on sync
+  onDevicePrediction?: OnDevicePrediction | null;
+  capturedAt: string;
+}
+
+export interface ClassificationResult {
+  animal_record_id: string;
+  farmer_id: string | null;
+  predictions: Array<{ breed: string; confidence: number }>;
+  // Null when the photos showed no cattle or buffalo
+  top_prediction: { breed: string; confidence: number } | null;
+  // 'needs_review' when the top breed was below the animal type's thresholds, 'unknown_breed' when
+  // no catalog breed scored high enough and 'not_bovine' when no cattle or buffalo were found
+  outcome: PredictionOutcome;
+  non_bovine_score?: number | null;
+  // Stored photos that look the same; other workers' animal IDs are withheld
+  duplicates?: Array<{
+    matched_record_id: string | null;
+    matched_animal_id: string | null;
+    same_worker: boolean;
+    distance: number;
+  }>;
+  model_version: string;
+  processing_time_ms: number;
+}
+
+// Storage or the edge function could not be reached; the capture should be queued
+export class OfflineError extends Error {
+  constructor(message = 'No network connection') {
+    super(message);
+    this.name = 'OfflineError';
+  }
+}
+
+// A record with this animal ID already exists for the user
+export class ConflictError extends Error {
+  constructor(public recordId: string, animalId: string) {
+    super(`A record for animal ID "${animalId}" already exists`);
+    this.name = 'ConflictError';
+  }
+}
+
+// The server refused the capture itself (bad input, no permission); sending it again unchanged won't help
+export class RejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedError';
+  }
+}
+
+const NETWORK_ERROR_NAMES = ['FunctionsFetchError', 'StorageUnknownError', 'TypeError'];
+
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (!(error instanceof Error)) return false;
+  return NETWORK_ERROR_NAMES.includes(error.name) ||
+    /failed to fetch|networkerror|network request failed|load failed/i.test(error.message);
+};
+
+// Statuses that can clear up on their own: an expired session is refreshed, timeouts and rate limits pass
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+// 4xx from an edge function or Storage that the same request will keep getting
+const isClientError = (error: unknown) => {
+  const status = error instanceof FunctionsHttpError && error.context instanceof Response
+    ? error.context.status
+    : (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status);
+};
+
+export const newCaptureId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const findExistingRecord = async (userId: string, animalId: string) => {
+  const { data, error } = await supabase
+    .from('animal_records')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('animal_id', animalId)
+    .maybeSingle();
+
+  if (error) {
+    throw isNetworkError(error) ? new OfflineError() : new Error(error.message);
+  }
+  return data?.id ?? null;
+};
+
+// Uploads one view to Supabase Storage; the capture id keeps retried uploads on the same path
+export const uploadCaptureImage = async (captureId: string, idx: number, image: CaptureImage, userId: string) => {
+  const fileExt = image.name.split('.').pop();
+  const fileName = `${userId}/${captureId}-${idx}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('animal-images')
+    .upload(fileName, image.blob, { upsert: true, contentType: image.blob.type || undefined });
+
+  if (uploadError) {
+    if (isNetworkError(uploadError)) throw new OfflineError();
+    const message = `Upload failed: ${uploadError.message}`;
+    throw isClientError(uploadError) ? new RejectedError(message) : new Error(message);
+  }
+
+  // The bucket is private: this URL only identifies the object, StorageImage signs it for display
+  const { data: urlData } = supabase.storage
+    .from('animal-images')
+    .getPublicUrl(fileName);
+
+  return urlData.publicUrl;
+};
+
+// Removes a photo that was uploaded for a lookup but never used by a record.
+// Storage keeps objects a record still points at, so this is best effort.
+export const deleteCaptureImage = async (imageUrl: string) => {
+  const fileName = decodeURIComponent(new URL(imageUrl).pathname.split('/animal-images/')[1] ?? '');
+  if (!fileName) return;
+
+  const { error } = await supabase.storage.from('animal-images').remove([fileName]);
+  if (error) {
+    console.error('Failed to delete unused upload:', error);
+  }
+};
+
+// Animals the server-side detector finds in an uploaded photo, most confident first
+export const detectAnimals = async (imageUrl: string): Promise<Detection[]> => {
+  const { data, error } = await supabase.functions.invoke('detect-animals', {
+    body: { image_url: imageUrl },
+  });
+
+  if (error) {
+    if (isNetworkError(error)) throw new OfflineError();
+    const body = await readFunctionError(error);
+    throw new Error(body.error);
+  }
+
+  return data.detections as Detection[];
+};
+
+interface SubmitOptions {
+  // Replace an existing record with the same animal ID instead of raising ConflictError
+  overwrite?: boolean;
+  onProgress?: (progress: number) => void;
+}
+
+// Uploads every image of a capture and runs classify-breed on them
+export const submitCapture = async (
+  capture: Capture,
+  userId: string,
+  { overwrite = false, onProgress }: SubmitOptions = {},
+): Promise<ClassificationResult> => {
+  onProgress?.(10);
+
+  if (!overwrite) {
+    const existingId = await findExistingRecord(userId, capture.animalId);
+    if (existingId) {
+      throw new ConflictError(existingId, capture.animalId);
+    }
+  }
+
+  onProgress?.(30);
+
+  const uploaded: Array<{
+    image_url: string;
+    view: ImageView;
+    quality: ImageQuality | null;
+    detections: Detection[] | null;
+  }> = [];
+
+  for (const [idx, image] of capture.images.entries()) {
+    uploaded.push({
+      image_url: image.uploadedUrl ?? await uploadCaptureImage(capture.id, idx, image, userId),
+      view: image.view,
+      quality: image.quality ?? null,
+      detections: image.detections ?? null,
+    });
+    onProgress?.(30 + Math.round((40 * (idx + 1)) / capture.images.length));
+  }
+
+  onProgress?.(70);
+
+  // Call classification edge function
+  const { data, error } = await supabase.functions
+    .invoke('classify-breed', {
+      body: {
+        images: uploaded,
+        animal_id: capture.animalId,
+        animal_type: capture.animalType,
+        location_data: capture.locationData ?? null,
+        farmer_id: capture.farmerId ?? null,
+        farmer: capture.farmerId ? null : capture.farmer ?? null,
+        on_device_prediction: capture.onDevicePrediction ?? null,
+      },
+    });
+
+  if (error) {
+    if (isNetworkError(error)) throw new OfflineError();
+    const body = await readFunctionError(error);
+    const fields = body.fields ? `: ${Object.values(body.fields).join(', ')}` : '';
+    const message = `Classification failed: ${body.error}${fields}`;
+    throw isClientError(error) ? new RejectedError(message) : new Error(message);
+  }
+
+  onProgress?.(100);
+
+  return data as ClassificationResult;
+};
@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import { toCsv } from '@/lib/csv';
+import { getImageUrl } from '@/lib/image-urls';
+import type { BoundingBox } from '@shared/schemas';
+
+export type DatasetSplit = 'train' | 'val' | 'test';
+
+export const DATASET_SPLITS: DatasetSplit[] = ['train', 'val', 'test'];
+
+export interface DatasetSnapshot {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  split_ratios: Record<DatasetSplit, number>;
+  seed: string;
+  record_count: number;
+  image_count: number;
+  breed_counts: Record<string, Record<DatasetSplit, number>>;
+  created_at: string;
+  // Models registered as trained on this snapshot
+  models?: Array<{ id: string; name: string; version: string; status: string }>;
+}
+
+export interface DatasetItem {
+  animal_record_id: string | null;
+  animal_id: string;
+  animal_type: string;
+  breed: string;
+  split: DatasetSplit;
+  image_url: string;
+  view: string;
+  crop: BoundingBox | null;
+  position: number;
+}
+
+interface ExportedImage {
+  item: DatasetItem;
+  file: string;
+  width: number;
+  height: number;
+}
+
+// Images are fetched a few at a time to keep memory and connections in check
+const DOWNLOAD_BATCH = 4;
+
+const safeName = (value: string) => value.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+// Herd photos hold several animals; the dataset keeps only the one the record is about
+const loadImage = async (item: DatasetItem) => {
+  const signedUrl = await getImageUrl(item.image_url, 'original');
+  if (!signedUrl) {
+    throw new Error('Image not accessible');
+  }
+
+  const response = await fetch(signedUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status}`);
+  }
+
+  const original = await response.blob();
+  const bitmap = await createImageBitmap(original);
+  try {
+    if (!item.crop) {
+      return { blob: original, width: bitmap.width, height: bitmap.height };
+    }
+
+    const sx = Math.round(item.crop.x * bitmap.width);
+    const sy = Math.round(item.crop.y * bitmap.height);
+    const width = Math.max(1, Math.round(item.crop.width * bitmap.width));
+    const height = Math.max(1, Math.round(item.crop.height * bitmap.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, sx, sy, width, height, 0, 0, width, height);
+
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('Crop failed'))), 'image/jpeg', 0.95)
+    );
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const extensionOf = (blob: Blob) => (blob.type === 'image/png' ? 'png' : blob.type === 'image/webp' ? 'webp' : 'jpg');
+
+// One COCO file per split; every image is a single animal, so its box covers the whole image
+const cocoManifest = (snapshot: DatasetSnapshot, images: ExportedImage[], breeds: string[]) => ({
+  info: {
+    description: snapshot.name,
+    version: snapshot.id,
+    date_created: snapshot.created_at,
+  },
+  images: images.map((image, i) => ({
+    id: i + 1,
+    file_name: image.file,
+    width: image.width,
+    height: image.height,
+  })),
+  annotations: images.map((image, i) => ({
+    id: i + 1,
+    image_id: i + 1,
+    category_id: breeds.indexOf(image.item.breed) + 1,
+    bbox: [0, 0, image.width, image.height],
+    area: image.width * image.height,
+    iscrowd: 0,
+  })),
+  categories: breeds.map((breed, i) => ({ id: i + 1, name: breed })),
+});
+
+// ZIP in ImageFolder layout (split/breed/image) with a JSONL manifest, COCO files per split,
+// per-breed counts and the snapshot metadata
+export const buildDatasetArchive = async (
+  snapshot: DatasetSnapshot,
+  items: DatasetItem[],
+  onProgress?: (done: number, total: number) => void,
+) => {
+  const zip = new JSZip();
+  const root = zip.folder(`dataset-${snapshot.id}`)!;
+  const exported: ExportedImage[] = [];
+  const missing: Array<[string, string, string]> = [];
+  let done = 0;
+
+  for (let i = 0; i < items.length; i += DOWNLOAD_BATCH) {
+    await Promise.all(items.slice(i, i + DOWNLOAD_BATCH).map(async (item) => {
+      try {
+        const { blob, width, height } = await loadImage(item);
+        const file = `${item.split}/${item.breed}/${safeName(item.animal_id)}_${item.view}_${item.position}.${extensionOf(blob)}`;
+        root.file(file, blob);
+        exported.push({ item, file, width, height });
+      } catch (error) {
+        missing.push([item.animal_id, item.image_url, error instanceof Error ? error.message : String(error)]);
+      }
+      done++;
+      onProgress?.(done, items.length);
+    }));
+  }
+
+  exported.sort((a, b) => a.item.position - b.item.position);
+  const breeds = Object.keys(snapshot.breed_counts).sort();
+
+  root.file('manifest.jsonl', exported.map((image) => JSON.stringify({
+    file: image.file,
+    split: image.item.split,
+    breed: image.item.breed,
+    animal_type: image.item.animal_type,
+    animal_id: image.item.animal_id,
+    animal_record_id: image.item.animal_record_id,
+    view: image.item.view,
+    width: image.width,
+    height: image.height,
+    source_image_url: image.item.image_url,
+    crop: image.item.crop,
+  })).join('\n') + '\n');
+
+  for (const split of DATASET_SPLITS) {
+    const splitImages = exported.filter((image) => image.item.split === split);
+    root.file(`annotations/${split}.json`, JSON.stringify(cocoManifest(snapshot, splitImages, breeds)));
+  }
+
+  root.file('counts.csv', toCsv(
+    ['breed', ...DATASET_SPLITS.map((split) => `${split}_records`), 'total_records'],
+    breeds.map((breed) => {
+      const counts = snapshot.breed_counts[breed];
+      return [breed, ...DATASET_SPLITS.map((split) => counts[split]), DATASET_SPLITS.reduce((sum, split) => sum + counts[split], 0)];
+    }),
+  ));
+
+  root.file('snapshot.json', JSON.stringify({
+    snapshot_id: snapshot.id,
+    name: snapshot.name,
+    created_at: snapshot.created_at,
+    filters: snapshot.filters,
+    split_ratios: snapshot.split_ratios,
+    seed: snapshot.seed,
+    record_count: snapshot.record_count,
+    image_count: snapshot.image_count,
+    exported_images: exported.length,
+  }, null, 2));
+
+  if (missing.length) {
+    root.file('missing.csv', toCsv(['animal_id', 'image_url', 'error'], missing));
+  }
+
+  // Photos are already compressed; storing them keeps the browser responsive
+  const archive = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+  return { archive, missing: missing.length };
+};
@@ -0,0 +1,11 @@
+// Saves generated content (reports, exports) through a temporary object URL
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,25 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// JSON body returned by the edge functions on a non-2xx response
+export interface FunctionErrorBody {
+  error: string;
+  details?: string;
+  code?: string;
+  field?: string;
+  allowed_codes?: string[];
+  // Per-field messages for code 'validation_error'
+  fields?: Record<string, string>;
+}
+
+// functions.invoke only exposes a generic message; the structured error is in the response body
+export const readFunctionError = async (error: unknown): Promise<FunctionErrorBody> => {
+  if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+    try {
+      const body = await error.context.clone().json();
+      if (body && typeof body.error === 'string') return body;
+    } catch {
+      // Not JSON, fall through to the generic message
+    }
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
+};
@@ -0,0 +1,29 @@
+import type { LocationData } from '@shared/schemas';
+
+// Reads the device position once; resolves null when it's denied, unsupported or too slow
+export const getCurrentLocation = (timeoutMs = 10000): Promise<LocationData | null> =>
+  new Promise((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy_m: Math.round(position.coords.accuracy),
+        captured_at: new Date(position.timestamp).toISOString(),
+        source: 'device',
+      }),
+      (error) => {
+        console.warn('Could not read device location:', error.message);
+        resolve(null);
+      },
+      // A recent fix is fine when the worker photographs several animals in one place
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 },
+    );
+  });
+
+export const formatLocation = (location: LocationData) =>
+  `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}${location.accuracy_m != null ? ` (±${location.accuracy_m} m)` : ''}`;
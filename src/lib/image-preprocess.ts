@@ -0,0 +1,138 @@
+import { gps, parse, rotation } from 'exifr';
+import { assessQuality, QualityAssessment } from '@/lib/image-quality';
+import type { LocationData } from '@shared/schemas';
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  // Longest edge in pixels after downscaling
+  maxDimension?: number;
+  // Encoder quality between 0 and 1
+  quality?: number;
+  format?: OutputFormat;
+}
+
+export interface PreprocessedImage {
+  // Re-encoded image without any EXIF/metadata
+  file: File;
+  originalSize: number;
+  width: number;
+  height: number;
+  // GPS position and time the photo was taken, read before the metadata is dropped
+  exifLocation: LocationData | null;
+  quality: QualityAssessment;
+}
+
+const envNumber = (value: string | undefined, fallback: number) =>
+  Number(value) > 0 ? Number(value) : fallback;
+
+// JPEG by default: server-side renditions and the PDF export can't decode WebP
+export const PREPROCESS_DEFAULTS: Required<PreprocessOptions> = {
+  maxDimension: envNumber(import.meta.env.VITE_IMAGE_MAX_DIMENSION, 1600),
+  quality: envNumber(import.meta.env.VITE_IMAGE_QUALITY, 0.8),
+  format: import.meta.env.VITE_IMAGE_FORMAT === 'webp' ? 'image/webp' : 'image/jpeg',
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const readExifLocation = async (file: File): Promise<LocationData | null> => {
+  try {
+    const [position, tags] = await Promise.all([gps(file), parse(file, ['DateTimeOriginal'])]);
+    if (!position || !Number.isFinite(position.latitude) || !Number.isFinite(position.longitude)) {
+      return null;
+    }
+
+    const takenAt: unknown = tags?.DateTimeOriginal;
+    return {
+      lat: position.latitude,
+      lng: position.longitude,
+      accuracy_m: null,
+      captured_at: takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt.toISOString() : null,
+      source: 'exif',
+    };
+  } catch {
+    // No EXIF block (e.g. PNG or screenshots)
+    return null;
+  }
+};
+
+const loadImage = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// Orients, downscales and re-encodes a photo before upload. Drawing through a canvas drops
+// all metadata, so the stored image no longer carries the phone's GPS or device details.
+export const preprocessImage = async (file: File, options: PreprocessOptions = {}): Promise<PreprocessedImage> => {
+  const { maxDimension, quality, format } = { ...PREPROCESS_DEFAULTS, ...options };
+
+  const [image, orientation, exifLocation] = await Promise.all([
+    loadImage(file),
+    rotation(file).catch(() => undefined),
+    readExifLocation(file),
+  ]);
+
+  // Current browsers already apply the EXIF orientation when decoding; older ones need it done here
+  const rotate = orientation?.canvas ? orientation : undefined;
+
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = rotate?.dimensionSwapped ? height : width;
+  canvas.height = rotate?.dimensionSwapped ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Image processing is not supported on this device');
+  }
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  if (rotate) {
+    ctx.rotate(rotate.rad);
+    ctx.scale(rotate.scaleX, rotate.scaleY);
+  }
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+
+  // Scored on the oriented canvas, but resolution is judged on the photo as it was taken
+  const assessment = assessQuality(
+    canvas,
+    canvas.width,
+    canvas.height,
+    rotate?.dimensionSwapped ? image.naturalHeight : image.naturalWidth,
+    rotate?.dimensionSwapped ? image.naturalWidth : image.naturalHeight,
+  );
+
+  let blob = await toBlob(canvas, format, quality);
+  // Browsers that can't encode WebP silently return PNG
+  if (!blob || blob.type !== format) {
+    blob = await toBlob(canvas, 'image/jpeg', quality);
+  }
+  if (!blob) {
+    throw new Error(`Could not compress ${file.name}`);
+  }
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const name = `${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
+
+  return {
+    file: new File([blob], name, { type: blob.type }),
+    originalSize: file.size,
+    width: canvas.width,
+    height: canvas.height,
+    exifLocation,
+    quality: assessment,
+  };
+};
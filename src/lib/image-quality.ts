@@ -0,0 +1,143 @@
+import type { ImageQuality } from '@shared/schemas';
+
+export type QualityCheck = ImageQuality['issues'][number];
+
+export interface QualityProblem {
+  check: QualityCheck;
+  level: 'warn' | 'block';
+  // What the worker should do differently when retaking the photo
+  guidance: string;
+}
+
+export interface QualityAssessment {
+  quality: ImageQuality;
+  problems: QualityProblem[];
+}
+
+// Scores are computed on a small grayscale copy; the blur thresholds are calibrated for this size
+const ANALYSIS_MAX_EDGE = 512;
+
+export const QUALITY_THRESHOLDS = {
+  // Laplacian variance
+  blur: { warn: 100, block: 35 },
+  // Mean luminance 0-255
+  dark: { warn: 60, block: 30 },
+  bright: { warn: 200, block: 235 },
+  // Share of pixels that are nearly black or white
+  clipped: { warn: 0.25, block: 0.5 },
+  // Shorter side of the original photo in pixels
+  shortSide: { warn: 720, block: 400 },
+  // Longer side divided by shorter side
+  aspect: { warn: 2.2, block: 3.5 },
+};
+
+const grayscale = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number) => {
+  const scale = Math.min(1, ANALYSIS_MAX_EDGE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(3, Math.round(sourceWidth * scale));
+  const height = Math.max(3, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+// Variance of the 4-neighbour Laplacian: sharp edges give large responses, blur flattens them
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const level = (value: number, { warn, block }: { warn: number; block: number }, higherIsWorse: boolean) => {
+  if (higherIsWorse ? value >= block : value <= block) return 'block';
+  if (higherIsWorse ? value >= warn : value <= warn) return 'warn';
+  return null;
+};
+
+// Scores a photo that has already been oriented; original* are its dimensions before downscaling
+export const assessQuality = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  originalWidth: number,
+  originalHeight: number,
+): QualityAssessment => {
+  const { gray, width, height } = grayscale(source, sourceWidth, sourceHeight);
+
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  for (const value of gray) {
+    total += value;
+    if (value < 16) dark++;
+    if (value > 240) bright++;
+  }
+
+  const brightness = total / gray.length;
+  const darkFraction = dark / gray.length;
+  const brightFraction = bright / gray.length;
+  const blur = laplacianVariance(gray, width, height);
+  const shortSide = Math.min(originalWidth, originalHeight);
+  const aspectRatio = Math.max(originalWidth, originalHeight) / shortSide;
+
+  const problems: QualityProblem[] = [];
+  const add = (check: QualityCheck, problemLevel: 'warn' | 'block' | null, guidance: string) => {
+    if (problemLevel) problems.push({ check, level: problemLevel, guidance });
+  };
+
+  add('blur', level(blur, QUALITY_THRESHOLDS.blur, false),
+    'The photo is blurry. Hold the phone steady, tap on the animal to focus and wait for it to stand still.');
+
+  const tooDark = level(brightness, QUALITY_THRESHOLDS.dark, false) ??
+    level(darkFraction, QUALITY_THRESHOLDS.clipped, true);
+  const tooBright = level(brightness, QUALITY_THRESHOLDS.bright, true) ??
+    level(brightFraction, QUALITY_THRESHOLDS.clipped, true);
+  if (tooDark) {
+    add('exposure', tooDark, 'The photo is too dark. Move the animal out of the shed or shade into daylight.');
+  } else if (tooBright) {
+    add('exposure', tooBright, 'The photo is overexposed. Don\'t shoot into the sun; stand with the sun behind you.');
+  }
+
+  add('resolution', level(shortSide, QUALITY_THRESHOLDS.shortSide, false),
+    `The photo is only ${originalWidth}×${originalHeight}. Use the phone camera directly instead of a screenshot or forwarded image.`);
+
+  add('aspect', level(aspectRatio, QUALITY_THRESHOLDS.aspect, true),
+    'The photo looks cropped or panoramic. Step back so the whole animal fits in a normal photo.');
+
+  const overall = problems.some((p) => p.level === 'block') ? 'block' : problems.length > 0 ? 'warn' : 'ok';
+
+  return {
+    quality: {
+      level: overall,
+      issues: problems.map((p) => p.check),
+      blur: Math.round(blur * 10) / 10,
+      brightness: Math.round(brightness * 10) / 10,
+      dark_fraction: Math.round(darkFraction * 1000) / 1000,
+      bright_fraction: Math.round(brightFraction * 1000) / 1000,
+      width: originalWidth,
+      height: originalHeight,
+      aspect_ratio: Math.round(aspectRatio * 100) / 100,
+    },
+    problems,
+  };
+};
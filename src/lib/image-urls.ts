@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// thumb and medium are renditions generated by get-image-url; original is the uploaded file
+export type ImageSize = 'thumb' | 'medium' | 'original';
+
+interface CachedUrl {
+  url: string | null;
+  expiresAt: number;
+}
+
+interface Waiter {
+  resolve: (url: string | null) => void;
+  reject: (error: unknown) => void;
+}
+
+const MAX_BATCH = 100;
+// Signed URLs are reused until a minute before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const cache = new Map<string, CachedUrl>();
+const queues = new Map<ImageSize, Map<string, Waiter[]>>();
+
+const cacheKey = (url: string, size: ImageSize) => `${size}:${url}`;
+
+const flush = async (size: ImageSize) => {
+  const queue = queues.get(size)!;
+  queues.delete(size);
+  const urls = [...queue.keys()];
+
+  for (let i = 0; i < urls.length; i += MAX_BATCH) {
+    const batch = urls.slice(i, i + MAX_BATCH);
+    try {
+      const { data, error } = await supabase.functions.invoke('get-image-url', { body: { urls: batch, size } });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const expiresAt = Date.now() + data.expires_in * 1000;
+      for (const url of batch) {
+        const signed: string | null = data.urls[url] ?? null;
+        cache.set(cacheKey(url, size), { url: signed, expiresAt });
+        queue.get(url)!.forEach((waiter) => waiter.resolve(signed));
+      }
+    } catch (error) {
+      batch.forEach((url) => queue.get(url)!.forEach((waiter) => waiter.reject(error)));
+    }
+  }
+};
+
+// Resolves a stored image URL to a short-lived signed URL. Calls made in the same tick
+// (e.g. every card of a list rendering) are sent to get-image-url as one request.
+export const getImageUrl = (url: string, size: ImageSize = 'thumb'): Promise<string | null> => {
+  const cached = cache.get(cacheKey(url, size));
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return Promise.resolve(cached.url);
+  }
+
+  return new Promise((resolve, reject) => {
+    let queue = queues.get(size);
+    if (!queue) {
+      queue = new Map();
+      queues.set(size, queue);
+      setTimeout(() => flush(size), 0);
+    }
+    queue.set(url, [...(queue.get(url) ?? []), { resolve, reject }]);
+  });
+};
@@ -0,0 +1,14 @@
+export type ImageView = 'left_side' | 'right_side' | 'front_face' | 'rear_udder' | 'other';
+
+// Order matches the suggested capture sequence for field workers
+export const IMAGE_VIEW_LABELS: Record<ImageView, string> = {
+  left_side: 'Left Side',
+  right_side: 'Right Side',
+  front_face: 'Front Face',
+  rear_udder: 'Rear / Udder',
+  other: 'Other',
+};
+
+export const IMAGE_VIEWS = Object.keys(IMAGE_VIEW_LABELS) as ImageView[];
+
+export const MAX_IMAGES_PER_ANIMAL = 4;
@@ -0,0 +1,36 @@
+// Last successful responses kept in localStorage so list pages stay readable without a connection
+const PREFIX = 'krishimitr-cache:';
+
+interface CacheEntry<T> {
+  savedAt: string;
+  data: T;
+}
+
+export const writeCache = <T>(key: string, data: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify({ savedAt: new Date().toISOString(), data }));
+  } catch (error) {
+    // Quota exceeded or storage disabled; the page still works online
+    console.warn('Could not write offline cache:', error);
+  }
+};
+
+export const readCache = <T>(key: string): CacheEntry<T> | null => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Cached lists hold other people's details (farmers, owners), so nothing outlives a session
+export const clearCache = () => {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Could not clear offline cache:', error);
+  }
+};
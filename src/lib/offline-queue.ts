@@ -0,0 +1,83 @@
+import type { Capture } from '@/lib/capture';
+
+export type QueueStatus = 'pending' | 'syncing' | 'failed' | 'conflict' | 'rejected';
+
+export interface QueuedCapture extends Capture {
+  userId: string;
+  status: QueueStatus;
+  attempts: number;
+  // Unset once the server rejected the capture: it waits for the user to retry or discard it
+  nextAttemptAt?: number;
+  lastError?: string;
+  // Set once the worker chose to replace the existing record for this animal ID
+  overwrite?: boolean;
+}
+
+const DB_NAME = 'krishimitr-offline';
+const DB_VERSION = 1;
+const STORE = 'captures';
+
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at 30 minutes
+export const nextRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listQueuedCaptures = async (userId: string) => {
+  const items = await run<QueuedCapture[]>('readonly', (store) => store.index('userId').getAll(userId));
+  return items.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+};
+
+export const getQueuedCapture = (id: string) =>
+  run<QueuedCapture | undefined>('readonly', (store) => store.get(id));
+
+export const saveQueuedCapture = (item: QueuedCapture) =>
+  run('readwrite', (store) => store.put(item));
+
+export const deleteQueuedCapture = (id: string) =>
+  run('readwrite', (store) => store.delete(id));
+
+export const enqueueCapture = async (capture: Capture, userId: string) => {
+  const item: QueuedCapture = {
+    ...capture,
+    userId,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+  await saveQueuedCapture(item);
+  return item;
+};
@@ -0,0 +1,99 @@
+import type { InferenceSession } from 'onnxruntime-web/wasm';
+import { IMAGENET_MEAN, IMAGENET_STD, rankPredictions, softmax } from '@shared/breeds';
+import type { OnDevicePrediction } from '@shared/schemas';
+
+// Same settings as the ONNX_* secrets of the classify-breed "onnx" provider
+const MODEL_URL: string | undefined = import.meta.env.VITE_ONDEVICE_MODEL_URL;
+const MODEL_LABELS: string[] = (import.meta.env.VITE_ONDEVICE_MODEL_LABELS || '')
+  .split(',')
+  .map((label: string) => label.trim())
+  .filter(Boolean);
+const INPUT_SIZE = Number(import.meta.env.VITE_ONDEVICE_MODEL_INPUT_SIZE) || 224;
+const MODEL_VERSION: string = import.meta.env.VITE_ONDEVICE_MODEL_VERSION || MODEL_URL?.split('/').pop() || 'unknown';
+
+// onnxruntime-web fetches its WASM binaries from here; public/sw.js caches them together with the model
+const ORT_VERSION = '1.17.3';
+const ORT_WASM_PATH = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ORT_VERSION}/dist/`;
+
+const ENABLED_KEY = 'krishimitr-on-device-classifier';
+
+type OrtModule = typeof import('onnxruntime-web/wasm');
+
+export const isOnDeviceClassifierAvailable = () => !!MODEL_URL && MODEL_LABELS.length > 0;
+
+export const isOnDeviceClassifierEnabled = () =>
+  isOnDeviceClassifierAvailable() && localStorage.getItem(ENABLED_KEY) !== 'off';
+
+export const setOnDeviceClassifierEnabled = (enabled: boolean) =>
+  localStorage.setItem(ENABLED_KEY, enabled ? 'on' : 'off');
+
+let loading: Promise<{ ort: OrtModule; session: InferenceSession }> | null = null;
+
+// The runtime is only downloaded when the classifier is actually used
+const loadSession = () => {
+  if (!loading) {
+    loading = import('onnxruntime-web/wasm')
+      .then(async (ort) => {
+        ort.env.wasm.numThreads = 1;
+        ort.env.wasm.wasmPaths = ORT_WASM_PATH;
+        const session = await ort.InferenceSession.create(MODEL_URL!, { executionProviders: ['wasm'] });
+        return { ort, session };
+      })
+      .catch((error) => {
+        loading = null;
+        throw error;
+      });
+  }
+  return loading;
+};
+
+// Fetches the runtime and model while online so they are in the service worker cache for the field
+export const warmUpOnDeviceClassifier = () => {
+  if (!isOnDeviceClassifierEnabled()) return;
+  loadSession().catch((error) => console.warn('On-device classifier unavailable:', error));
+};
+
+// Same preprocessing as the server: stretch to a square, ImageNet-normalised CHW floats
+const toInputData = async (image: Blob) => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = INPUT_SIZE;
+  canvas.height = INPUT_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, INPUT_SIZE, INPUT_SIZE);
+  bitmap.close();
+
+  const { data: rgba } = ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE);
+  const pixels = INPUT_SIZE * INPUT_SIZE;
+  const data = new Float32Array(3 * pixels);
+  for (let i = 0; i < pixels; i++) {
+    data[i] = (rgba[i * 4] / 255 - IMAGENET_MEAN[0]) / IMAGENET_STD[0];
+    data[pixels + i] = (rgba[i * 4 + 1] / 255 - IMAGENET_MEAN[1]) / IMAGENET_STD[1];
+    data[2 * pixels + i] = (rgba[i * 4 + 2] / 255 - IMAGENET_MEAN[2]) / IMAGENET_STD[2];
+  }
+  return data;
+};
+
+// Provisional breed for the captured views. Probabilities of the views are averaged;
+// the server also weights them by view, so the two can differ slightly for multi-view captures.
+export const classifyOnDevice = async (images: Blob[]): Promise<OnDevicePrediction> => {
+  const start = performance.now();
+  const { ort, session } = await loadSession();
+
+  const sums = new Array<number>(MODEL_LABELS.length).fill(0);
+  for (const image of images) {
+    const input = new ort.Tensor('float32', await toInputData(image), [1, 3, INPUT_SIZE, INPUT_SIZE]);
+    const output = await session.run({ [session.inputNames[0]]: input });
+    const probabilities = softmax(output[session.outputNames[0]].data as Float32Array);
+    MODEL_LABELS.forEach((_, i) => {
+      sums[i] += probabilities[i] ?? 0;
+    });
+  }
+
+  return {
+    predictions: rankPredictions(MODEL_LABELS.map((label, i) => ({ label, score: sums[i] / images.length }))),
+    model_version: `onnx-web:${MODEL_VERSION}`,
+    processing_time_ms: Math.round(performance.now() - start),
+    created_at: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,26 @@
+import type { PredictionOutcome } from '@shared/breeds';
+
+export type { PredictionOutcome };
+
+// Every outcome but 'confident' leaves the predicted breed empty until a reviewer settles it
+export const PREDICTION_OUTCOME_LABELS: Record<PredictionOutcome, string> = {
+  confident: 'Confident',
+  needs_review: 'Uncertain',
+  unknown_breed: 'Unknown Breed',
+  not_bovine: 'Not Cattle/Buffalo',
+};
+
+// Shown on record cards instead of a breed name
+export const PREDICTION_OUTCOME_DESCRIPTIONS: Record<PredictionOutcome, string> = {
+  confident: '',
+  needs_review: 'Uncertain — needs expert review',
+  unknown_breed: 'No catalog breed matches — needs expert review',
+  not_bovine: 'No cattle or buffalo found in the photos',
+};
+
+export const PREDICTION_OUTCOME_BADGE_CLASSES: Record<PredictionOutcome, string> = {
+  confident: '',
+  needs_review: 'border-orange-300 text-orange-700',
+  unknown_breed: 'border-purple-300 text-purple-700',
+  not_bovine: 'border-slate-400 text-slate-700',
+};
@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { BarChart3, CheckCircle, Target } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readFunctionError } from '@/lib/function-errors';
+import type { AccuracyReport } from '@shared/evaluation';
+
+const ALL = 'all';
+
+const recallChartConfig = {
+  precision: { label: 'Precision', color: 'hsl(var(--primary))' },
+  recall: { label: 'Recall', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const formatBreedName = (breed: string) => {
+  if (!breed) return 'No prediction';
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const Analytics = () => {
+  const [report, setReport] = useState<AccuracyReport | null>(null);
+  const [modelVersions, setModelVersions] = useState<string[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [modelVersion, setModelVersion] = useState(ALL);
+  const [animalType, setAnimalType] = useState(ALL);
+  const [district, setDistrict] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const { user, role } = useAuth();
+  const { toast } = useToast();
+
+  const fetchReport = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data: response, error } = await supabase.functions
+        .invoke('get-model-accuracy', {
+          body: {
+            model_version: modelVersion === ALL ? undefined : modelVersion,
+            animal_type: animalType === ALL ? undefined : animalType,
+            district: district.trim() || undefined,
+            date_from: dateFrom || undefined,
+            date_to: dateTo || undefined,
+          },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      setReport(response.report);
+      setModelVersions(response.model_versions || []);
+      setTruncated(response.truncated);
+    } catch (error) {
+      console.error('Error fetching model accuracy:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load model accuracy",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // District is typed, so it applies when the field loses focus rather than on every key
+  useEffect(() => {
+    fetchReport();
+  }, [user, modelVersion, animalType, dateFrom, dateTo]);
+
+  const perBreed = (report?.per_breed ?? [])
+    .filter((b) => b.support > 0)
+    .map((b) => ({ ...b, name: formatBreedName(b.breed), precision: b.precision ?? 0, recall: b.recall ?? 0 }));
+
+  // Shade cells relative to the largest one
+  const maxCell = report ? Math.max(1, ...report.matrix.flat()) : 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Model Accuracy</h1>
+        <p className="text-muted-foreground">
+          How the classifier's predictions compare with supervisor-verified breeds
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <Label>Model Version</Label>
+              <Select value={modelVersion} onValueChange={setModelVersion}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All versions</SelectItem>
+                  {modelVersions.map((version) => (
+                    <SelectItem key={version} value={version}>{version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Animal Type</Label>
+              <Select value={animalType} onValueChange={setAnimalType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  <SelectItem value="cattle">Cattle</SelectItem>
+                  <SelectItem value="buffalo">Buffalo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="district">District</Label>
+              <Input
+                id="district"
+                value={role === 'district_admin' ? district : ''}
+                onChange={(e) => setDistrict(e.target.value)}
+                onBlur={fetchReport}
+                placeholder={role === 'district_admin' ? 'All districts' : 'Your district'}
+                disabled={role !== 'district_admin'}
+              />
+            </div>
+            <div>
+              <Label htmlFor="dateFrom">From</Label>
+              <Input id="dateFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="dateTo">To</Label>
+              <Input id="dateTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && !report ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      ) : !report || report.samples === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No verified records match these filters
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Verified Records</CardTitle>
+                <CheckCircle className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{report.samples}</div>
+                <p className="text-xs text-muted-foreground">
+                  {truncated ? 'Most recent records only' : 'Supervisor-confirmed breeds'}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Top-1 Accuracy</CardTitle>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(report.top1_accuracy)}</div>
+                <p className="text-xs text-muted-foreground">{report.top1_correct} correct first guesses</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Top-3 Accuracy</CardTitle>
+                <BarChart3 className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(report.top3_accuracy)}</div>
+                <p className="text-xs text-muted-foreground">{report.top3_correct} with the breed in the top 3</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per-breed precision / recall */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Precision and Recall by Breed</CardTitle>
+              <CardDescription>Breeds with verified records, most common first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={recallChartConfig} className="h-80 w-full aspect-auto">
+                <BarChart data={perBreed} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} angle={-35} textAnchor="end" height={70} />
+                  <YAxis domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent formatter={(value, name) => `${recallChartConfig[name as keyof typeof recallChartConfig]?.label ?? name}: ${formatPercent(Number(value))}`} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="precision" fill="var(--color-precision)" radius={4} />
+                  <Bar dataKey="recall" fill="var(--color-recall)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Breed</TableHead>
+                    <TableHead className="text-right">Verified</TableHead>
+                    <TableHead className="text-right">Predicted</TableHead>
+                    <TableHead className="text-right">Precision</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                    <TableHead className="text-right">F1</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.per_breed.map((b) => (
+                    <TableRow key={b.breed}>
+                      <TableCell className="font-medium">{formatBreedName(b.breed)}</TableCell>
+                      <TableCell className="text-right">{b.support}</TableCell>
+                      <TableCell className="text-right">{b.predicted}</TableCell>
+                      <TableCell className="text-right">{formatPercent(b.precision)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(b.recall)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(b.f1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Confusion matrix */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Confusion Matrix</CardTitle>
+              <CardDescription>Rows are verified breeds, columns what the model predicted first</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="p-1 text-left text-muted-foreground font-normal">Verified ↓ / Predicted →</th>
+                    {report.labels.map((label) => (
+                      <th key={label} className="p-1 font-medium align-bottom">
+                        <div className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{formatBreedName(label)}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.labels.map((actual, i) => {
+                    // Breeds only ever predicted have an empty row
+                    if (report.matrix[i].every((n) => n === 0)) return null;
+                    return (
+                      <tr key={actual}>
+                        <th className="p-1 pr-2 text-left font-medium whitespace-nowrap">{formatBreedName(actual)}</th>
+                        {report.matrix[i].map((count, j) => (
+                          <td
+                            key={j}
+                            title={`${formatBreedName(actual)} predicted as ${formatBreedName(report.labels[j])}: ${count}`}
+                            className="h-8 w-8 min-w-8 text-center border border-border"
+                            style={count ? {
+                              backgroundColor: i === j
+                                ? `hsl(var(--primary) / ${0.15 + 0.85 * (count / maxCell)})`
+                                : `hsl(var(--destructive) / ${0.15 + 0.85 * (count / maxCell)})`,
+                            } : undefined}
+                          >
+                            {count || ''}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
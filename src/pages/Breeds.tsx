@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { Search, Globe, MapPin, CircleDot } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { readCache, writeCache } from '@/lib/offline-cache';
 
 interface Breed {
   id: string;
@@ -35,6 +36,8 @@ const Breeds = () => {
   const { toast } = useToast();
 
   const fetchBreeds = async () => {
+    const cacheKey = `breeds:${animalTypeFilter}`;
+
     try {
       setLoading(true);
 
@@ -53,9 +56,18 @@ const Breeds = () => {
       }
 
       setBreeds(response.breeds || []);
+      writeCache(cacheKey, response.breeds || []);
 
     } catch (error: any) {
       console.error('Error fetching breeds:', error);
+
+      // Breed reference data changes rarely, so a saved copy is good enough offline
+      const cached = readCache<Breed[]>(cacheKey);
+      if (cached) {
+        setBreeds(cached.data);
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to load breed information",
@@ -0,0 +1,397 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Download, FileArchive, Loader2, Play, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { newCaptureId } from '@/lib/capture';
+import { downloadFile } from '@/lib/download';
+import {
+  ImportJob,
+  ImportJobRow,
+  ImportJobStatus,
+  errorReport,
+  manifestTemplate,
+  readImportArchive,
+  uploadImportImages,
+} from '@/lib/bulk-import';
+
+type Phase = 'idle' | 'reading' | 'uploading' | 'classifying';
+
+const statusStyles: Record<ImportJobStatus, string> = {
+  processing: 'bg-blue-100 text-blue-800 border-blue-200',
+  completed: 'bg-green-100 text-green-800 border-green-200',
+  completed_with_errors: 'bg-orange-100 text-orange-800 border-orange-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const BulkImport = () => {
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  // Remounts the file inputs so they clear after an import starts
+  const [inputKey, setInputKey] = useState(0);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [selectedJob, setSelectedJob] = useState<ImportJob | null>(null);
+  const [jobRows, setJobRows] = useState<ImportJobRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Lets the classification loop stop when the user leaves the page; the job resumes later
+  const activeRef = useRef(true);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchJobs = async () => {
+    if (!user) return;
+
+    try {
+      const { data: response, error } = await supabase.functions
+        .invoke('get-import-jobs', {
+          body: { limit: 20 },
+        });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      setJobs(response.jobs || []);
+    } catch (error) {
+      console.error('Error fetching import jobs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load import jobs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchJobRows = async (job: ImportJob) => {
+    const { data: response, error } = await supabase.functions
+      .invoke('get-import-jobs', {
+        body: { job_id: job.id },
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return response.rows as ImportJobRow[];
+  };
+
+  useEffect(() => {
+    activeRef.current = true;
+    fetchJobs();
+    return () => {
+      activeRef.current = false;
+    };
+  }, [user]);
+
+  const showJob = async (job: ImportJob) => {
+    setSelectedJob(job);
+    try {
+      setJobRows(await fetchJobRows(job));
+    } catch (error) {
+      console.error('Error fetching import rows:', error);
+    }
+  };
+
+  const runJob = async (job: ImportJob) => {
+    setPhase('classifying');
+    setProgress({ done: job.succeeded_rows + job.failed_rows, total: job.total_rows });
+
+    let current = job;
+    try {
+      while (activeRef.current && current.status === 'processing') {
+        const { data: response, error } = await supabase.functions
+          .invoke('process-import-job', {
+            body: { job_id: current.id },
+          });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        current = response.job;
+        setProgress({ done: current.succeeded_rows + current.failed_rows, total: current.total_rows });
+        setJobs((existing) => [current, ...existing.filter((j) => j.id !== current.id)]);
+      }
+
+      if (current.status !== 'processing') {
+        toast({
+          title: "Import Finished",
+          description: `${current.succeeded_rows} of ${current.total_rows} animals imported${current.failed_rows ? `, ${current.failed_rows} failed` : ''}`,
+          variant: current.failed_rows ? "destructive" : "default",
+        });
+        await showJob(current);
+      }
+    } catch (error) {
+      console.error('Error processing import job:', error);
+      toast({
+        title: "Import Paused",
+        description: "Classification stopped. Use Resume to continue where it left off.",
+        variant: "destructive",
+      });
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!user || !zipFile) return;
+
+    try {
+      setPhase('reading');
+      const archive = await readImportArchive(zipFile, manifestFile);
+
+      setPhase('uploading');
+      setProgress({ done: 0, total: archive.rows.length });
+      const rows = await uploadImportImages(archive, user.id, newCaptureId(), (done, total) =>
+        setProgress({ done, total })
+      );
+
+      const { data: response, error } = await supabase.functions
+        .invoke('create-import-job', {
+          body: {
+            file_name: manifestFile ? `${zipFile.name} + ${archive.manifestName}` : zipFile.name,
+            rows,
+          },
+        });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      setZipFile(null);
+      setManifestFile(null);
+      setInputKey((key) => key + 1);
+      setJobs((existing) => [response.job, ...existing]);
+      await runJob(response.job);
+
+    } catch (error) {
+      console.error('Error starting import:', error);
+      setPhase('idle');
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadReport = async (job: ImportJob) => {
+    try {
+      const rows = selectedJob?.id === job.id && jobRows.length ? jobRows : await fetchJobRows(job);
+      downloadFile(errorReport(rows), `import-errors-${job.id.slice(0, 8)}.csv`, 'text/csv');
+    } catch (error) {
+      console.error('Error downloading report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download the error report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const busy = phase !== 'idle';
+  const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Bulk Import</h1>
+        <p className="text-muted-foreground">
+          Import historical photos from a registration drive and classify them in one go
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileArchive className="h-5 w-5" />
+            New Import
+          </CardTitle>
+          <CardDescription>
+            Upload a ZIP of photos with a CSV manifest (animal_id, animal_type, owner, village, optional
+            known_breed and image). Rows without an image column are matched to a photo named after the animal ID.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="zipFile">Photos (ZIP)</Label>
+              <Input
+                key={`zip-${inputKey}`}
+                id="zipFile"
+                type="file"
+                accept=".zip,application/zip"
+                disabled={busy}
+                onChange={(e) => setZipFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="manifestFile">Manifest (CSV, optional if inside the ZIP)</Label>
+              <Input
+                key={`manifest-${inputKey}`}
+                id="manifestFile"
+                type="file"
+                accept=".csv,text/csv"
+                disabled={busy}
+                onChange={(e) => setManifestFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+
+          {busy && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {phase === 'reading' && 'Reading archive...'}
+                  {phase === 'uploading' && `Uploading photos ${progress.done}/${progress.total}`}
+                  {phase === 'classifying' && `Classifying ${progress.done}/${progress.total}`}
+                </span>
+                <span>{percent}%</span>
+              </div>
+              <Progress value={percent} />
+              {phase === 'classifying' && (
+                <p className="text-xs text-muted-foreground">
+                  You can leave this page; the import can be resumed from the list below.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleStartImport} disabled={!zipFile || busy}>
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Start Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadFile(manifestTemplate(), 'manifest-template.csv', 'text/csv')}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Manifest Template
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Jobs</CardTitle>
+          <CardDescription>Your recent imports and their per-row results</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No imports yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Imported</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow
+                    key={job.id}
+                    className={`cursor-pointer ${selectedJob?.id === job.id ? 'bg-muted/50' : ''}`}
+                    onClick={() => showJob(job)}
+                  >
+                    <TableCell>{new Date(job.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-[200px] truncate">{job.file_name}</TableCell>
+                    <TableCell>
+                      <Badge className={statusStyles[job.status]}>{job.status.replace(/_/g, ' ')}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{job.succeeded_rows}/{job.total_rows}</TableCell>
+                    <TableCell className="text-right">{job.failed_rows}</TableCell>
+                    <TableCell className="text-right space-x-2" onClick={(e) => e.stopPropagation()}>
+                      {job.status === 'processing' && (
+                        <Button size="sm" variant="outline" disabled={busy} onClick={() => runJob(job)}>
+                          <Play className="h-3 w-3 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                      {job.failed_rows > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => handleDownloadReport(job)}>
+                          <Download className="h-3 w-3 mr-1" />
+                          Error Report
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedJob && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rows — {selectedJob.file_name}</CardTitle>
+            <CardDescription>
+              {selectedJob.succeeded_rows} imported, {selectedJob.failed_rows} failed of {selectedJob.total_rows}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Animal ID</TableHead>
+                    <TableHead>Image</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobRows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell>{row.row_number}</TableCell>
+                      <TableCell>{row.animal_id}</TableCell>
+                      <TableCell className="max-w-[160px] truncate">{row.image_file}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.status === 'failed' ? 'destructive' : row.status === 'completed' ? 'default' : 'secondary'}>
+                          {row.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{row.error}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BulkImport;
@@ -2,17 +2,27 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import ImageUpload from '@/components/ImageUpload';
+import SyncQueue from '@/components/SyncQueue';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Camera, Database, TrendingUp, Clock, Eye } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import StorageImage from '@/components/StorageImage';
+import OutcomeBadge from '@/components/OutcomeBadge';
+import { PREDICTION_OUTCOME_LABELS, PredictionOutcome } from '@/lib/prediction-outcomes';
 
 interface AnimalRecord {
   id: string;
   animal_id: string;
-  predicted_breed: string;
+  predicted_breed: string | null;
+  final_breed?: string | null;
   confidence_score: number;
+  prediction_outcome?: PredictionOutcome;
   verification_status: string;
   animal_type: string;
   created_at: string;
@@ -20,22 +30,42 @@ interface AnimalRecord {
 }
 
 interface DashboardStats {
-  totalRecords: number;
-  pendingVerification: number;
-  averageConfidence: number;
-  recentClassifications: number;
+  total: number;
+  recent_24h: number;
+  average_confidence: number | null;
+  by_status: Record<string, number>;
+  by_animal_type: Record<string, number>;
+  by_outcome: Partial<Record<PredictionOutcome, number>>;
+  by_breed: Array<{ breed: string; count: number }>;
+  daily: Array<{ date: string; count: number }>;
 }
 
+const emptyStats: DashboardStats = {
+  total: 0,
+  recent_24h: 0,
+  average_confidence: null,
+  by_status: {},
+  by_animal_type: {},
+  by_outcome: {},
+  by_breed: [],
+  daily: [],
+};
+
+const trendChartConfig = {
+  count: { label: 'Classifications', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const breedChartConfig = {
+  count: { label: 'Animals', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
 const Dashboard = () => {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalRecords: 0,
-    pendingVerification: 0,
-    averageConfidence: 0,
-    recentClassifications: 0,
-  });
+  const [stats, setStats] = useState<DashboardStats>(emptyStats);
+  const [windowDays, setWindowDays] = useState('30');
   const [recentRecords, setRecentRecords] = useState<AnimalRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { lastSyncedAt } = useOfflineQueue();
   const { toast } = useToast();
 
   const fetchDashboardData = async () => {
@@ -44,45 +74,29 @@ const Dashboard = () => {
     try {
       setLoading(true);
 
-      // Fetch recent records
-      const { data: records, error: recordsError } = await supabase.functions
-        .invoke('get-animal-records', {
+      // Fetch recent records and server-side aggregates in parallel
+      const [recordsResult, statsResult] = await Promise.all([
+        supabase.functions.invoke('get-animal-records', {
           body: {
             limit: 5,
             offset: 0,
           },
-        });
+        }),
+        supabase.functions.invoke('get-dashboard-stats', {
+          body: { days: Number(windowDays) },
+        }),
+      ]);
 
-      if (recordsError) {
-        throw new Error(recordsError.message);
+      if (recordsResult.error) {
+        throw new Error(recordsResult.error.message);
       }
 
-      const animalRecords = records.records || [];
-      setRecentRecords(animalRecords);
-
-      // Calculate stats
-      const totalRecords = records.pagination?.total || 0;
-      const pendingVerification = animalRecords.filter(
-        (record: AnimalRecord) => record.verification_status === 'pending'
-      ).length;
-
-      const averageConfidence = animalRecords.length > 0
-        ? animalRecords.reduce((sum: number, record: AnimalRecord) => 
-            sum + (record.confidence_score || 0), 0) / animalRecords.length
-        : 0;
-
-      // Recent classifications (last 24 hours)
-      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-      const recentClassifications = animalRecords.filter(
-        (record: AnimalRecord) => new Date(record.created_at) > oneDayAgo
-      ).length;
+      if (statsResult.error) {
+        throw new Error(statsResult.error.message);
+      }
 
-      setStats({
-        totalRecords,
-        pendingVerification,
-        averageConfidence: averageConfidence * 100,
-        recentClassifications,
-      });
+      setRecentRecords(recordsResult.data.records || []);
+      setStats({ ...emptyStats, ...statsResult.data.stats });
 
     } catch (error: any) {
       console.error('Error fetching dashboard data:', error);
@@ -98,7 +112,7 @@ const Dashboard = () => {
 
   useEffect(() => {
     fetchDashboardData();
-  }, [user]);
+  }, [user, windowDays, lastSyncedAt]);
 
   const handleClassificationComplete = (result: any) => {
     // Refresh dashboard data
@@ -116,12 +130,20 @@ const Dashboard = () => {
     }
   };
 
-  const formatBreedName = (breed: string) => {
+  const formatBreedName = (breed?: string | null) => {
+    if (!breed) return 'Unknown';
     return breed.split('_').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' ');
   };
 
+  const pendingVerification = stats.by_status.pending || 0;
+  const averageConfidence = (stats.average_confidence || 0) * 100;
+  const breedlessOutcomes = (['needs_review', 'unknown_breed', 'not_bovine'] as const)
+    .filter((outcome) => (stats.by_outcome[outcome] || 0) > 0);
+  const formatDay = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -148,7 +170,7 @@ const Dashboard = () => {
             <Database className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalRecords}</div>
+            <div className="text-2xl font-bold">{stats.total}</div>
             <p className="text-xs text-muted-foreground">
               All time classifications
             </p>
@@ -161,7 +183,7 @@ const Dashboard = () => {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.pendingVerification}</div>
+            <div className="text-2xl font-bold">{pendingVerification}</div>
             <p className="text-xs text-muted-foreground">
               Awaiting verification
             </p>
@@ -174,9 +196,9 @@ const Dashboard = () => {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.averageConfidence.toFixed(1)}%</div>
+            <div className="text-2xl font-bold">{averageConfidence.toFixed(1)}%</div>
             <p className="text-xs text-muted-foreground">
-              Classification accuracy
+              Mean model confidence
             </p>
           </CardContent>
         </Card>
@@ -187,7 +209,7 @@ const Dashboard = () => {
             <Camera className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.recentClassifications}</div>
+            <div className="text-2xl font-bold">{stats.recent_24h}</div>
             <p className="text-xs text-muted-foreground">
               New classifications
             </p>
@@ -195,12 +217,92 @@ const Dashboard = () => {
         </Card>
       </div>
 
+      {/* Trends */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Trends</h2>
+          <Select value={windowDays} onValueChange={setWindowDays}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Daily Classifications</CardTitle>
+              <CardDescription>
+                {stats.daily.reduce((sum, day) => sum + day.count, 0)} in the last {windowDays} days
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trendChartConfig} className="h-64 w-full aspect-auto">
+                <AreaChart data={stats.daily} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <Area
+                    dataKey="count"
+                    type="monotone"
+                    stroke="var(--color-count)"
+                    fill="var(--color-count)"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Breed Distribution</CardTitle>
+              <CardDescription>
+                {Object.entries(stats.by_animal_type)
+                  .map(([type, count]) => `${count} ${type}`)
+                  .join(' • ') || 'No animals recorded yet'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={breedChartConfig} className="h-64 w-full aspect-auto">
+                <BarChart
+                  data={stats.by_breed.slice(0, 8).map((item) => ({ ...item, name: formatBreedName(item.breed) }))}
+                  layout="vertical"
+                  margin={{ left: 8, right: 8 }}
+                >
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+              {/* Records the model gave no breed for stay out of the chart until a reviewer sets one */}
+              {breedlessOutcomes.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Without a model breed: {breedlessOutcomes
+                    .map((outcome) => `${stats.by_outcome[outcome]} ${PREDICTION_OUTCOME_LABELS[outcome].toLowerCase()}`)
+                    .join(' • ')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
       {/* Main Content */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Upload Section */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold">New Classification</h2>
           <ImageUpload onClassificationComplete={handleClassificationComplete} />
+          <SyncQueue />
         </div>
 
         {/* Recent Records */}
@@ -230,7 +332,7 @@ const Dashboard = () => {
                   <CardContent className="p-4">
                     <div className="flex items-center space-x-4">
                       {record.image_url && (
-                        <img
+                        <StorageImage
                           src={record.image_url}
                           alt="Animal"
                           className="w-16 h-16 rounded-lg object-cover"
@@ -239,11 +341,14 @@ const Dashboard = () => {
                       <div className="flex-1">
                         <div className="flex items-center justify-between">
                           <h4 className="font-medium">
-                            {formatBreedName(record.predicted_breed)}
+                            {formatBreedName(record.final_breed || record.predicted_breed)}
                           </h4>
-                          <Badge className={getStatusColor(record.verification_status)}>
-                            {record.verification_status}
-                          </Badge>
+                          <div className="flex gap-1">
+                            <OutcomeBadge outcome={record.prediction_outcome} settled={!!record.final_breed} />
+                            <Badge className={getStatusColor(record.verification_status)}>
+                              {record.verification_status}
+                            </Badge>
+                          </div>
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {record.animal_type} • {(record.confidence_score * 100).toFixed(1)}% confidence
@@ -0,0 +1,397 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Camera, Download, Layers, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readFunctionError } from '@/lib/function-errors';
+import { downloadFile } from '@/lib/download';
+import { buildDatasetArchive, DATASET_SPLITS, DatasetItem, DatasetSnapshot, DatasetSplit } from '@/lib/dataset-export';
+
+const ALL = 'all';
+
+const formatBreedName = (breed: string) => {
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+const formatSplit = (ratios: Record<DatasetSplit, number>) =>
+  DATASET_SPLITS.map((split) => Math.round(ratios[split] * 100)).join('/');
+
+const Datasets = () => {
+  const [snapshots, setSnapshots] = useState<DatasetSnapshot[]>([]);
+  const [selected, setSelected] = useState<DatasetSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [form, setForm] = useState({
+    name: '',
+    animal_type: ALL,
+    district: '',
+    date_from: '',
+    date_to: '',
+    train: '80',
+    val: '10',
+    test: '10',
+    seed: '',
+  });
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchSnapshots = async () => {
+    if (!user) return;
+
+    try {
+      const { data: response, error } = await supabase.functions
+        .invoke('get-dataset-snapshots', {
+          body: { limit: 50 },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      setSnapshots(response.snapshots || []);
+    } catch (error) {
+      console.error('Error fetching dataset snapshots:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load dataset snapshots",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [user]);
+
+  const handleCreate = async () => {
+    const split = {
+      train: Number(form.train) / 100,
+      val: Number(form.val) / 100,
+      test: Number(form.test) / 100,
+    };
+    if (Object.values(split).some((value) => Number.isNaN(value)) || Math.round((split.train + split.val + split.test) * 100) !== 100) {
+      toast({
+        title: "Invalid Split",
+        description: "Train, validation and test must add up to 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data: response, error } = await supabase.functions
+        .invoke('create-dataset-snapshot', {
+          body: {
+            name: form.name.trim() || undefined,
+            animal_type: form.animal_type === ALL ? undefined : form.animal_type,
+            district: form.district.trim() || undefined,
+            date_from: form.date_from || undefined,
+            date_to: form.date_to || undefined,
+            seed: form.seed.trim() || undefined,
+            split,
+          },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      const snapshot: DatasetSnapshot = response.snapshot;
+      setSnapshots((existing) => [snapshot, ...existing]);
+      setSelected(snapshot);
+      toast({
+        title: "Snapshot Created",
+        description: `${snapshot.record_count} verified animals, ${snapshot.image_count} images${response.truncated ? ' (limit reached, narrow the filters for the rest)' : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Snapshot Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDownload = async (snapshot: DatasetSnapshot) => {
+    setDownloading(snapshot.id);
+    setProgress({ done: 0, total: snapshot.image_count });
+    try {
+      const { data: response, error } = await supabase.functions
+        .invoke('get-dataset-snapshots', {
+          body: { snapshot_id: snapshot.id },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      const { archive, missing } = await buildDatasetArchive(
+        response.snapshot,
+        response.items as DatasetItem[],
+        (done, total) => setProgress({ done, total }),
+      );
+      downloadFile(archive, `dataset-${snapshot.id}.zip`, 'application/zip');
+
+      toast({
+        title: "Dataset Downloaded",
+        description: missing
+          ? `${missing} image(s) could not be downloaded; see missing.csv in the archive`
+          : `Snapshot ${snapshot.id.slice(0, 8)} with ${snapshot.image_count} images`,
+        variant: missing ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error building dataset archive:', error);
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Training Data</h1>
+        <p className="text-muted-foreground">
+          Versioned snapshots of verified photos and their confirmed breeds for model training
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            New Snapshot
+          </CardTitle>
+          <CardDescription>
+            Verified records in your state, split per breed so train, validation and test have the same breed mix.
+            Reuse a seed to reproduce a split.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="snapshotName">Name</Label>
+              <Input
+                id="snapshotName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="verified-2026-10"
+              />
+            </div>
+            <div>
+              <Label>Animal Type</Label>
+              <Select value={form.animal_type} onValueChange={(animal_type) => setForm({ ...form, animal_type })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  <SelectItem value="cattle">Cattle</SelectItem>
+                  <SelectItem value="buffalo">Buffalo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="snapshotDistrict">District</Label>
+              <Input
+                id="snapshotDistrict"
+                value={form.district}
+                onChange={(e) => setForm({ ...form, district: e.target.value })}
+                placeholder="All districts"
+              />
+            </div>
+            <div>
+              <Label htmlFor="snapshotFrom">Captured From</Label>
+              <Input id="snapshotFrom" type="date" value={form.date_from} onChange={(e) => setForm({ ...form, date_from: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="snapshotTo">Captured To</Label>
+              <Input id="snapshotTo" type="date" value={form.date_to} onChange={(e) => setForm({ ...form, date_to: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="snapshotSeed">Seed</Label>
+              <Input
+                id="snapshotSeed"
+                value={form.seed}
+                onChange={(e) => setForm({ ...form, seed: e.target.value })}
+                placeholder="Random"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4 max-w-md">
+            {DATASET_SPLITS.map((split) => (
+              <div key={split}>
+                <Label htmlFor={`split-${split}`}>{split === 'val' ? 'Validation' : split.charAt(0).toUpperCase() + split.slice(1)} %</Label>
+                <Input
+                  id={`split-${split}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form[split]}
+                  onChange={(e) => setForm({ ...form, [split]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleCreate} disabled={creating}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+            Create Snapshot
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Snapshots</CardTitle>
+          <CardDescription>
+            Download as ImageFolder (split/breed/image) with a JSONL manifest and COCO annotations. Record the
+            snapshot ID on the model trained from it on the Models page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {downloading && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Downloading images {progress.done}/{progress.total}</span>
+                <span>{percent}%</span>
+              </div>
+              <Progress value={percent} />
+            </div>
+          )}
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No snapshots yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Snapshot</TableHead>
+                  <TableHead className="text-right">Animals</TableHead>
+                  <TableHead className="text-right">Images</TableHead>
+                  <TableHead>Split</TableHead>
+                  <TableHead>Models</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map((snapshot) => (
+                  <TableRow
+                    key={snapshot.id}
+                    className={`cursor-pointer ${selected?.id === snapshot.id ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelected(snapshot)}
+                  >
+                    <TableCell>{new Date(snapshot.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{snapshot.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{snapshot.id}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{snapshot.record_count}</TableCell>
+                    <TableCell className="text-right">{snapshot.image_count}</TableCell>
+                    <TableCell>{formatSplit(snapshot.split_ratios)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(snapshot.models || []).map((model) => (
+                          <Badge key={model.id} variant="outline">{model.name}@{model.version}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!!downloading}
+                        onClick={() => handleDownload(snapshot)}
+                      >
+                        {downloading === snapshot.id
+                          ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          : <Download className="h-3 w-3 mr-1" />}
+                        Download
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Breeds — {selected.name}</CardTitle>
+            <CardDescription>
+              Animals per split. Seed {selected.seed}
+              {Object.keys(selected.filters).length > 0 && ` • ${Object.entries(selected.filters).map(([key, value]) => `${key}: ${value}`).join(', ')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Breed</TableHead>
+                    {DATASET_SPLITS.map((split) => (
+                      <TableHead key={split} className="text-right">{split}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(selected.breed_counts)
+                    .map(([breed, counts]) => ({ breed, counts, total: DATASET_SPLITS.reduce((sum, split) => sum + counts[split], 0) }))
+                    .sort((a, b) => b.total - a.total)
+                    .map(({ breed, counts, total }) => (
+                      <TableRow key={breed}>
+                        <TableCell className="font-medium">{formatBreedName(breed)}</TableCell>
+                        {DATASET_SPLITS.map((split) => (
+                          <TableCell key={split} className="text-right">{counts[split]}</TableCell>
+                        ))}
+                        <TableCell className="text-right">{total}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Datasets;
@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Copy, CopyCheck, Ban, User } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readFunctionError } from '@/lib/function-errors';
+import StorageImage from '@/components/StorageImage';
+
+type FlagStatus = 'open' | 'confirmed' | 'dismissed';
+type Decision = 'confirmed' | 'dismissed';
+
+interface FlaggedRecord {
+  id: string;
+  animal_id: string;
+  animal_type: string;
+  predicted_breed: string | null;
+  final_breed: string | null;
+  verification_status: string;
+  created_at: string;
+}
+
+interface Worker {
+  full_name?: string;
+  employee_id?: string;
+}
+
+interface DuplicateFlag {
+  id: string;
+  image_url: string;
+  matched_image_url: string;
+  distance: number;
+  same_worker: boolean;
+  status: FlagStatus;
+  review_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  record: FlaggedRecord;
+  matched: FlaggedRecord | null;
+  worker: Worker | null;
+  matched_worker: Worker | null;
+}
+
+const formatBreedName = (breed?: string | null) => {
+  if (!breed) return 'Unknown';
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+const workerName = (worker: Worker | null) =>
+  worker ? `${worker.full_name || 'Unknown worker'}${worker.employee_id ? ` (${worker.employee_id})` : ''}` : 'Worker outside your area';
+
+const Duplicates = () => {
+  const [flags, setFlags] = useState<DuplicateFlag[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<FlagStatus>('open');
+  const [selectedFlag, setSelectedFlag] = useState<DuplicateFlag | null>(null);
+  const [decision, setDecision] = useState<Decision>('confirmed');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchReport = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data: response, error } = await supabase.functions
+        .invoke('get-duplicate-report', {
+          body: { limit: 50, status: statusFilter },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      setFlags(response.flags || []);
+      setTotal(response.pagination?.total || 0);
+
+    } catch (error) {
+      console.error('Error fetching duplicate report:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the duplicate report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [user, statusFilter]);
+
+  const openReview = (flag: DuplicateFlag, nextDecision: Decision) => {
+    setSelectedFlag(flag);
+    setDecision(nextDecision);
+    setNotes('');
+  };
+
+  const handleSubmitReview = async () => {
+    if (!selectedFlag) return;
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase.functions
+        .invoke('review-duplicate', {
+          body: {
+            flag_id: selectedFlag.id,
+            decision,
+            notes: notes.trim() || undefined,
+          },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      toast({
+        title: decision === 'confirmed' ? "Duplicate Confirmed" : "Flag Dismissed",
+        description: decision === 'confirmed'
+          ? `${selectedFlag.record.animal_id} reuses a photo of ${selectedFlag.matched?.animal_id ?? 'another animal'}`
+          : `${selectedFlag.record.animal_id} will not be flagged against ${selectedFlag.matched?.animal_id ?? 'that record'} again`,
+      });
+
+      setSelectedFlag(null);
+      setFlags((current) => current.filter((f) => f.id !== selectedFlag.id));
+      setTotal((current) => Math.max(0, current - 1));
+
+    } catch (error) {
+      console.error('Error reviewing duplicate flag:', error);
+      toast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderSide = (label: string, record: FlaggedRecord | null, imageUrl: string, worker: Worker | null) => (
+    <div className="space-y-2">
+      <div className="aspect-video overflow-hidden rounded-lg bg-muted">
+        <StorageImage src={imageUrl} size="medium" alt={label} className="w-full h-full object-cover" />
+      </div>
+      <div className="text-sm space-y-1">
+        <p className="font-medium">{label}: {record?.animal_id ?? 'Deleted record'}</p>
+        {record && (
+          <p className="text-muted-foreground">
+            {record.animal_type} • {formatBreedName(record.final_breed || record.predicted_breed)} • {record.verification_status}
+          </p>
+        )}
+        <p className="flex items-center gap-1 text-muted-foreground">
+          <User className="h-3 w-3" />
+          {workerName(worker)}
+        </p>
+        {record && (
+          <p className="text-xs text-muted-foreground">Captured {new Date(record.created_at).toLocaleDateString()}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Duplicate Photos</h1>
+        <p className="text-muted-foreground">
+          Captures whose photo looks the same as one already stored for another animal in your area
+        </p>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as FlagStatus)}>
+        <TabsList>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="confirmed">Confirmed</TabsTrigger>
+          <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      ) : flags.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CopyCheck className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No {statusFilter} duplicates</h3>
+            <p className="text-muted-foreground">
+              {statusFilter === 'open' ? 'No reused photos are waiting for review' : `No flags have been ${statusFilter} yet`}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {total} {statusFilter} flag{total === 1 ? '' : 's'}{total > flags.length ? `, showing the latest ${flags.length}` : ''}
+          </p>
+          {flags.map((flag) => (
+            <Card key={flag.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Copy className="h-4 w-4" />
+                    {flag.record.animal_id} ↔ {flag.matched?.animal_id ?? 'Deleted record'}
+                  </CardTitle>
+                  <div className="flex gap-1">
+                    <Badge variant="outline">
+                      {flag.same_worker ? 'Same worker' : 'Different workers'}
+                    </Badge>
+                    <Badge variant="secondary">
+                      {flag.distance === 0 ? 'Identical' : `${flag.distance} bits apart`}
+                    </Badge>
+                  </div>
+                </div>
+                <CardDescription>
+                  Flagged {new Date(flag.created_at).toLocaleString()}
+                  {flag.reviewed_at && ` • reviewed ${new Date(flag.reviewed_at).toLocaleDateString()}`}
+                  {flag.review_notes && ` • ${flag.review_notes}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {renderSide('New capture', flag.record, flag.image_url, flag.worker)}
+                  {renderSide('Earlier record', flag.matched, flag.matched_image_url, flag.matched_worker)}
+                </div>
+
+                {flag.status === 'open' && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="destructive" onClick={() => openReview(flag, 'confirmed')}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Same Photo
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openReview(flag, 'dismissed')}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      Different Animals
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selectedFlag} onOpenChange={(open) => !open && setSelectedFlag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decision === 'confirmed' ? 'Confirm Duplicate' : 'Dismiss Flag'}</DialogTitle>
+            <DialogDescription>
+              {decision === 'confirmed'
+                ? 'Record that both animals were registered with the same photo. Reject the duplicate record from the review queue.'
+                : 'Record that these are different animals. The pair will not be flagged again.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes (optional)</Label>
+            <Textarea
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={decision === 'confirmed' ? 'e.g. Same cow registered twice' : 'e.g. Twin calves photographed together'}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setSelectedFlag(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision === 'confirmed' ? 'destructive' : 'default'}
+              onClick={handleSubmitReview}
+              disabled={submitting}
+            >
+              {submitting ? 'Saving...' : decision === 'confirmed' ? 'Confirm Duplicate' : 'Dismiss Flag'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Duplicates;
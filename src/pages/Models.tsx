@@ -0,0 +1,544 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Cpu, GitCompare, Loader2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readFunctionError } from '@/lib/function-errors';
+import { fieldErrors, modelSchema, MODEL_PROVIDERS, MODEL_STATUSES } from '@shared/schemas';
+
+type ModelStatus = typeof MODEL_STATUSES[number];
+
+interface RegisteredModel {
+  id: string;
+  name: string;
+  version: string;
+  provider: string;
+  config: Record<string, string | number>;
+  status: ModelStatus;
+  notes: string | null;
+  dataset_snapshot: { id: string; name: string } | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Disagreement {
+  prediction_id: string;
+  animal_record_id: string | null;
+  animal_id: string | null;
+  active: { breed: string; confidence: number } | null;
+  active_model_version: string | null;
+  shadow: { breed: string; confidence: number } | null;
+  final_breed: string | null;
+  created_at: string;
+}
+
+interface ModelComparison {
+  compared: number;
+  agreements: number;
+  agreement_rate: number;
+  verified: number;
+  shadow_correct: number;
+  active_correct: number;
+  avg_processing_ms: number | null;
+  active_avg_processing_ms: number | null;
+  disagreements: Disagreement[];
+  // Only the latest captures in the window were compared
+  truncated?: boolean;
+}
+
+const statusStyles: Record<ModelStatus, string> = {
+  active: 'bg-green-100 text-green-800 border-green-200',
+  shadow: 'bg-blue-100 text-blue-800 border-blue-200',
+  retired: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+// Endpoint settings each provider reads from the model config; credentials stay in function secrets
+const configHints: Record<string, string> = {
+  mock: '{}',
+  fastapi: '{ "api_url": "https://..." }',
+  huggingface: '{ "model_id": "org/model" }',
+  onnx: '{ "model_url": "https://.../model.onnx", "labels": "gir,sahiwal,...", "input_size": 224 }',
+};
+
+const NO_SNAPSHOT = 'none';
+
+const emptyForm = { name: '', version: '', provider: 'onnx', config: '', notes: '', dataset_snapshot_id: NO_SNAPSHOT };
+
+const formatBreedName = (breed: string) => {
+  return breed.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+};
+
+const formatPrediction = (prediction: { breed: string; confidence: number } | null) =>
+  prediction ? `${formatBreedName(prediction.breed)} ${(prediction.confidence * 100).toFixed(1)}%` : '—';
+
+const Models = () => {
+  const [models, setModels] = useState<RegisteredModel[]>([]);
+  const [comparisons, setComparisons] = useState<Record<string, ModelComparison>>({});
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activating, setActivating] = useState<RegisteredModel | null>(null);
+  const [snapshots, setSnapshots] = useState<Array<{ id: string; name: string; created_at: string }>>([]);
+
+  const { toast } = useToast();
+
+  const fetchModels = async () => {
+    try {
+      const { data: response, error } = await supabase.functions
+        .invoke('get-models', {
+          body: { days },
+        });
+
+      if (error) {
+        throw new Error((await readFunctionError(error)).error);
+      }
+
+      setModels(response.models || []);
+      setComparisons(response.comparisons || {});
+    } catch (error) {
+      console.error('Error fetching models:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load models",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchModels();
+  }, [days]);
+
+  // Offered as "trained on" when registering a model
+  useEffect(() => {
+    supabase.functions
+      .invoke('get-dataset-snapshots', { body: { limit: 50 } })
+      .then(({ data: response, error }) => {
+        if (error) throw error;
+        setSnapshots(response.snapshots || []);
+      })
+      .catch((error) => console.error('Error fetching dataset snapshots:', error));
+  }, []);
+
+  const saveModel = async (body: Record<string, unknown>) => {
+    const { data: response, error } = await supabase.functions
+      .invoke('save-model', { body });
+
+    if (error) {
+      const errorBody = await readFunctionError(error);
+      if (errorBody.fields) setFormErrors(errorBody.fields);
+      throw new Error(errorBody.error);
+    }
+    return response.model as RegisteredModel;
+  };
+
+  const handleRegister = async () => {
+    let config: unknown = {};
+    if (form.config.trim()) {
+      try {
+        config = JSON.parse(form.config);
+      } catch {
+        setFormErrors({ config: 'Config must be a JSON object' });
+        return;
+      }
+    }
+
+    const parsed = modelSchema.safeParse({
+      ...form,
+      config,
+      status: 'shadow',
+      dataset_snapshot_id: form.dataset_snapshot_id === NO_SNAPSHOT ? null : form.dataset_snapshot_id,
+    });
+    if (!parsed.success) {
+      setFormErrors(fieldErrors(parsed.error));
+      return;
+    }
+
+    setSaving(true);
+    setFormErrors({});
+    try {
+      const model = await saveModel(parsed.data);
+      setForm(emptyForm);
+      toast({
+        title: "Model Registered",
+        description: `${model.name}@${model.version} will run in shadow mode on new captures`,
+      });
+      await fetchModels();
+    } catch (error) {
+      toast({
+        title: "Registration Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (model: RegisteredModel, status: ModelStatus) => {
+    setSaving(true);
+    try {
+      await saveModel({ id: model.id, status });
+      toast({
+        title: "Model Updated",
+        description: status === 'active'
+          ? `${model.name}@${model.version} now answers all classifications`
+          : `${model.name}@${model.version} is now ${status}`,
+      });
+      await fetchModels();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      setActivating(null);
+    }
+  };
+
+  const activeModel = models.find((m) => m.status === 'active');
+  const selected = models.find((m) => m.id === selectedId) ?? null;
+  const comparison = selected ? comparisons[selected.id] : undefined;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Models</h1>
+        <p className="text-muted-foreground">
+          The active model answers field workers; shadow models run on the same photos for comparison
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Register Model
+          </CardTitle>
+          <CardDescription>
+            New models start in shadow mode. API keys and tokens are read from the function secrets, not the config.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="modelName">Name</Label>
+              <Input
+                id="modelName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="indian-bovine-vit"
+              />
+              {formErrors.name && <p className="text-sm text-destructive mt-1">{formErrors.name}</p>}
+            </div>
+            <div>
+              <Label htmlFor="modelVersion">Version</Label>
+              <Input
+                id="modelVersion"
+                value={form.version}
+                onChange={(e) => setForm({ ...form, version: e.target.value })}
+                placeholder="2.1.0"
+              />
+              {formErrors.version && <p className="text-sm text-destructive mt-1">{formErrors.version}</p>}
+            </div>
+            <div>
+              <Label>Provider</Label>
+              <Select value={form.provider} onValueChange={(provider) => setForm({ ...form, provider })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODEL_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="modelConfig">Endpoint Config (JSON)</Label>
+            <Textarea
+              id="modelConfig"
+              value={form.config}
+              onChange={(e) => setForm({ ...form, config: e.target.value })}
+              placeholder={configHints[form.provider]}
+              className="font-mono text-sm"
+              rows={3}
+            />
+            {formErrors.config && <p className="text-sm text-destructive mt-1">{formErrors.config}</p>}
+          </div>
+          <div>
+            <Label htmlFor="modelNotes">Notes</Label>
+            <Input
+              id="modelNotes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Changes from the previous version..."
+            />
+          </div>
+          <div>
+            <Label>Trained On</Label>
+            <Select
+              value={form.dataset_snapshot_id}
+              onValueChange={(dataset_snapshot_id) => setForm({ ...form, dataset_snapshot_id })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SNAPSHOT}>No dataset snapshot</SelectItem>
+                {snapshots.map((snapshot) => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>
+                    {snapshot.name} ({snapshot.id.slice(0, 8)}, {new Date(snapshot.created_at).toLocaleDateString()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleRegister} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Register as Shadow
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Cpu className="h-5 w-5" />
+                Registered Models
+              </CardTitle>
+              <CardDescription>
+                {activeModel
+                  ? `${activeModel.name}@${activeModel.version} is active`
+                  : 'No active model; classifications use the INFERENCE_PROVIDER secret'}
+              </CardDescription>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {models.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No models registered yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Agreement</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map((model) => {
+                  const stats = comparisons[model.id];
+                  return (
+                    <TableRow
+                      key={model.id}
+                      className={`cursor-pointer ${selectedId === model.id ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSelectedId(model.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{model.name}@{model.version}</div>
+                        {model.notes && <div className="text-xs text-muted-foreground">{model.notes}</div>}
+                        {model.dataset_snapshot && (
+                          <div className="text-xs text-muted-foreground">
+                            Trained on {model.dataset_snapshot.name} ({model.dataset_snapshot.id.slice(0, 8)})
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{model.provider}</TableCell>
+                      <TableCell>
+                        <Badge className={statusStyles[model.status]}>{model.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stats ? `${(stats.agreement_rate * 100).toFixed(1)}% of ${stats.compared}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2" onClick={(e) => e.stopPropagation()}>
+                        {model.status !== 'active' && (
+                          <Button size="sm" variant="outline" disabled={saving} onClick={() => setActivating(model)}>
+                            Activate
+                          </Button>
+                        )}
+                        {model.status === 'retired' && (
+                          <Button size="sm" variant="outline" disabled={saving} onClick={() => handleStatusChange(model, 'shadow')}>
+                            Shadow
+                          </Button>
+                        )}
+                        {model.status === 'shadow' && (
+                          <Button size="sm" variant="outline" disabled={saving} onClick={() => handleStatusChange(model, 'retired')}>
+                            Retire
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              {selected.name}@{selected.version} vs Active
+            </CardTitle>
+            <CardDescription>
+              Shadow predictions from the last {days} days next to the active prediction on the same photos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!comparison ? (
+              <p className="text-sm text-muted-foreground">
+                {selected.status === 'active'
+                  ? 'This is the active model. Select a shadow model to compare it.'
+                  : 'No shadow predictions in this period'}
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Agreement</p>
+                    <p className="text-2xl font-bold">{(comparison.agreement_rate * 100).toFixed(1)}%</p>
+                    <p className="text-xs text-muted-foreground">{comparison.agreements} of {comparison.compared}{comparison.truncated ? ' most recent' : ''} captures</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Correct on Verified</p>
+                    <p className="text-2xl font-bold">
+                      {comparison.verified ? `${comparison.shadow_correct}/${comparison.verified}` : '—'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Active: {comparison.verified ? `${comparison.active_correct}/${comparison.verified}` : '—'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Avg Latency</p>
+                    <p className="text-2xl font-bold">
+                      {comparison.avg_processing_ms !== null ? `${comparison.avg_processing_ms}ms` : '—'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Active: {comparison.active_avg_processing_ms !== null ? `${comparison.active_avg_processing_ms}ms` : '—'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Disagreements</p>
+                    <p className="text-2xl font-bold">{comparison.compared - comparison.agreements}</p>
+                  </div>
+                </div>
+
+                {comparison.disagreements.length > 0 && (
+                  <div className="max-h-[400px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Animal ID</TableHead>
+                          <TableHead>Active</TableHead>
+                          <TableHead>Shadow</TableHead>
+                          <TableHead>Verified Breed</TableHead>
+                          <TableHead>Date</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.disagreements.map((row) => (
+                          <TableRow key={row.prediction_id}>
+                            <TableCell className="font-medium">{row.animal_id ?? '—'}</TableCell>
+                            <TableCell>
+                              <div>{formatPrediction(row.active)}</div>
+                              <div className="text-xs text-muted-foreground">{row.active_model_version}</div>
+                            </TableCell>
+                            <TableCell>{formatPrediction(row.shadow)}</TableCell>
+                            <TableCell>
+                              {row.final_breed ? formatBreedName(row.final_breed) : (
+                                <span className="text-muted-foreground">Not verified</span>
+                              )}
+                            </TableCell>
+                            <TableCell>{new Date(row.created_at).toLocaleDateString()}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!activating} onOpenChange={(open) => !open && setActivating(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Activate {activating?.name}@{activating?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This model will answer every new classification and re-run.
+              {activeModel && ` ${activeModel.name}@${activeModel.version} moves to shadow mode and keeps running for comparison.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving}
+              onClick={() => activating && handleStatusChange(activating, 'active')}
+            >
+              Activate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Models;
@@ -20,6 +20,7 @@ interface UserProfile {
   state?: string;
   phone?: string;
   is_verified: boolean;
+  role: 'field_worker' | 'supervisor' | 'district_admin';
   created_at: string;
   updated_at: string;
 }
@@ -32,8 +33,6 @@ const Profile = () => {
     full_name: '',
     employee_id: '',
     designation: '',
-    district: '',
-    state: '',
     phone: '',
   });
   
@@ -62,8 +61,6 @@ const Profile = () => {
           full_name: data.full_name || '',
           employee_id: data.employee_id || '',
           designation: data.designation || '',
-          district: data.district || '',
-          state: data.state || '',
           phone: data.phone || '',
         });
       }
@@ -189,6 +186,13 @@ const Profile = () => {
               </Badge>
             </div>
 
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              <Badge variant="outline" className="capitalize">
+                {(profile?.role || 'field_worker').replace('_', ' ')}
+              </Badge>
+            </div>
+
             <Separator />
 
             <div className="space-y-2">
@@ -257,9 +261,9 @@ const Profile = () => {
                 <Label htmlFor="district">District</Label>
                 <Input
                   id="district"
-                  value={formData.district}
-                  onChange={(e) => handleInputChange('district', e.target.value)}
-                  placeholder="Enter your district"
+                  value={profile?.district || ''}
+                  placeholder="Not assigned yet"
+                  disabled
                 />
               </div>
 
@@ -267,13 +271,18 @@ const Profile = () => {
                 <Label htmlFor="state">State</Label>
                 <Input
                   id="state"
-                  value={formData.state}
-                  onChange={(e) => handleInputChange('state', e.target.value)}
-                  placeholder="Enter your state"
+                  value={profile?.state || ''}
+                  placeholder="Not assigned yet"
+                  disabled
                 />
               </div>
             </div>
 
+            {/* Review areas follow district and state, so only an administrator can change them */}
+            <p className="text-sm text-muted-foreground">
+              District and state are assigned by an administrator. Contact them if yours are missing or wrong.
+            </p>
+
             <Separator />
 
             <div className="flex justify-end">
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -9,40 +10,110 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { Search, Filter, Eye, Edit, Calendar, CircleDot } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Search, Filter, Eye, Edit, Calendar, CircleDot, CloudOff, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { readCache, writeCache } from '@/lib/offline-cache';
+import { IMAGE_VIEW_LABELS, ImageView } from '@/lib/image-views';
+import { PREDICTION_OUTCOME_DESCRIPTIONS, PredictionOutcome } from '@/lib/prediction-outcomes';
+import RecordHistory from '@/components/RecordHistory';
+import PredictionHistory from '@/components/PredictionHistory';
+import SimilarAnimals from '@/components/SimilarAnimals';
+import OutcomeBadge from '@/components/OutcomeBadge';
+import BreedPicker from '@/components/BreedPicker';
+import { readFunctionError } from '@/lib/function-errors';
+import ExportRecordsDialog from '@/components/ExportRecordsDialog';
+import StorageImage from '@/components/StorageImage';
+import DetectionOverlay from '@/components/DetectionOverlay';
+import { formatLocation } from '@/lib/geolocation';
+import type { LocationData, OwnerDetails, ViewDetections } from '@shared/schemas';
 
 interface AnimalRecord {
   id: string;
   animal_id: string;
-  predicted_breed: string;
+  predicted_breed: string | null;
   manual_breed?: string;
   final_breed?: string;
   confidence_score: number;
+  prediction_outcome?: PredictionOutcome;
   verification_status: string;
   animal_type: string;
   created_at: string;
   image_url: string;
   notes?: string;
+  verification_reason?: string | null;
+  verified_at?: string | null;
+  owner_details?: OwnerDetails | null;
+  location_data?: LocationData | null;
+  authoritative_prediction_id?: string | null;
   breed_predictions?: Array<{
+    id: string;
     predicted_breeds: Array<{ breed: string; confidence: number }>;
+    view_contributions?: Array<{ image_url: string; view: ImageView; contribution: number }> | null;
+    detections?: ViewDetections[] | null;
     model_version: string;
     processing_time_ms: number;
+    source?: 'server' | 'on_device';
+    run_type?: 'capture' | 'reclassify';
     created_at: string;
   }>;
+  animal_images?: Array<{
+    id: string;
+    image_url: string;
+    view: ImageView;
+    position: number;
+    predicted_breeds: Array<{ breed: string; confidence: number }> | null;
+    weight: number | null;
+  }>;
+  // Open or confirmed flags; matched_record_id and matched are null when the other record is another worker's
+  duplicate_flags?: Array<{
+    id: string;
+    status: 'open' | 'confirmed';
+    same_worker: boolean;
+    distance: number;
+    matched_record_id: string | null;
+    matched: { animal_id: string } | null;
+  }>;
 }
 
+// reclassify-records accepts this many records per call
+const RECLASSIFY_BATCH = 20;
+
+// Predictions arrive newest first; on-device ones are provisional and shown only for comparison
+const serverPredictions = (record: AnimalRecord | null) =>
+  record?.breed_predictions?.filter((p) => p.source !== 'on_device') ?? [];
+
+// The prediction the worker chose for the record, or the latest one for older records
+const serverPrediction = (record: AnimalRecord | null) =>
+  serverPredictions(record).find((p) => p.id === record?.authoritative_prediction_id) ?? serverPredictions(record)[0];
+
+const detectionsFor = (record: AnimalRecord, imageUrl: string) =>
+  serverPrediction(record)?.detections?.find((d) => d.image_url === imageUrl) ?? null;
+
+const duplicateFlags = (record: AnimalRecord) => record.duplicate_flags ?? [];
+
+const onDevicePrediction = (record: AnimalRecord | null) =>
+  record?.breed_predictions?.find((p) => p.source === 'on_device');
+
 const Records = () => {
   const [records, setRecords] = useState<AnimalRecord[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('search') ?? '');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [animalTypeFilter, setAnimalTypeFilter] = useState<string>('all');
+  const [breedFilter, setBreedFilter] = useState<string>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [breeds, setBreeds] = useState<Array<{ breed_code: string; name: string; animal_type: string }>>([]);
   const [selectedRecord, setSelectedRecord] = useState<AnimalRecord | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [manualBreed, setManualBreed] = useState('');
   const [notes, setNotes] = useState('');
-  const [verificationStatus, setVerificationStatus] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reclassifying, setReclassifying] = useState(false);
+  const [choosingPrediction, setChoosingPrediction] = useState(false);
   
   const { user } = useAuth();
   const { toast } = useToast();
@@ -50,12 +121,17 @@ const Records = () => {
   const fetchRecords = async () => {
     if (!user) return;
 
+    const cacheKey = `records:${user.id}:${statusFilter}:${animalTypeFilter}:${breedFilter}:${dateFrom}:${dateTo}`;
+
     try {
       setLoading(true);
 
       const queryParams = new URLSearchParams();
       if (statusFilter !== 'all') queryParams.append('status', statusFilter);
       if (animalTypeFilter !== 'all') queryParams.append('animal_type', animalTypeFilter);
+      if (breedFilter !== 'all') queryParams.append('breed', breedFilter);
+      if (dateFrom) queryParams.append('date_from', dateFrom);
+      if (dateTo) queryParams.append('date_to', dateTo);
       queryParams.append('limit', '50');
 
       const { data: response, error } = await supabase.functions
@@ -68,9 +144,20 @@ const Records = () => {
       }
 
       setRecords(response.records || []);
+      setCachedAt(null);
+      writeCache(cacheKey, response.records || []);
 
     } catch (error: any) {
       console.error('Error fetching records:', error);
+
+      // Fall back to the last copy saved on this device
+      const cached = readCache<AnimalRecord[]>(cacheKey);
+      if (cached) {
+        setRecords(cached.data);
+        setCachedAt(cached.savedAt);
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to load animal records",
@@ -83,24 +170,43 @@ const Records = () => {
 
   useEffect(() => {
     fetchRecords();
-  }, [user, statusFilter, animalTypeFilter]);
+  }, [user, statusFilter, animalTypeFilter, breedFilter, dateFrom, dateTo]);
+
+  useEffect(() => {
+    const fetchBreeds = async () => {
+      const { data: response, error } = await supabase.functions.invoke('get-breeds', { body: {} });
+      if (!error) setBreeds(response.breeds || []);
+    };
+    fetchBreeds();
+  }, []);
+
+  // Duplicate links point back at this page with the other animal's ID
+  useEffect(() => {
+    setSearchTerm(searchParams.get('search') ?? '');
+  }, [searchParams]);
 
   const filteredRecords = records.filter(record => {
     const matchesSearch = searchTerm === '' || 
-      record.predicted_breed.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (record.final_breed || record.manual_breed || record.predicted_breed || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
       record.animal_id.toLowerCase().includes(searchTerm.toLowerCase());
     
     return matchesSearch;
   });
 
+  // Other animals recorded from the same herd photo
+  const herdmates = (record: AnimalRecord) =>
+    records.filter((other) => other.id !== record.id && other.image_url === record.image_url);
+
   const handleEditRecord = (record: AnimalRecord) => {
     setSelectedRecord(record);
     setManualBreed(record.manual_breed || '');
     setNotes(record.notes || '');
-    setVerificationStatus(record.verification_status);
     setEditDialogOpen(true);
   };
 
+  const reopensReview = !!selectedRecord && selectedRecord.verification_status !== 'pending' &&
+    (selectedRecord.verification_status === 'rejected' || manualBreed !== (selectedRecord.manual_breed || ''));
+
   const handleUpdateRecord = async () => {
     if (!selectedRecord) return;
 
@@ -110,14 +216,18 @@ const Records = () => {
           body: {
             record_id: selectedRecord.id,
             manual_breed: manualBreed || null,
-            final_breed: manualBreed || selectedRecord.predicted_breed,
-            verification_status: verificationStatus,
+            // A correction after review sends the record back to the supervisor
+            verification_status: reopensReview ? 'pending' : undefined,
             notes: notes || null,
           },
         });
 
       if (error) {
-        throw new Error(error.message);
+        const details = await readFunctionError(error);
+        if (details.code === 'invalid_breed' && details.allowed_codes) {
+          throw new Error(`${details.error}. Allowed: ${details.allowed_codes.map(formatBreedName).join(', ')}`);
+        }
+        throw new Error(details.error);
       }
 
       toast({
@@ -138,6 +248,92 @@ const Records = () => {
     }
   };
 
+  // Runs the current model again on the stored photos; results are added to each record's prediction history
+  const handleReclassify = async (recordIds: string[]) => {
+    if (recordIds.length === 0) return;
+
+    try {
+      setReclassifying(true);
+      const results: Array<{ animal_id: string; success: boolean; error?: string }> = [];
+
+      for (let i = 0; i < recordIds.length; i += RECLASSIFY_BATCH) {
+        const { data, error } = await supabase.functions
+          .invoke('reclassify-records', {
+            body: { record_ids: recordIds.slice(i, i + RECLASSIFY_BATCH) },
+          });
+
+        if (error) {
+          const details = await readFunctionError(error);
+          throw new Error(details.error);
+        }
+        results.push(...(data.results || []));
+      }
+
+      const failed = results.filter((r) => !r.success);
+      toast({
+        title: failed.length > 0 ? "Some Records Failed" : "Classification Re-run",
+        description: failed.length > 0
+          ? failed.map((r) => `${r.animal_id}: ${r.error}`).join('; ')
+          : `New predictions added for ${results.length} record${results.length === 1 ? '' : 's'}. Choose one in the record's prediction history to use it.`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+
+      setSelectedIds([]);
+      fetchRecords();
+
+    } catch (error) {
+      console.error('Error reclassifying records:', error);
+      toast({
+        title: "Re-run Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setReclassifying(false);
+    }
+  };
+
+  const handleChoosePrediction = async (record: AnimalRecord, predictionId: string) => {
+    try {
+      setChoosingPrediction(true);
+
+      const { error } = await supabase.functions
+        .invoke('update-animal-record', {
+          body: { record_id: record.id, authoritative_prediction_id: predictionId },
+        });
+
+      if (error) {
+        const details = await readFunctionError(error);
+        throw new Error(details.error);
+      }
+
+      toast({
+        title: "Prediction Updated",
+        description: record.verification_status === 'pending'
+          ? `${record.animal_id} now uses the selected prediction`
+          : `${record.animal_id} now uses the selected prediction and goes back for review`,
+      });
+
+      fetchRecords();
+
+    } catch (error) {
+      console.error('Error choosing prediction:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setChoosingPrediction(false);
+    }
+  };
+
+  const toggleSelected = (recordId: string, selected: boolean) => {
+    setSelectedIds((current) => selected
+      ? [...current, recordId]
+      : current.filter((id) => id !== recordId));
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'verified':
@@ -149,7 +345,8 @@ const Records = () => {
     }
   };
 
-  const formatBreedName = (breed: string) => {
+  const formatBreedName = (breed?: string | null) => {
+    if (!breed) return 'Unknown';
     return breed.split('_').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' ');
@@ -166,13 +363,25 @@ const Records = () => {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Animal Records</h1>
-        <p className="text-muted-foreground">
-          View and manage your classified animal records
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Animal Records</h1>
+          <p className="text-muted-foreground">
+            View and manage your classified animal records
+          </p>
+        </div>
+        <ExportRecordsDialog
+          filters={{ status: statusFilter, animalType: animalTypeFilter, breed: breedFilter, dateFrom, dateTo }}
+        />
       </div>
 
+      {cachedAt && (
+        <div className="flex items-center gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <CloudOff className="h-4 w-4" />
+          Showing records saved on {new Date(cachedAt).toLocaleString()}. Edits need a connection.
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
@@ -207,8 +416,64 @@ const Records = () => {
             <SelectItem value="buffalo">Buffalo</SelectItem>
           </SelectContent>
         </Select>
+
+        <Select value={breedFilter} onValueChange={setBreedFilter}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Filter by breed" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Breeds</SelectItem>
+            {breeds
+              .filter((b) => animalTypeFilter === 'all' || b.animal_type === animalTypeFilter)
+              .map((b) => (
+                <SelectItem key={b.breed_code} value={b.breed_code}>{b.name}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="dateFrom" className="text-sm text-muted-foreground whitespace-nowrap">From</Label>
+          <Input id="dateFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-full sm:w-44" />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="dateTo" className="text-sm text-muted-foreground whitespace-nowrap">To</Label>
+          <Input id="dateTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-full sm:w-44" />
+        </div>
+        {(dateFrom || dateTo) && (
+          <Button variant="ghost" size="sm" onClick={() => { setDateFrom(''); setDateTo(''); }}>
+            Clear dates
+          </Button>
+        )}
       </div>
 
+      {/* Bulk Actions */}
+      {!cachedAt && filteredRecords.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Checkbox
+            id="selectAll"
+            checked={filteredRecords.every((r) => selectedIds.includes(r.id))}
+            onCheckedChange={(checked) => setSelectedIds(checked === true ? filteredRecords.map((r) => r.id) : [])}
+          />
+          <Label htmlFor="selectAll" className="text-sm text-muted-foreground">
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+          </Label>
+          {selectedIds.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => handleReclassify(selectedIds)}
+              disabled={reclassifying}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${reclassifying ? 'animate-spin' : ''}`} />
+              Re-run classification
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Records Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredRecords.length === 0 ? (
@@ -218,7 +483,7 @@ const Records = () => {
                 <CircleDot className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
                 <h3 className="text-lg font-medium mb-2">No records found</h3>
                 <p className="text-muted-foreground">
-                  {searchTerm || statusFilter !== 'all' || animalTypeFilter !== 'all'
+                  {searchTerm || statusFilter !== 'all' || animalTypeFilter !== 'all' || breedFilter !== 'all' || dateFrom || dateTo
                     ? 'Try adjusting your filters or search terms'
                     : 'Upload your first animal image to get started'}
                 </p>
@@ -230,7 +495,7 @@ const Records = () => {
             <Card key={record.id} className="overflow-hidden">
               {record.image_url && (
                 <div className="aspect-video overflow-hidden">
-                  <img
+                  <StorageImage
                     src={record.image_url}
                     alt="Animal"
                     className="w-full h-full object-cover hover:scale-105 transition-transform duration-200"
@@ -240,12 +505,27 @@ const Records = () => {
               
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">
-                    {formatBreedName(record.final_breed || record.predicted_breed)}
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    {!cachedAt && (
+                      <Checkbox
+                        checked={selectedIds.includes(record.id)}
+                        onCheckedChange={(checked) => toggleSelected(record.id, checked === true)}
+                        aria-label={`Select ${record.animal_id}`}
+                      />
+                    )}
+                    {formatBreedName(record.final_breed || record.manual_breed || record.predicted_breed)}
                   </CardTitle>
-                  <Badge className={getStatusColor(record.verification_status)}>
-                    {record.verification_status}
-                  </Badge>
+                  <div className="flex gap-1">
+                    {duplicateFlags(record).length > 0 && (
+                      <Badge variant="outline" className="border-red-300 text-red-700">
+                        Possible duplicate
+                      </Badge>
+                    )}
+                    <OutcomeBadge outcome={record.prediction_outcome} settled={!!record.final_breed} />
+                    <Badge className={getStatusColor(record.verification_status)}>
+                      {record.verification_status}
+                    </Badge>
+                  </div>
                 </div>
                 <CardDescription>
                   {record.animal_type} • {(record.confidence_score * 100).toFixed(1)}% confidence
@@ -270,6 +550,12 @@ const Records = () => {
                       <span className="font-medium">Notes:</span> {record.notes.substring(0, 50)}...
                     </div>
                   )}
+
+                  {record.verification_reason && record.verification_status !== 'pending' && (
+                    <div>
+                      <span className="font-medium">Review:</span> {record.verification_reason}
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex gap-2 mt-4">
@@ -280,7 +566,7 @@ const Records = () => {
                         View
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="max-w-2xl">
+                    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
                         <DialogTitle>Animal Record Details</DialogTitle>
                         <DialogDescription>
@@ -289,17 +575,70 @@ const Records = () => {
                       </DialogHeader>
                       
                       <div className="space-y-4">
-                        {record.image_url && (
-                          <img
-                            src={record.image_url}
-                            alt="Animal"
-                            className="w-full h-64 object-cover rounded-lg"
-                          />
+                        {record.animal_images && record.animal_images.length > 1 ? (
+                          <div className="grid grid-cols-2 gap-3">
+                            {[...record.animal_images]
+                              .sort((a, b) => a.position - b.position)
+                              .map((image) => {
+                                const top = image.predicted_breeds?.[0];
+                                const contribution = serverPrediction(record)?.view_contributions
+                                  ?.find((c) => c.image_url === image.image_url)?.contribution;
+                                return (
+                                  <div key={image.id} className="space-y-1">
+                                    {detectionsFor(record, image.image_url) ? (
+                                      <DetectionOverlay
+                                        src={image.image_url}
+                                        alt={IMAGE_VIEW_LABELS[image.view]}
+                                        detections={detectionsFor(record, image.image_url)}
+                                      />
+                                    ) : (
+                                      <StorageImage
+                                        src={image.image_url}
+                                        size="medium"
+                                        alt={IMAGE_VIEW_LABELS[image.view]}
+                                        className="w-full h-32 object-cover rounded-lg"
+                                      />
+                                    )}
+                                    <div className="flex items-center justify-between text-xs">
+                                      <Badge variant="outline">{IMAGE_VIEW_LABELS[image.view]}</Badge>
+                                      {contribution !== undefined && (
+                                        <span className="text-muted-foreground">
+                                          {(contribution * 100).toFixed(0)}% of result
+                                        </span>
+                                      )}
+                                    </div>
+                                    {top && (
+                                      <p className="text-xs">
+                                        {formatBreedName(top.breed)} • {(top.confidence * 100).toFixed(1)}%
+                                      </p>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                          </div>
+                        ) : record.image_url && (
+                          detectionsFor(record, record.image_url) ? (
+                            <DetectionOverlay
+                              src={record.image_url}
+                              alt="Animal"
+                              detections={detectionsFor(record, record.image_url)}
+                            />
+                          ) : (
+                            <StorageImage
+                              src={record.image_url}
+                              size="medium"
+                              alt="Animal"
+                              className="w-full h-64 object-cover rounded-lg"
+                            />
+                          )
                         )}
                         
                         <div className="grid grid-cols-2 gap-4 text-sm">
                           <div>
-                            <strong>Predicted Breed:</strong> {formatBreedName(record.predicted_breed)}
+                            <strong>Predicted Breed:</strong>{' '}
+                            {record.prediction_outcome && record.prediction_outcome !== 'confident'
+                              ? PREDICTION_OUTCOME_DESCRIPTIONS[record.prediction_outcome]
+                              : formatBreedName(record.predicted_breed)}
                           </div>
                           <div>
                             <strong>Confidence:</strong> {(record.confidence_score * 100).toFixed(1)}%
@@ -310,18 +649,76 @@ const Records = () => {
                           <div>
                             <strong>Status:</strong> {record.verification_status}
                           </div>
+                          {record.verification_reason && record.verification_status !== 'pending' && (
+                            <div className="col-span-2">
+                              <strong>Reviewer's reason:</strong> {record.verification_reason}
+                              {record.verified_at && (
+                                <span className="text-muted-foreground"> ({new Date(record.verified_at).toLocaleDateString()})</span>
+                              )}
+                            </div>
+                          )}
                           {record.manual_breed && (
                             <div>
                               <strong>Manual Breed:</strong> {formatBreedName(record.manual_breed)}
                             </div>
                           )}
+                          {record.owner_details?.name && (
+                            <div className="col-span-2">
+                              <strong>Farmer:</strong> {record.owner_details.name}
+                              {record.owner_details.phone && ` • ${record.owner_details.phone}`}
+                              {' • '}
+                              {[record.owner_details.village, record.owner_details.tehsil, record.owner_details.district, record.owner_details.state]
+                                .filter(Boolean)
+                                .join(', ')}
+                            </div>
+                          )}
+                          {record.location_data?.lat !== undefined && (
+                            <div className="col-span-2">
+                              <strong>Location:</strong>{' '}
+                              <a
+                                href={`https://www.google.com/maps?q=${record.location_data.lat},${record.location_data.lng}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="underline"
+                              >
+                                {formatLocation(record.location_data)}
+                              </a>
+                            </div>
+                          )}
+                          {herdmates(record).length > 0 && (
+                            <div className="col-span-2">
+                              <strong>Same photo as:</strong>{' '}
+                              {herdmates(record).map((other) => other.animal_id).join(', ')}
+                            </div>
+                          )}
+                          {duplicateFlags(record).length > 0 && (
+                            <div className="col-span-2 rounded-md border border-red-200 bg-red-50 p-3 text-red-800">
+                              <strong>Possible duplicate:</strong>{' '}
+                              {duplicateFlags(record).map((flag, idx) => (
+                                <span key={flag.id}>
+                                  {idx > 0 && ', '}
+                                  {flag.matched ? (
+                                    <Link to={`/records?search=${encodeURIComponent(flag.matched.animal_id)}`} className="underline">
+                                      {flag.matched.animal_id}
+                                    </Link>
+                                  ) : (
+                                    'an animal recorded by another worker'
+                                  )}
+                                  {flag.status === 'confirmed' && ' (confirmed by supervisor)'}
+                                </span>
+                              ))}
+                              <p className="text-xs mt-1">This photo looks the same as one already stored. Check that this is a different animal.</p>
+                            </div>
+                          )}
                         </div>
 
-                        {record.breed_predictions && record.breed_predictions.length > 0 && (
+                        {serverPrediction(record) && (
                           <div>
-                            <h4 className="font-medium mb-2">All Predictions:</h4>
+                            <h4 className="font-medium mb-2">
+                              {record.animal_images && record.animal_images.length > 1 ? 'Combined Predictions:' : 'All Predictions:'}
+                            </h4>
                             <div className="space-y-1">
-                              {record.breed_predictions[0].predicted_breeds.map((pred, idx) => (
+                              {serverPrediction(record).predicted_breeds.map((pred, idx) => (
                                 <div key={idx} className="flex justify-between text-sm">
                                   <span>{formatBreedName(pred.breed)}</span>
                                   <span>{(pred.confidence * 100).toFixed(1)}%</span>
@@ -331,12 +728,52 @@ const Records = () => {
                           </div>
                         )}
 
+                        {onDevicePrediction(record) && (
+                          <div>
+                            <h4 className="font-medium mb-2">On-device Prediction (provisional):</h4>
+                            <div className="space-y-1">
+                              {onDevicePrediction(record).predicted_breeds.slice(0, 3).map((pred, idx) => (
+                                <div key={idx} className="flex justify-between text-sm text-muted-foreground">
+                                  <span>{formatBreedName(pred.breed)}</span>
+                                  <span>{(pred.confidence * 100).toFixed(1)}%</span>
+                                </div>
+                              ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {onDevicePrediction(record).model_version}
+                            </p>
+                          </div>
+                        )}
+
                         {record.notes && (
                           <div>
                             <strong>Notes:</strong>
                             <p className="mt-1 text-sm">{record.notes}</p>
                           </div>
                         )}
+
+                        <PredictionHistory
+                          predictions={serverPredictions(record)}
+                          authoritativeId={serverPrediction(record)?.id}
+                          onChoose={cachedAt ? undefined : (predictionId) => handleChoosePrediction(record, predictionId)}
+                          choosing={choosingPrediction}
+                        />
+
+                        {!cachedAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleReclassify([record.id])}
+                            disabled={reclassifying}
+                          >
+                            <RefreshCw className={`h-4 w-4 mr-2 ${reclassifying ? 'animate-spin' : ''}`} />
+                            Re-run classification
+                          </Button>
+                        )}
+
+                        {!cachedAt && <SimilarAnimals recordId={record.id} />}
+
+                        <RecordHistory recordId={record.id} />
                       </div>
                     </DialogContent>
                   </Dialog>
@@ -370,26 +807,26 @@ const Records = () => {
           <div className="space-y-4">
             <div>
               <Label htmlFor="manualBreed">Manual Breed Identification</Label>
-              <Input
+              <BreedPicker
                 id="manualBreed"
                 value={manualBreed}
-                onChange={(e) => setManualBreed(e.target.value)}
-                placeholder="Enter correct breed if different from prediction"
+                onChange={setManualBreed}
+                animalType={selectedRecord?.animal_type}
+                suggestions={serverPrediction(selectedRecord)?.predicted_breeds}
+                placeholder="Select correct breed if different from prediction"
               />
             </div>
 
             <div>
               <Label>Verification Status</Label>
-              <Select value={verificationStatus} onValueChange={setVerificationStatus}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="verified">Verified</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
-                </SelectContent>
-              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                <Badge className={getStatusColor(selectedRecord?.verification_status || 'pending')}>
+                  {selectedRecord?.verification_status}
+                </Badge>
+                {reopensReview
+                  ? ' Saving will send this record back to your supervisor for review.'
+                  : ' Records are verified by your supervisor.'}
+              </p>
             </div>
 
             <div>
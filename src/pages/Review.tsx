@@ -0,0 +1,396 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle2, XCircle, Calendar, User, ClipboardCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { IMAGE_VIEW_LABELS, ImageView } from '@/lib/image-views';
+import { readFunctionError } from '@/lib/function-errors';
+import { PREDICTION_OUTCOME_LABELS, PredictionOutcome } from '@/lib/prediction-outcomes';
+import BreedPicker from '@/components/BreedPicker';
+import StorageImage from '@/components/StorageImage';
+import DetectionOverlay from '@/components/DetectionOverlay';
+import SimilarAnimals from '@/components/SimilarAnimals';
+import OutcomeBadge from '@/components/OutcomeBadge';
+import type { ViewDetections } from '@shared/schemas';
+
+interface ReviewRecord {
+  id: string;
+  animal_id: string;
+  animal_type: string;
+  predicted_breed: string | null;
+  manual_breed?: string;
+  confidence_score: number;
+  prediction_outcome?: PredictionOutcome;
+  image_url: string;
+  notes?: string;
+  created_at: string;
+  worker: {
+    full_name?: string;
+    employee_id?: string;
+    district?: string;
+  } | null;
+  authoritative_prediction_id?: string | null;
+  breed_predictions?: Array<{
+    id: string;
+    predicted_breeds: Array<{ breed: string; confidence: number }>;
+    detections?: ViewDetections[] | null;
+    source?: 'server' | 'on_device';
+  }>;
+  animal_images?: Array<{
+    id: string;
+    image_url: string;
+    view: ImageView;
+    position: number;
+  }>;
+  duplicate_flags?: Array<{
+    id: string;
+    status: 'open' | 'confirmed';
+    same_worker: boolean;
+    distance: number;
+    image_url: string;
+    matched_record_id: string;
+    matched_image_url: string;
+    matched: { animal_id: string; verification_status: string } | null;
+  }>;
+}
+
+type Decision = 'verified' | 'rejected';
+type OutcomeFilter = 'all' | Exclude<PredictionOutcome, 'confident'>;
+
+// The worker's chosen server prediction, else the latest; provisional on-device ones are only kept for comparison
+const serverPrediction = (record: ReviewRecord | null) =>
+  record?.breed_predictions?.find((p) => p.id === record.authoritative_prediction_id) ??
+  record?.breed_predictions?.find((p) => p.source !== 'on_device');
+
+const detectionsFor = (record: ReviewRecord, imageUrl: string) =>
+  serverPrediction(record)?.detections?.find((d) => d.image_url === imageUrl) ?? null;
+
+const Review = () => {
+  const [records, setRecords] = useState<ReviewRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRecord, setSelectedRecord] = useState<ReviewRecord | null>(null);
+  const [decision, setDecision] = useState<Decision>('verified');
+  const [reason, setReason] = useState('');
+  const [finalBreed, setFinalBreed] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchQueue = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data: response, error } = await supabase.functions
+        .invoke('get-review-queue', {
+          body: { limit: 50, outcome: outcomeFilter === 'all' ? undefined : outcomeFilter },
+        });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      setRecords(response.records || []);
+
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the review queue. Check with an administrator that your district and state are assigned.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [user, outcomeFilter]);
+
+  const openReview = (record: ReviewRecord, nextDecision: Decision) => {
+    setSelectedRecord(record);
+    setDecision(nextDecision);
+    setReason('');
+    setFinalBreed(record.manual_breed || record.predicted_breed || '');
+  };
+
+  const handleSubmitReview = async () => {
+    if (!selectedRecord || !reason.trim()) return;
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase.functions
+        .invoke('review-animal-record', {
+          body: {
+            record_id: selectedRecord.id,
+            decision,
+            reason: reason.trim(),
+            final_breed: decision === 'verified' ? finalBreed : undefined,
+          },
+        });
+
+      if (error) {
+        const details = await readFunctionError(error);
+        if (details.code === 'invalid_breed' && details.allowed_codes) {
+          throw new Error(`${details.error}. Allowed: ${details.allowed_codes.map(formatBreedName).join(', ')}`);
+        }
+        throw new Error(details.error);
+      }
+
+      toast({
+        title: decision === 'verified' ? "Record Verified" : "Record Rejected",
+        description: `${selectedRecord.animal_id} has been ${decision}`,
+      });
+
+      setSelectedRecord(null);
+      setRecords((current) => current.filter((r) => r.id !== selectedRecord.id));
+
+    } catch (error) {
+      console.error('Error reviewing record:', error);
+      toast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatBreedName = (breed?: string | null) => {
+    if (!breed) return 'Unknown';
+    return breed.split('_').map(word =>
+      word.charAt(0).toUpperCase() + word.slice(1)
+    ).join(' ');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Review Queue</h1>
+        <p className="text-muted-foreground">
+          Verify or reject pending classifications from field workers in your area
+        </p>
+      </div>
+
+      {/* Records without a confident breed are always listed first; these narrow the queue to one kind */}
+      <Tabs value={outcomeFilter} onValueChange={(value) => setOutcomeFilter(value as OutcomeFilter)}>
+        <TabsList>
+          <TabsTrigger value="all">All pending</TabsTrigger>
+          <TabsTrigger value="needs_review">{PREDICTION_OUTCOME_LABELS.needs_review}</TabsTrigger>
+          <TabsTrigger value="unknown_breed">{PREDICTION_OUTCOME_LABELS.unknown_breed}</TabsTrigger>
+          <TabsTrigger value="not_bovine">{PREDICTION_OUTCOME_LABELS.not_bovine}</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {records.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <ClipboardCheck className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">Nothing to review</h3>
+            <p className="text-muted-foreground">
+              All records from your area have been reviewed
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {records.map((record) => {
+            const images = record.animal_images?.length
+              ? [...record.animal_images].sort((a, b) => a.position - b.position)
+              : record.image_url ? [{ id: record.id, image_url: record.image_url, view: 'other' as ImageView, position: 0 }] : [];
+
+            return (
+              <Card key={record.id} className="overflow-hidden">
+                {images.length > 0 && (
+                  <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {images.map((image) => (
+                      <div
+                        key={image.id}
+                        className={`relative ${detectionsFor(record, image.image_url) ? '' : 'aspect-video overflow-hidden'}`}
+                      >
+                        {/* Herd photos show which animal this record is about */}
+                        {detectionsFor(record, image.image_url) ? (
+                          <DetectionOverlay
+                            src={image.image_url}
+                            alt={IMAGE_VIEW_LABELS[image.view]}
+                            detections={detectionsFor(record, image.image_url)}
+                            className="rounded-none"
+                          />
+                        ) : (
+                          <StorageImage src={image.image_url} size="medium" alt={IMAGE_VIEW_LABELS[image.view]} className="w-full h-full object-cover" />
+                        )}
+                        {images.length > 1 && (
+                          <Badge variant="secondary" className="absolute bottom-1 left-1 text-[10px]">
+                            {IMAGE_VIEW_LABELS[image.view]}
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg">
+                      {formatBreedName(record.manual_breed || record.predicted_breed)}
+                    </CardTitle>
+                    <OutcomeBadge outcome={record.prediction_outcome} />
+                  </div>
+                  <CardDescription>
+                    {record.animal_id} • {record.animal_type} • {(record.confidence_score * 100).toFixed(1)}% confidence
+                  </CardDescription>
+                </CardHeader>
+
+                <CardContent className="pt-0 space-y-3">
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {record.worker?.full_name || 'Unknown worker'}
+                        {record.worker?.employee_id && ` (${record.worker.employee_id})`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <span>{new Date(record.created_at).toLocaleDateString()}</span>
+                    </div>
+                    {record.predicted_breed && record.manual_breed && record.manual_breed !== record.predicted_breed && (
+                      <div>
+                        <span className="font-medium">Model predicted:</span> {formatBreedName(record.predicted_breed)}
+                      </div>
+                    )}
+                    {record.notes && (
+                      <div>
+                        <span className="font-medium">Notes:</span> {record.notes}
+                      </div>
+                    )}
+                  </div>
+
+                  {record.duplicate_flags?.map((flag) => (
+                    <div key={flag.id} className="flex gap-3 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800">
+                      <StorageImage src={flag.matched_image_url} size="thumb" alt="Matching photo" className="h-14 w-14 rounded object-cover" />
+                      <div>
+                        <p className="font-medium">
+                          Possible duplicate of {flag.matched?.animal_id ?? 'another record'}
+                          {flag.same_worker ? ' (same worker)' : ''}
+                        </p>
+                        <p>
+                          {flag.status === 'confirmed' ? 'Confirmed as the same photo' : `Photo hashes differ by ${flag.distance} bits`}
+                          {flag.matched && ` • ${flag.matched.verification_status}`}
+                        </p>
+                        <Link to="/duplicates" className="underline">Open duplicate report</Link>
+                      </div>
+                    </div>
+                  ))}
+
+                  {serverPrediction(record) && (
+                    <div className="space-y-1">
+                      {serverPrediction(record).predicted_breeds.slice(0, 3).map((pred, idx) => (
+                        <div key={idx} className="flex justify-between text-xs text-muted-foreground">
+                          <span>{formatBreedName(pred.breed)}</span>
+                          <span>{(pred.confidence * 100).toFixed(1)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={() => openReview(record, 'verified')}>
+                      <CheckCircle2 className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="destructive" className="flex-1" onClick={() => openReview(record, 'rejected')}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={!!selectedRecord} onOpenChange={(open) => !open && setSelectedRecord(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{decision === 'verified' ? 'Approve Record' : 'Reject Record'}</DialogTitle>
+            <DialogDescription>
+              {selectedRecord?.animal_id} — a reason is required and will be shown to the field worker
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {decision === 'verified' && (
+              <div>
+                <Label htmlFor="finalBreed">Confirmed Breed</Label>
+                <BreedPicker
+                  id="finalBreed"
+                  value={finalBreed}
+                  onChange={setFinalBreed}
+                  animalType={selectedRecord?.animal_type}
+                  suggestions={serverPrediction(selectedRecord)?.predicted_breeds}
+                />
+              </div>
+            )}
+
+            {/* Confirmed examples help settle a doubtful breed */}
+            {decision === 'verified' && selectedRecord && <SimilarAnimals recordId={selectedRecord.id} />}
+
+            <div>
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={decision === 'verified'
+                  ? 'e.g. Breed markers match on side and face views'
+                  : 'e.g. Photo does not show the full animal, please recapture'}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setSelectedRecord(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmitReview}
+                disabled={submitting || !reason.trim() || (decision === 'verified' && !finalBreed)}
+                variant={decision === 'verified' ? 'default' : 'destructive'}
+              >
+                {decision === 'verified' ? 'Approve' : 'Reject'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Review;
@@ -0,0 +1,93 @@
+// Label handling shared by the server inference providers and the in-browser classifier,
+// so both return the same { breed, confidence }[] shape.
+
+export interface BreedPrediction {
+  breed: string
+  confidence: number
+}
+
+// Mirrors the breed_type enum; labels outside it cannot be stored on animal_records
+export const BREED_CODES = [
+  'gir', 'sahiwal', 'red_sindhi', 'tharparkar', 'rathi', 'hariana', 'ongole', 'krishna_valley', 'deoni', 'khillari',
+  'hallikar', 'amritmahal', 'kangayam', 'pulikulam', 'bargur', 'malvi', 'nimari', 'dangi', 'gaolao', 'jersey_cross',
+  'holstein_friesian_cross', 'crossbred', 'bachaur', 'binjharpur', 'kangayem', 'kankrej', 'kherigarh', 'ponwar',
+  'punganur', 'siri', 'vechur',
+  'murrah', 'nili_ravi', 'surti', 'jaffarabadi', 'bhadawari', 'nagpuri', 'toda', 'pandharpuri', 'kalahandi', 'mehsana'
+]
+
+const TOP_K = 5
+
+// Classes a model may have for photos without cattle or buffalo; their score feeds the not_bovine outcome
+const NON_BOVINE_LABELS = ['not_bovine', 'non_bovine', 'background', 'negative', 'no_animal', 'other_animal']
+
+// Normalisation the exported ONNX classifiers were trained with
+export const IMAGENET_MEAN = [0.485, 0.456, 0.406]
+export const IMAGENET_STD = [0.229, 0.224, 0.225]
+
+// Turns model labels such as "Nili Ravi" or "nili-ravi" into breed_type codes
+export const toBreedCode = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+
+// Keeps only known breeds, merges duplicate labels and returns the top-k by confidence
+export const rankPredictions = (raw: Array<{ label: string; score: number }>): BreedPrediction[] => {
+  const scores = new Map<string, number>()
+  for (const { label, score } of raw) {
+    const breed = toBreedCode(label)
+    if (!BREED_CODES.includes(breed)) continue
+    scores.set(breed, Math.max(scores.get(breed) ?? 0, Number(score) || 0))
+  }
+
+  return [...scores.entries()]
+    .map(([breed, confidence]) => ({ breed, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, TOP_K)
+}
+
+// Highest score given to a non-bovine class, or null when the model has no such class
+export const nonBovineScore = (raw: Array<{ label: string; score: number }>): number | null => {
+  const scores = raw
+    .filter(({ label }) => NON_BOVINE_LABELS.includes(toBreedCode(label)))
+    .map(({ score }) => Number(score) || 0)
+  return scores.length > 0 ? Math.max(...scores) : null
+}
+
+export const softmax = (logits: Float32Array) => {
+  const max = Math.max(...logits)
+  const exps = Array.from(logits, (v) => Math.exp(v - max))
+  const sum = exps.reduce((a, b) => a + b, 0)
+  return exps.map((v) => v / sum)
+}
+
+// 'unknown_breed' and 'not_bovine' are open-set outcomes: the photo doesn't fit any catalog breed
+export type PredictionOutcome = 'confident' | 'needs_review' | 'unknown_breed' | 'not_bovine'
+
+export interface ConfidenceThresholds {
+  min_confidence: number
+  min_margin: number
+  // Below this top-1 confidence no catalog breed is a plausible answer
+  min_known_confidence: number
+  // From this non-bovine score on, the photo is taken not to show cattle or buffalo
+  max_non_bovine: number
+}
+
+// Used for animal types without a classification_thresholds row
+export const DEFAULT_THRESHOLDS: ConfidenceThresholds = {
+  min_confidence: 0.6,
+  min_margin: 0.15,
+  min_known_confidence: 0.3,
+  max_non_bovine: 0.5
+}
+
+// A prediction is only trusted when the top breed is both likely and clearly ahead of the runner-up.
+// nonBovine is the fused non-bovine score (1 when the detector found no cattle or buffalo).
+export const predictionOutcome = (
+  predictions: BreedPrediction[],
+  { min_confidence, min_margin, min_known_confidence, max_non_bovine }: ConfidenceThresholds,
+  nonBovine: number | null = null
+): PredictionOutcome => {
+  if (nonBovine !== null && nonBovine >= max_non_bovine) return 'not_bovine'
+  const [top, second] = predictions
+  if (!top || top.confidence < min_known_confidence) return 'unknown_breed'
+  const margin = top.confidence - (second?.confidence ?? 0)
+  return top.confidence >= min_confidence && margin >= min_margin ? 'confident' : 'needs_review'
+}
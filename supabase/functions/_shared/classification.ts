@@ -0,0 +1,115 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { DEFAULT_THRESHOLDS, predictionOutcome, type BreedPrediction, type ConfidenceThresholds } from './breeds.ts'
+import { animalDetections, cropToBox, NoAnimalFoundError, type DetectionProvider } from './detection.ts'
+import type { AnimalType, InferenceProvider, ProviderResult } from './providers.ts'
+import type { Detection, ViewDetections } from './schemas.ts'
+
+export interface ViewInput {
+  image_url: string
+  view: string
+  image: Blob
+  // Detector output sent by the client or stored from an earlier run; null runs the detector, if any
+  detections: Detection[] | null
+}
+
+export type ViewResult = ProviderResult & { detections: ViewDetections | null }
+
+export const loadThresholds = async (supabase: SupabaseClient, animalType: string): Promise<ConfidenceThresholds> => {
+  const { data, error } = await supabase
+    .from('classification_thresholds')
+    .select('min_confidence, min_margin, min_known_confidence, max_non_bovine')
+    .eq('animal_type', animalType)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading classification thresholds:', error)
+  }
+  return data
+    ? {
+        min_confidence: Number(data.min_confidence),
+        min_margin: Number(data.min_margin),
+        min_known_confidence: Number(data.min_known_confidence),
+        max_non_bovine: Number(data.max_non_bovine)
+      }
+    : DEFAULT_THRESHOLDS
+}
+
+// Finds the animal in the view, crops to it and classifies the crop
+export const classifyView = async (
+  provider: InferenceProvider,
+  detector: DetectionProvider | null,
+  input: ViewInput,
+  animalType: AnimalType
+): Promise<ViewResult> => {
+  const detected = input.detections ?? (detector ? await detector.detect(input.image) : null)
+  const animals = detected ? animalDetections(detected) : null
+  if (animals && animals.length === 0) {
+    throw new NoAnimalFoundError(input.image_url, input.view)
+  }
+
+  const crop = animals ? animals[0].box : null
+  const result = await provider.classify(crop ? await cropToBox(input.image, crop) : input.image, animalType)
+  return {
+    ...result,
+    detections: animals ? { image_url: input.image_url, view: input.view, detections: animals, crop } : null
+  }
+}
+
+export interface ViewsResult {
+  results: ViewResult[]
+  // Views where the detector found no animal
+  missing: NoAnimalFoundError[]
+  // No view shows cattle or buffalo; results are empty and fully non-bovine
+  notBovine: boolean
+}
+
+// Classifies every view of one animal. When no view shows an animal the classifier isn't run and
+// the capture is a not_bovine result; an animal missing from only some views is a bad photo, so
+// those views are returned in `missing` (with no results) for the caller to ask for a retake.
+export const classifyViews = async (
+  provider: InferenceProvider,
+  detector: DetectionProvider | null,
+  views: ViewInput[],
+  animalType: AnimalType
+): Promise<ViewsResult> => {
+  const settled = await Promise.allSettled(views.map((v) => classifyView(provider, detector, v, animalType)))
+
+  const failure = settled.find((r) => r.status === 'rejected' && !(r.reason instanceof NoAnimalFoundError))
+  if (failure) {
+    throw (failure as PromiseRejectedResult).reason
+  }
+
+  const missing = settled.flatMap((r) => r.status === 'rejected' ? [r.reason as NoAnimalFoundError] : [])
+  if (missing.length === 0) {
+    return { results: settled.map((r) => (r as PromiseFulfilledResult<ViewResult>).value), missing, notBovine: false }
+  }
+  if (missing.length < views.length) {
+    return { results: [], missing, notBovine: false }
+  }
+
+  return {
+    results: views.map((v) => ({
+      predictions: [],
+      model_version: `detector:${detector?.name ?? 'client'}`,
+      non_bovine_score: 1,
+      detections: { image_url: v.image_url, view: v.view, detections: [], crop: null }
+    })),
+    missing,
+    notBovine: true
+  }
+}
+
+// Record columns that follow the authoritative prediction. Only confident predictions fill in
+// the breed; otherwise a reviewer picks it from the candidates or rejects the photo.
+export const predictionFields = (
+  predictions: BreedPrediction[],
+  thresholds: ConfidenceThresholds,
+  nonBovine: number | null = null
+) => {
+  const outcome = predictionOutcome(predictions, thresholds, nonBovine)
+  return {
+    predicted_breed: outcome === 'confident' ? predictions[0].breed : null,
+    confidence_score: predictions[0]?.confidence ?? null,
+    prediction_outcome: outcome
+  }
+}
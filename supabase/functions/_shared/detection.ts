@@ -0,0 +1,118 @@
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+import type { BoundingBox, Detection } from './schemas.ts'
+
+export interface DetectionProvider {
+  name: string
+  detect(image: Blob): Promise<Detection[]>
+}
+
+// Detector classes that count as the animal to classify (COCO detectors only know "cow")
+const ANIMAL_LABELS = ['cattle', 'cow', 'bull', 'ox', 'calf', 'buffalo', 'water_buffalo']
+
+const MIN_SCORE = parseFloat(Deno.env.get('DETECTION_MIN_SCORE') || '0.4')
+
+// Context kept around the box so horns, hump and dewlap aren't cut off
+const CROP_PADDING = 0.05
+
+export class NoAnimalFoundError extends Error {
+  constructor(public imageUrl: string, public view: string) {
+    super('No animal found in the photo')
+    this.name = 'NoAnimalFoundError'
+  }
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// Animals above the score threshold, most confident first
+export const animalDetections = (detections: Detection[]) =>
+  detections
+    .filter((d) => ANIMAL_LABELS.includes(d.label.trim().toLowerCase().replace(/[\s-]+/g, '_')) && d.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+
+// Roboflow hosted object detection (the "detect" step of the detect-and-classify workflow)
+const roboflowDetector: DetectionProvider = {
+  name: 'roboflow',
+  async detect(image) {
+    const apiKey = Deno.env.get('ROBOFLOW_API_KEY')
+    const model = Deno.env.get('ROBOFLOW_DETECTION_MODEL')
+    if (!apiKey || !model) {
+      throw new Error('ROBOFLOW_API_KEY and ROBOFLOW_DETECTION_MODEL must be set for the roboflow detector')
+    }
+    const baseUrl = (Deno.env.get('ROBOFLOW_API_URL') || 'https://detect.roboflow.com').replace(/\/+$/, '')
+
+    const bytes = new Uint8Array(await image.arrayBuffer())
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+
+    const response = await fetch(`${baseUrl}/${model}?api_key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: btoa(binary)
+    })
+    if (!response.ok) {
+      throw new Error(`Detection API failed: ${response.status} ${await response.text()}`)
+    }
+
+    // Boxes come back as pixel centre points
+    const data = await response.json()
+    const width: number = data.image?.width
+    const height: number = data.image?.height
+    if (!width || !height) return []
+
+    return (data.predictions || []).map((p: { x: number; y: number; width: number; height: number; class: string; confidence: number }) => {
+      const x = clamp((p.x - p.width / 2) / width)
+      const y = clamp((p.y - p.height / 2) / height)
+      return {
+        label: String(p.class),
+        score: Number(p.confidence) || 0,
+        box: {
+          x,
+          y,
+          width: Math.max(0.001, clamp((p.x + p.width / 2) / width) - x),
+          height: Math.max(0.001, clamp((p.y + p.height / 2) / height) - y)
+        }
+      }
+    })
+  }
+}
+
+const detectors: Record<string, DetectionProvider> = {
+  roboflow: roboflowDetector
+}
+
+// Selected with the DETECTION_PROVIDER secret; without it whole photos are classified
+export const getDetectionProvider = (name = Deno.env.get('DETECTION_PROVIDER')) => {
+  if (!name || name.toLowerCase() === 'none') return null
+
+  const detector = detectors[name.toLowerCase()]
+  if (!detector) {
+    throw new Error(`Unknown detection provider "${name}". Expected one of: none, ${Object.keys(detectors).join(', ')}`)
+  }
+  return detector
+}
+
+// Cuts the padded box out of the photo; formats ImageScript can't decode are classified whole
+export const cropToBox = async (image: Blob, box: BoundingBox): Promise<Blob> => {
+  let decoded: Image
+  try {
+    decoded = await Image.decode(new Uint8Array(await image.arrayBuffer())) as Image
+  } catch (error) {
+    console.warn('Cannot crop image, classifying the whole photo:', (error as Error).message)
+    return image
+  }
+
+  const left = clamp(box.x - box.width * CROP_PADDING)
+  const top = clamp(box.y - box.height * CROP_PADDING)
+  const right = clamp(box.x + box.width * (1 + CROP_PADDING))
+  const bottom = clamp(box.y + box.height * (1 + CROP_PADDING))
+
+  const x = Math.floor(left * decoded.width)
+  const y = Math.floor(top * decoded.height)
+  const width = Math.max(1, Math.min(decoded.width - x, Math.round((right - left) * decoded.width)))
+  const height = Math.max(1, Math.min(decoded.height - y, Math.round((bottom - top) * decoded.height)))
+
+  decoded.crop(x, y, width, height)
+  return new Blob([await decoded.encodeJPEG(90)], { type: 'image/jpeg' })
+}
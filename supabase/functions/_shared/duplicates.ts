@@ -0,0 +1,69 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { DUPLICATE_MAX_DISTANCE } from './phash.ts'
+
+export interface DuplicateMatch {
+  image_url: string
+  matched_record_id: string
+  matched_animal_id: string
+  matched_image_url: string
+  matched_user_id: string
+  distance: number
+  same_worker: boolean
+}
+
+// Looks for stored photos that match the record's photos and records a flag per matched record.
+// Open flags from an earlier capture of the record are replaced; reviewed ones are kept, and
+// dismissed pairs are not reported again.
+export const flagDuplicates = async (supabase: SupabaseClient, recordId: string): Promise<DuplicateMatch[]> => {
+  const { data, error } = await supabase.rpc('find_duplicate_images', {
+    p_record_id: recordId,
+    p_max_distance: DUPLICATE_MAX_DISTANCE
+  })
+
+  if (error) {
+    console.error('Error searching for duplicate photos:', error)
+    return []
+  }
+
+  await supabase.from('duplicate_flags').delete().eq('animal_record_id', recordId).eq('status', 'open')
+
+  // Closest photo per matched record
+  const byRecord = new Map<string, DuplicateMatch>()
+  for (const match of (data || []) as DuplicateMatch[]) {
+    const current = byRecord.get(match.matched_record_id)
+    if (!current || match.distance < current.distance) {
+      byRecord.set(match.matched_record_id, match)
+    }
+  }
+
+  // A supervisor already decided these aren't duplicates
+  const { data: dismissed } = await supabase
+    .from('duplicate_flags')
+    .select('matched_record_id')
+    .eq('animal_record_id', recordId)
+    .eq('status', 'dismissed')
+  for (const flag of dismissed || []) {
+    byRecord.delete(flag.matched_record_id)
+  }
+
+  const matches = [...byRecord.values()].sort((a, b) => a.distance - b.distance)
+
+  if (matches.length > 0) {
+    const { error: flagError } = await supabase
+      .from('duplicate_flags')
+      .upsert(matches.map((m) => ({
+        animal_record_id: recordId,
+        image_url: m.image_url,
+        matched_record_id: m.matched_record_id,
+        matched_image_url: m.matched_image_url,
+        distance: m.distance,
+        same_worker: m.same_worker
+      })), { onConflict: 'animal_record_id,matched_record_id', ignoreDuplicates: true })
+
+    if (flagError) {
+      console.error('Error storing duplicate flags:', flagError)
+    }
+  }
+
+  return matches
+}
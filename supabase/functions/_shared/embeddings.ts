@@ -0,0 +1,141 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { cropToBox } from './detection.ts'
+import { loadOnnxSession, toInputTensor } from './providers.ts'
+import type { BoundingBox } from './schemas.ts'
+
+// Width of the vector columns (CLIP ViT-B image encoders)
+export const EMBEDDING_DIMENSIONS = 512
+
+export interface EmbeddingProvider {
+  name: string
+  // Stored with every vector; only vectors from the same model are compared
+  model: string
+  embed(image: Blob): Promise<number[]>
+}
+
+export interface EmbeddingView {
+  image_url: string
+  blob: Blob
+  crop: BoundingBox | null
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new Error(`${name} must be set for the configured embedding provider`)
+  }
+  return value
+}
+
+const checkDimensions = (embedding: number[]) => {
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding has ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`)
+  }
+  return embedding
+}
+
+// FastAPI proxy in api/server.py (POST /embed with a multipart "file" field)
+const fastApiEmbedder = (): EmbeddingProvider => ({
+  name: 'fastapi',
+  model: `fastapi:${Deno.env.get('EMBEDDING_MODEL_VERSION') || 'clip'}`,
+  async embed(image) {
+    const baseUrl = (Deno.env.get('EMBEDDING_API_URL') || requireEnv('INFERENCE_API_URL')).replace(/\/+$/, '')
+
+    const form = new FormData()
+    form.append('file', image, `upload.${(image.type.split('/')[1] || 'jpg')}`)
+
+    const response = await fetch(`${baseUrl}/embed`, { method: 'POST', body: form })
+    if (!response.ok) {
+      throw new Error(`Embedding API failed: ${response.status} ${await response.text()}`)
+    }
+
+    const data = await response.json()
+    return checkDimensions((data.embedding || []).map(Number))
+  }
+})
+
+// An exported image encoder run with onnxruntime-web, fed the same input as the ONNX classifier
+const onnxEmbedder = (): EmbeddingProvider => {
+  const modelUrl = requireEnv('EMBEDDING_ONNX_MODEL_URL')
+  return {
+    name: 'onnx',
+    model: `onnx:${Deno.env.get('EMBEDDING_MODEL_VERSION') || modelUrl.split('/').pop()}`,
+    async embed(image) {
+      const inputSize = parseInt(Deno.env.get('EMBEDDING_ONNX_INPUT_SIZE') || '224')
+      const session = await loadOnnxSession(modelUrl)
+      const output = await session.run({ [session.inputNames[0]]: await toInputTensor(image, inputSize) })
+      return checkDimensions(Array.from(output[session.outputNames[0]].data as Float32Array))
+    }
+  }
+}
+
+const embedders: Record<string, () => EmbeddingProvider> = {
+  fastapi: fastApiEmbedder,
+  onnx: onnxEmbedder
+}
+
+// Selected with the EMBEDDING_PROVIDER secret; without it similarity search is off
+export const getEmbeddingProvider = (name = Deno.env.get('EMBEDDING_PROVIDER')) => {
+  if (!name || name.toLowerCase() === 'none') return null
+
+  const embedder = embedders[name.toLowerCase()]
+  if (!embedder) {
+    throw new Error(`Unknown embedding provider "${name}". Expected one of: none, ${Object.keys(embedders).join(', ')}`)
+  }
+  return embedder()
+}
+
+const normalize = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1
+  return vector.map((x) => x / norm)
+}
+
+// pgvector's text format, which is how PostgREST reads and writes vector columns
+export const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`
+
+// Embedding of one photo, or of the animal's box in a herd photo
+export const embedImage = async (provider: EmbeddingProvider, image: Blob, crop: BoundingBox | null = null) =>
+  normalize(await provider.embed(crop ? await cropToBox(image, crop) : image))
+
+// Embeds every view of a record; the record's embedding is the normalised mean of its views
+export const embedRecordViews = async (provider: EmbeddingProvider, views: EmbeddingView[]) => {
+  if (views.length === 0) return null
+
+  const embeddings = await Promise.all(views.map((v) => embedImage(provider, v.blob, v.crop)))
+  const mean = normalize(embeddings[0].map((_, d) => embeddings.reduce((sum, e) => sum + e[d], 0) / embeddings.length))
+  return { embeddings, mean }
+}
+
+// Embeds every view of a record and stores the views' mean as the record's embedding
+export const storeRecordEmbedding = async (
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  recordId: string,
+  views: EmbeddingView[]
+): Promise<number[] | null> => {
+  const embedded = await embedRecordViews(provider, views)
+  if (!embedded) return null
+
+  for (const [i, view] of views.entries()) {
+    const { error } = await supabase
+      .from('animal_images')
+      .update({ embedding: toVectorLiteral(embedded.embeddings[i]) })
+      .eq('animal_record_id', recordId)
+      .eq('image_url', view.image_url)
+
+    if (error) {
+      console.error('Error storing view embedding:', error)
+    }
+  }
+
+  const { error } = await supabase
+    .from('animal_records')
+    .update({ embedding: toVectorLiteral(embedded.mean), embedding_model: provider.model })
+    .eq('id', recordId)
+
+  if (error) {
+    console.error('Error storing record embedding:', error)
+  }
+
+  return embedded.mean
+}
@@ -0,0 +1,95 @@
+import type { BreedPrediction } from './breeds.ts'
+
+// A verified record: what the model predicted and the breed the supervisor confirmed
+export interface EvaluationSample {
+  predictions: BreedPrediction[]
+  actual: string
+}
+
+export interface BreedMetrics {
+  breed: string
+  // Verified records of this breed
+  support: number
+  // Records the model labelled with this breed
+  predicted: number
+  true_positives: number
+  precision: number | null
+  recall: number | null
+  f1: number | null
+}
+
+export interface AccuracyReport {
+  samples: number
+  top1_correct: number
+  top3_correct: number
+  top1_accuracy: number | null
+  top3_accuracy: number | null
+  // matrix[i][j]: records of breed labels[i] predicted as labels[j]; '' is "no prediction"
+  labels: string[]
+  matrix: number[][]
+  per_breed: BreedMetrics[]
+}
+
+export const NO_PREDICTION = ''
+
+const ratio = (numerator: number, denominator: number) => denominator ? numerator / denominator : null
+
+export const evaluatePredictions = (samples: EvaluationSample[]): AccuracyReport => {
+  let top1Correct = 0
+  let top3Correct = 0
+  const pairs: Array<[string, string]> = []
+
+  for (const { predictions, actual } of samples) {
+    const predicted = predictions[0]?.breed ?? NO_PREDICTION
+    if (predicted === actual) top1Correct++
+    if (predictions.slice(0, 3).some((p) => p.breed === actual)) top3Correct++
+    pairs.push([actual, predicted])
+  }
+
+  // Actual breeds first, by how often they were verified, then breeds only the model predicted
+  const support = new Map<string, number>()
+  for (const [actual] of pairs) support.set(actual, (support.get(actual) ?? 0) + 1)
+  const labels = [...support.keys()].sort((a, b) => support.get(b)! - support.get(a)! || a.localeCompare(b))
+  for (const [, predicted] of pairs) {
+    if (!labels.includes(predicted)) labels.push(predicted)
+  }
+
+  const index = new Map(labels.map((label, i) => [label, i]))
+  const matrix = labels.map(() => labels.map(() => 0))
+  for (const [actual, predicted] of pairs) {
+    matrix[index.get(actual)!][index.get(predicted)!]++
+  }
+
+  const perBreed = labels
+    .filter((breed) => breed !== NO_PREDICTION)
+    .map((breed) => {
+      const i = index.get(breed)!
+      const truePositives = matrix[i][i]
+      const breedSupport = matrix[i].reduce((sum, n) => sum + n, 0)
+      const predicted = matrix.reduce((sum, row) => sum + row[i], 0)
+      const precision = ratio(truePositives, predicted)
+      const recall = ratio(truePositives, breedSupport)
+      return {
+        breed,
+        support: breedSupport,
+        predicted,
+        true_positives: truePositives,
+        precision,
+        recall,
+        f1: precision !== null && recall !== null && precision + recall > 0
+          ? (2 * precision * recall) / (precision + recall)
+          : null
+      }
+    })
+
+  return {
+    samples: samples.length,
+    top1_correct: top1Correct,
+    top3_correct: top3Correct,
+    top1_accuracy: ratio(top1Correct, samples.length),
+    top3_accuracy: ratio(top3Correct, samples.length),
+    labels,
+    matrix,
+    per_breed: perBreed
+  }
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { farmerSchema, fieldErrors, type Farmer, type OwnerDetails } from './schemas.ts'
+
+export class FarmerValidationError extends Error {
+  constructor(public fields: Record<string, string>) {
+    super('Invalid farmer details')
+    this.name = 'FarmerValidationError'
+  }
+}
+
+export interface FarmerRow extends Farmer {
+  id: string
+  created_by: string
+}
+
+export const normalizePhone = (phone: string | null) => phone ? phone.replace(/[\s-]/g, '').replace(/^\+91/, '') : null
+
+// Validates farmer details and returns the worker's existing farmer with the same phone
+// (or name + village when there is no phone), creating one if needed
+export const findOrCreateFarmer = async (
+  supabase: SupabaseClient,
+  userId: string,
+  input: unknown
+): Promise<FarmerRow> => {
+  const parsed = farmerSchema.safeParse(input)
+  if (!parsed.success) {
+    throw new FarmerValidationError(fieldErrors(parsed.error))
+  }
+
+  const farmer = { ...parsed.data, phone: normalizePhone(parsed.data.phone ?? null) }
+
+  let existingQuery = supabase
+    .from('farmers')
+    .select('*')
+    .eq('created_by', userId)
+
+  existingQuery = farmer.phone
+    ? existingQuery.eq('phone', farmer.phone)
+    : existingQuery.is('phone', null).ilike('name', farmer.name).ilike('village', farmer.village)
+
+  const { data: existing } = await existingQuery.limit(1).maybeSingle()
+
+  if (existing) {
+    const { data: updated, error } = await supabase
+      .from('farmers')
+      .update(farmer)
+      .eq('id', existing.id)
+      .select()
+      .single()
+    if (error) throw new Error(`Failed to update farmer: ${error.message}`)
+    return updated
+  }
+
+  const { data: created, error } = await supabase
+    .from('farmers')
+    .insert({ ...farmer, created_by: userId })
+    .select()
+    .single()
+  if (error) throw new Error(`Failed to save farmer: ${error.message}`)
+  return created
+}
+
+export const getOwnFarmer = async (supabase: SupabaseClient, userId: string, farmerId: string) => {
+  const { data } = await supabase
+    .from('farmers')
+    .select('*')
+    .eq('id', farmerId)
+    .eq('created_by', userId)
+    .maybeSingle()
+  return data as FarmerRow | null
+}
+
+export const ownerDetailsFromFarmer = (farmer: FarmerRow): OwnerDetails => ({
+  farmer_id: farmer.id,
+  name: farmer.name,
+  phone: farmer.phone,
+  village: farmer.village,
+  tehsil: farmer.tehsil,
+  district: farmer.district,
+  state: farmer.state
+})
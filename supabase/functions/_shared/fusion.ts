@@ -0,0 +1,81 @@
+import type { BreedPrediction } from './providers.ts'
+
+export type ImageView = 'left_side' | 'right_side' | 'front_face' | 'rear_udder' | 'other'
+
+export const IMAGE_VIEWS: ImageView[] = ['left_side', 'right_side', 'front_face', 'rear_udder', 'other']
+
+// Side profiles carry most breed markers (hump, dewlap, body colour), so they count the most
+const VIEW_WEIGHTS: Record<ImageView, number> = {
+  left_side: 1,
+  right_side: 1,
+  front_face: 0.8,
+  rear_udder: 0.6,
+  other: 0.5
+}
+
+export interface ViewPrediction {
+  image_url: string
+  view: ImageView
+  predictions: BreedPrediction[]
+  non_bovine_score?: number | null
+}
+
+export interface ViewContribution {
+  image_url: string
+  view: ImageView
+  weight: number
+  top_breed: string | null
+  top_confidence: number
+  // Share of the fused top breed's score that came from this view (0-1)
+  contribution: number
+}
+
+export interface FusedResult {
+  predictions: BreedPrediction[]
+  contributions: ViewContribution[]
+  // Weighted over the views that have one; null when none does
+  non_bovine_score: number | null
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+// Weighted average of per-view confidences; a breed a view did not return counts as 0 for that view
+export const fuseViewPredictions = (views: ViewPrediction[], topK = 5): FusedResult => {
+  const totalWeight = views.reduce((sum, v) => sum + VIEW_WEIGHTS[v.view], 0) || 1
+  const scores = new Map<string, number>()
+
+  for (const view of views) {
+    const weight = VIEW_WEIGHTS[view.view]
+    for (const { breed, confidence } of view.predictions) {
+      scores.set(breed, (scores.get(breed) ?? 0) + (weight * confidence) / totalWeight)
+    }
+  }
+
+  const predictions = [...scores.entries()]
+    .map(([breed, confidence]) => ({ breed, confidence: round(confidence) }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, topK)
+
+  const fusedTop = predictions[0]?.breed
+  const topScores = views.map((v) =>
+    VIEW_WEIGHTS[v.view] * (v.predictions.find((p) => p.breed === fusedTop)?.confidence ?? 0)
+  )
+  const topTotal = topScores.reduce((sum, s) => sum + s, 0) || 1
+
+  const contributions = views.map((v, i) => ({
+    image_url: v.image_url,
+    view: v.view,
+    weight: round(VIEW_WEIGHTS[v.view] / totalWeight),
+    top_breed: v.predictions[0]?.breed ?? null,
+    top_confidence: v.predictions[0]?.confidence ?? 0,
+    contribution: round(topScores[i] / topTotal)
+  }))
+
+  const scored = views.filter((v) => typeof v.non_bovine_score === 'number')
+  const scoredWeight = scored.reduce((sum, v) => sum + VIEW_WEIGHTS[v.view], 0)
+  const non_bovine_score = scored.length > 0
+    ? round(scored.reduce((sum, v) => sum + VIEW_WEIGHTS[v.view] * v.non_bovine_score!, 0) / scoredWeight)
+    : null
+
+  return { predictions, contributions, non_bovine_score }
+}
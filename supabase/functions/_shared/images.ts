@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+
+export const IMAGE_BUCKET = 'animal-images'
+
+export type ImageSize = 'thumb' | 'medium' | 'original'
+
+// Longest edge in pixels of each generated rendition
+export const RENDITION_SIZES: Record<Exclude<ImageSize, 'original'>, number> = {
+  thumb: 320,
+  medium: 1024
+}
+
+const RENDITION_QUALITY = 80
+
+// Object path of an animal-images URL from this project, e.g.
+// https://<project>.supabase.co/storage/v1/object/public/animal-images/<user_id>/<file>
+// Records keep this (now unsigned) URL as the image's identifier.
+export const storagePathFromUrl = (imageUrl: string, supabaseUrl: string): string | null => {
+  try {
+    const url = new URL(imageUrl)
+    if (url.origin !== new URL(supabaseUrl).origin) return null
+
+    const parts = url.pathname.split('/').filter(Boolean)
+    const idxBucket = parts.indexOf(IMAGE_BUCKET)
+    if (parts[idxBucket - 2] !== 'object' || parts.length < idxBucket + 3) return null
+
+    const objectPath = decodeURIComponent(parts.slice(idxBucket + 1).join('/'))
+    return objectPath.split('/').includes('..') ? null : objectPath
+  } catch {
+    return null
+  }
+}
+
+// The user folder an object lives in, which decides who may see it
+export const ownerOfPath = (objectPath: string) => objectPath.split('/')[0]
+
+export const downloadImage = async (supabase: SupabaseClient, objectPath: string): Promise<Blob> => {
+  console.log(`Downloading "${objectPath}" from bucket "${IMAGE_BUCKET}"`)
+  const { data, error } = await supabase.storage.from(IMAGE_BUCKET).download(objectPath)
+  if (error || !data) {
+    throw new Error(`Failed to download image: ${error?.message ?? 'not found'}`)
+  }
+  return data
+}
+
+// <user_id>/renditions/<size>/<rest of the original path>.jpg
+const renditionPath = (objectPath: string, size: Exclude<ImageSize, 'original'>) => {
+  const [owner, ...rest] = objectPath.split('/')
+  return `${owner}/renditions/${size}/${rest.join('/').replace(/\.[^./]+$/, '')}.jpg`
+}
+
+// Returns the path of the requested rendition, generating and storing it on first use.
+// Formats ImageScript can't decode (e.g. WebP) fall back to the original.
+export const ensureRendition = async (
+  supabase: SupabaseClient,
+  objectPath: string,
+  size: ImageSize
+): Promise<string> => {
+  if (size === 'original') return objectPath
+
+  const path = renditionPath(objectPath, size)
+  const storage = supabase.storage.from(IMAGE_BUCKET)
+
+  const { data: existing } = await storage.list(path.slice(0, path.lastIndexOf('/')), {
+    search: path.slice(path.lastIndexOf('/') + 1)
+  })
+  if (existing?.some((file) => path.endsWith(`/${file.name}`))) return path
+
+  const { data: original, error: downloadError } = await storage.download(objectPath)
+  if (downloadError || !original) {
+    throw new Error(`Failed to download ${objectPath}: ${downloadError?.message ?? 'not found'}`)
+  }
+
+  let image: Image
+  try {
+    image = await Image.decode(new Uint8Array(await original.arrayBuffer())) as Image
+  } catch (error) {
+    console.warn(`Cannot create ${size} rendition of ${objectPath}, using the original:`, (error as Error).message)
+    return objectPath
+  }
+
+  const maxEdge = RENDITION_SIZES[size]
+  const scale = Math.min(1, maxEdge / image.width, maxEdge / image.height)
+  if (scale < 1) {
+    image.resize(Math.round(image.width * scale), Math.round(image.height * scale))
+  }
+
+  const { error: uploadError } = await storage.upload(path, await image.encodeJPEG(RENDITION_QUALITY), {
+    contentType: 'image/jpeg',
+    upsert: true
+  })
+  if (uploadError) {
+    throw new Error(`Failed to store ${size} rendition: ${uploadError.message}`)
+  }
+
+  return path
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { getInferenceProvider, type InferenceProvider, type ProviderConfig } from './providers.ts'
+
+export type ModelStatus = 'active' | 'shadow' | 'retired'
+
+export interface RegisteredModel {
+  id: string
+  name: string
+  version: string
+  provider: string
+  config: ProviderConfig
+  status: ModelStatus
+}
+
+export interface ModelRunner {
+  // null when no model is registered and the INFERENCE_PROVIDER secret is used
+  model: RegisteredModel | null
+  provider: InferenceProvider
+  // Stored as breed_predictions.model_version; registered models are named by the registry
+  versionLabel: (providerVersion: string) => string
+}
+
+const runnerFor = (model: RegisteredModel): ModelRunner => ({
+  model,
+  provider: getInferenceProvider(model.provider, model.config || {}),
+  versionLabel: () => `${model.name}@${model.version}`
+})
+
+// The active model plus any shadow models. Without an active registered model the
+// INFERENCE_PROVIDER secret keeps answering, so the registry can be introduced gradually.
+export const loadModelRunners = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from('models')
+    .select('id, name, version, provider, config, status')
+    .in('status', ['active', 'shadow'])
+
+  if (error) {
+    console.error('Error loading model registry:', error)
+  }
+
+  const models = (data || []) as RegisteredModel[]
+  const activeModel = models.find((m) => m.status === 'active')
+
+  const active: ModelRunner = activeModel
+    ? runnerFor(activeModel)
+    : { model: null, provider: getInferenceProvider(), versionLabel: (providerVersion) => providerVersion }
+
+  // A misconfigured shadow model must never break the user-facing classification
+  const shadows: ModelRunner[] = []
+  for (const model of models.filter((m) => m.status === 'shadow')) {
+    try {
+      shadows.push(runnerFor(model))
+    } catch (error) {
+      console.error(`Skipping shadow model ${model.name}@${model.version}:`, (error as Error).message)
+    }
+  }
+
+  return { active, shadows }
+}
@@ -0,0 +1,27 @@
+// PostgREST returns at most max_rows (1000 by default) per request, whatever .limit() asks for
+export const PAGE_SIZE = 1000
+
+interface PageResult<T> {
+  data: T[] | null
+  error: { message: string } | null
+}
+
+// Reads a query page by page with .range() until a short page comes back or `max` rows are read.
+// `page` must build a fresh, stably ordered query for each call.
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  max = Infinity
+): Promise<PageResult<T>> => {
+  const rows: T[] = []
+
+  while (rows.length < max) {
+    const size = Math.min(PAGE_SIZE, max - rows.length)
+    const { data, error } = await page(rows.length, rows.length + size - 1)
+    if (error) return { data: null, error }
+
+    rows.push(...(data || []))
+    if (!data || data.length < size) break
+  }
+
+  return { data: rows, error: null }
+}
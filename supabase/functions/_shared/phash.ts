@@ -0,0 +1,75 @@
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+import type { BoundingBox } from './schemas.ts'
+
+// Photos whose hashes differ in at most this many of the 64 bits are treated as the same photo
+// (re-saved, resized or lightly cropped copies)
+export const DUPLICATE_MAX_DISTANCE = 8
+
+const SAMPLE_SIZE = 32
+const HASH_SIZE = 8
+
+// 1-D DCT-II coefficients, computed once
+const cosines = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE)))
+)
+
+// DCT perceptual hash as 16 hex characters: the photo (or the animal's box in it) is shrunk to
+// 32x32 greyscale and each of the 64 lowest frequencies is compared with their median.
+// Returns null for formats ImageScript can't decode.
+export const perceptualHash = async (image: Blob, crop: BoundingBox | null = null): Promise<string | null> => {
+  let decoded: Image
+  try {
+    decoded = await Image.decode(new Uint8Array(await image.arrayBuffer())) as Image
+  } catch (error) {
+    console.warn('Cannot hash image:', (error as Error).message)
+    return null
+  }
+
+  if (crop) {
+    const x = Math.floor(crop.x * decoded.width)
+    const y = Math.floor(crop.y * decoded.height)
+    decoded.crop(
+      x,
+      y,
+      Math.max(1, Math.min(decoded.width - x, Math.round(crop.width * decoded.width))),
+      Math.max(1, Math.min(decoded.height - y, Math.round(crop.height * decoded.height)))
+    )
+  }
+  decoded.resize(SAMPLE_SIZE, SAMPLE_SIZE)
+
+  const grey: number[][] = []
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    const row: number[] = []
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const [r, g, b] = Image.colorToRGB(decoded.getPixelAt(x + 1, y + 1))
+      row.push(0.299 * r + 0.587 * g + 0.114 * b)
+    }
+    grey.push(row)
+  }
+
+  const coefficients: number[] = []
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum += grey[y][x] * cosines[u][y] * cosines[v][x]
+        }
+      }
+      coefficients.push(sum)
+    }
+  }
+
+  // The DC term is overall brightness; leaving it out of the median keeps the hash stable under exposure changes
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)]
+
+  let hex = ''
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0)
+    }
+    hex += nibble.toString(16)
+  }
+  return hex
+}
@@ -0,0 +1,198 @@
+import { HfInference } from 'https://esm.sh/@huggingface/inference@2.3.2'
+import * as ort from 'https://esm.sh/onnxruntime-web@1.17.3'
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+import {
+  IMAGENET_MEAN,
+  IMAGENET_STD,
+  nonBovineScore,
+  rankPredictions,
+  softmax,
+  type BreedPrediction
+} from './breeds.ts'
+
+export type { BreedPrediction }
+
+export type AnimalType = 'cattle' | 'buffalo'
+
+export interface ProviderResult {
+  predictions: BreedPrediction[]
+  model_version: string
+  // Score of the model's "not cattle or buffalo" class; null when the model has none
+  non_bovine_score?: number | null
+}
+
+export interface InferenceProvider {
+  name: string
+  classify(image: Blob, animalType: AnimalType): Promise<ProviderResult>
+}
+
+// Endpoint settings of a registered model (models.config); anything missing falls back to the secrets below.
+// Credentials always stay in secrets.
+export type ProviderConfig = Record<string, unknown>
+
+const requireSetting = (config: ProviderConfig, key: string, envName: string) => {
+  const value = config[key] ?? Deno.env.get(envName)
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`${envName} (or "${key}" in the model config) must be set for the configured inference provider`)
+  }
+  return String(value)
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new Error(`${name} must be set for the configured inference provider`)
+  }
+  return value
+}
+
+// Fixed predictions, kept for local development and tests
+const mockProvider: InferenceProvider = {
+  name: 'mock',
+  classify(_image, animalType) {
+    const predictions = animalType === 'buffalo'
+      ? [
+          { breed: 'murrah', confidence: 0.78 },
+          { breed: 'nili_ravi', confidence: 0.15 },
+          { breed: 'surti', confidence: 0.07 }
+        ]
+      : [
+          { breed: 'gir', confidence: 0.85 },
+          { breed: 'sahiwal', confidence: 0.12 },
+          { breed: 'jersey_cross', confidence: 0.03 }
+        ]
+
+    return Promise.resolve({ predictions, model_version: 'mock' })
+  }
+}
+
+// FastAPI proxy in api/server.py (POST /predict with a multipart "file" field)
+const fastApiProvider = (config: ProviderConfig): InferenceProvider => ({
+  name: 'fastapi',
+  async classify(image) {
+    const baseUrl = requireSetting(config, 'api_url', 'INFERENCE_API_URL').replace(/\/+$/, '')
+
+    const form = new FormData()
+    form.append('file', image, `upload.${(image.type.split('/')[1] || 'jpg')}`)
+
+    const response = await fetch(`${baseUrl}/predict`, { method: 'POST', body: form })
+    if (!response.ok) {
+      throw new Error(`Inference API failed: ${response.status} ${await response.text()}`)
+    }
+
+    const data = await response.json()
+    const topK: Array<{ breed: string; confidence: number }> = data.top_k?.length
+      ? data.top_k
+      : [{ breed: data.breed, confidence: data.confidence }]
+    const scores = topK.map((p) => ({ label: p.breed, score: p.confidence }))
+
+    return {
+      predictions: rankPredictions(scores),
+      non_bovine_score: nonBovineScore(scores),
+      model_version: data.model_version || Deno.env.get('INFERENCE_API_MODEL_VERSION') || 'fastapi'
+    }
+  }
+})
+
+// Hugging Face hosted image-classification model
+let hf: HfInference | null = null
+
+const huggingFaceProvider = (config: ProviderConfig): InferenceProvider => ({
+  name: 'huggingface',
+  async classify(image) {
+    const model = requireSetting(config, 'model_id', 'HF_MODEL_ID')
+    hf ??= new HfInference(requireEnv('HUGGING_FACE_ACCESS_TOKEN'))
+
+    const output = await hf.imageClassification({ data: image, model })
+
+    return {
+      predictions: rankPredictions(output),
+      non_bovine_score: nonBovineScore(output),
+      model_version: `huggingface:${model}`
+    }
+  }
+})
+
+// Local ONNX stand-in: an exported classifier run with onnxruntime-web (WASM) inside the function
+
+// One session per model URL, so a shadow model can run next to the active one
+const onnxSessions = new Map<string, Promise<ort.InferenceSession>>()
+
+export const loadOnnxSession = (modelUrl: string) => {
+  if (!onnxSessions.has(modelUrl)) {
+    ort.env.wasm.numThreads = 1
+    onnxSessions.set(modelUrl, fetch(modelUrl)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch ONNX model: ${response.status} ${response.statusText}`)
+        }
+        return response.arrayBuffer()
+      })
+      .then((buffer) => ort.InferenceSession.create(new Uint8Array(buffer)))
+      .catch((error) => {
+        onnxSessions.delete(modelUrl)
+        throw error
+      }))
+  }
+  return onnxSessions.get(modelUrl)!
+}
+
+export const toInputTensor = async (image: Blob, size: number) => {
+  const decoded = await Image.decode(new Uint8Array(await image.arrayBuffer()))
+  decoded.resize(size, size)
+
+  const pixels = size * size
+  const data = new Float32Array(3 * pixels)
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const [r, g, b] = Image.colorToRGB(decoded.getPixelAt(x + 1, y + 1))
+      const i = y * size + x
+      data[i] = (r / 255 - IMAGENET_MEAN[0]) / IMAGENET_STD[0]
+      data[pixels + i] = (g / 255 - IMAGENET_MEAN[1]) / IMAGENET_STD[1]
+      data[2 * pixels + i] = (b / 255 - IMAGENET_MEAN[2]) / IMAGENET_STD[2]
+    }
+  }
+
+  return new ort.Tensor('float32', data, [1, 3, size, size])
+}
+
+const onnxProvider = (config: ProviderConfig): InferenceProvider => ({
+  name: 'onnx',
+  async classify(image) {
+    const modelUrl = requireSetting(config, 'model_url', 'ONNX_MODEL_URL')
+    const labels = requireSetting(config, 'labels', 'ONNX_LABELS').split(',').map((label) => label.trim())
+    const inputSize = parseInt(String(config.input_size ?? Deno.env.get('ONNX_INPUT_SIZE') ?? '224'))
+
+    const session = await loadOnnxSession(modelUrl)
+    const input = await toInputTensor(image, inputSize)
+    const output = await session.run({ [session.inputNames[0]]: input })
+    const probabilities = softmax(output[session.outputNames[0]].data as Float32Array)
+    const scores = labels.map((label, i) => ({ label, score: probabilities[i] ?? 0 }))
+
+    return {
+      predictions: rankPredictions(scores),
+      non_bovine_score: nonBovineScore(scores),
+      model_version: `onnx:${Deno.env.get('ONNX_MODEL_VERSION') || modelUrl.split('/').pop()}`
+    }
+  }
+})
+
+const providers: Record<string, (config: ProviderConfig) => InferenceProvider> = {
+  mock: () => mockProvider,
+  fastapi: fastApiProvider,
+  huggingface: huggingFaceProvider,
+  onnx: onnxProvider
+}
+
+// Selected with the INFERENCE_PROVIDER secret (mock | fastapi | huggingface | onnx), or by a registered model
+export const getInferenceProvider = (name = Deno.env.get('INFERENCE_PROVIDER'), config: ProviderConfig = {}) => {
+  if (!name) {
+    throw new Error('No inference provider configured (INFERENCE_PROVIDER is not set)')
+  }
+
+  const provider = providers[name.toLowerCase()]
+  if (!provider) {
+    throw new Error(`Unknown inference provider "${name}". Expected one of: ${Object.keys(providers).join(', ')}`)
+  }
+  return provider(config)
+}
@@ -0,0 +1,26 @@
+// animal_records columns returned to clients. The 512-float embedding and its model name are
+// only read server-side, so record lists select these instead of '*'
+export const RECORD_COLUMNS = [
+  'id',
+  'user_id',
+  'animal_id',
+  'animal_type',
+  'farmer_id',
+  'predicted_breed',
+  'manual_breed',
+  'final_breed',
+  'confidence_score',
+  'prediction_outcome',
+  'authoritative_prediction_id',
+  'verification_status',
+  'verification_reason',
+  'verified_by',
+  'verified_at',
+  'image_url',
+  'notes',
+  'owner_details',
+  'location_data',
+  'updated_by',
+  'created_at',
+  'updated_at'
+].join(', ')
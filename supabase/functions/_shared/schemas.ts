@@ -0,0 +1,125 @@
+// Validation shared by the React capture forms and the edge functions.
+// The frontend resolves "zod" from node_modules, the functions through supabase/functions/import_map.json.
+import { z } from 'zod'
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).optional().nullable().transform((value) => value || null)
+
+// Indian mobile numbers, with or without the +91 prefix
+export const PHONE_PATTERN = /^(\+91[\s-]?)?[6-9]\d{9}$/
+
+export const farmerSchema = z.object({
+  name: z.string().trim().min(2, 'Enter the farmer\'s full name').max(100),
+  phone: z.string().trim()
+    .regex(PHONE_PATTERN, 'Enter a 10 digit mobile number')
+    .optional().nullable()
+    .or(z.literal('').transform(() => null)),
+  village: z.string().trim().min(1, 'Village is required').max(100),
+  tehsil: optionalText(100),
+  district: z.string().trim().min(1, 'District is required').max(100),
+  state: z.string().trim().min(1, 'State is required').max(100),
+})
+
+export type FarmerInput = z.input<typeof farmerSchema>
+export type Farmer = z.output<typeof farmerSchema>
+
+// Snapshot of the farmer kept on animal_records.owner_details, so exports still work if the farmer is edited
+export const ownerDetailsSchema = farmerSchema.partial().extend({
+  farmer_id: z.string().uuid().optional().nullable(),
+  name: z.string().trim().min(1).max(100),
+})
+
+export type OwnerDetails = z.output<typeof ownerDetailsSchema>
+
+export const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  // Radius in metres reported by the device
+  accuracy_m: z.number().nonnegative().optional().nullable(),
+  captured_at: z.string().datetime().optional().nullable(),
+  source: z.enum(['device', 'exif', 'manual']).default('device'),
+})
+
+export type LocationData = z.output<typeof locationSchema>
+
+export const QUALITY_CHECKS = ['blur', 'exposure', 'resolution', 'aspect'] as const
+
+// Photo quality measured in the browser before upload; stored per view on breed_predictions.quality_scores
+export const imageQualitySchema = z.object({
+  level: z.enum(['ok', 'warn', 'block']),
+  issues: z.array(z.enum(QUALITY_CHECKS)).max(QUALITY_CHECKS.length),
+  // Variance of the Laplacian; low means blurry
+  blur: z.number().nonnegative(),
+  // Mean luminance 0-255 and the share of nearly black / white pixels
+  brightness: z.number().min(0).max(255),
+  dark_fraction: z.number().min(0).max(1),
+  bright_fraction: z.number().min(0).max(1),
+  // Of the original photo, before downscaling
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  aspect_ratio: z.number().positive(),
+})
+
+export type ImageQuality = z.output<typeof imageQualitySchema>
+
+// Provisional result of the in-browser classifier, uploaded with the capture when it syncs
+export const onDevicePredictionSchema = z.object({
+  predictions: z.array(z.object({
+    breed: z.string().regex(/^[a-z_]+$/),
+    confidence: z.number().min(0).max(1),
+  })).min(1).max(10),
+  model_version: z.string().trim().min(1).max(100),
+  processing_time_ms: z.number().int().nonnegative().optional().nullable(),
+  created_at: z.string().datetime().optional().nullable(),
+})
+
+export type OnDevicePrediction = z.output<typeof onDevicePredictionSchema>
+
+// Bounding box as fractions of the image: top-left corner, width and height
+export const boundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+})
+
+export type BoundingBox = z.output<typeof boundingBoxSchema>
+
+// One object found by a detector, e.g. the "detect" step of the Roboflow detect-and-classify workflow
+export const detectionSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  score: z.number().min(0).max(1),
+  box: boundingBoxSchema,
+})
+
+export type Detection = z.output<typeof detectionSchema>
+
+// Stored per view on breed_predictions.detections; crop is the box that was classified
+export interface ViewDetections {
+  image_url: string
+  view: string
+  detections: Detection[]
+  crop: BoundingBox | null
+}
+
+// Backends a registered model can run on; see _shared/providers.ts
+export const MODEL_PROVIDERS = ['mock', 'fastapi', 'huggingface', 'onnx'] as const
+export const MODEL_STATUSES = ['active', 'shadow', 'retired'] as const
+
+// A row of the models registry. config holds endpoint settings only; credentials stay in function secrets.
+export const modelSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  version: z.string().trim().min(1, 'Version is required').max(50),
+  provider: z.enum(MODEL_PROVIDERS),
+  config: z.record(z.union([z.string(), z.number()])).default({}),
+  status: z.enum(MODEL_STATUSES).default('shadow'),
+  notes: optionalText(500),
+  // The dataset snapshot the model was trained on
+  dataset_snapshot_id: z.string().uuid().optional().nullable(),
+})
+
+export type ModelInput = z.input<typeof modelSchema>
+
+// Flattens zod issues into { field: message } for API errors and form messages
+export const fieldErrors = (error: z.ZodError) =>
+  Object.fromEntries(error.issues.map((issue) => [issue.path.join('.') || 'root', issue.message]))
@@ -1,6 +1,25 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
-import { HfInference } from 'https://esm.sh/@huggingface/inference@2.3.2'
+import type { AnimalType } from '../_shared/providers.ts'
+import { fuseViewPredictions, IMAGE_VIEWS, type ImageView, type ViewPrediction } from '../_shared/fusion.ts'
+import {
+  detectionSchema,
+  fieldErrors,
+  imageQualitySchema,
+  locationSchema,
+  onDevicePredictionSchema,
+  ownerDetailsSchema,
+  type Detection,
+  type ImageQuality
+} from '../_shared/schemas.ts'
+import { FarmerValidationError, findOrCreateFarmer, getOwnFarmer, ownerDetailsFromFarmer } from '../_shared/farmers.ts'
+import { downloadImage, IMAGE_BUCKET, storagePathFromUrl } from '../_shared/images.ts'
+import { getDetectionProvider } from '../_shared/detection.ts'
+import { classifyView, classifyViews, loadThresholds, predictionFields } from '../_shared/classification.ts'
+import { loadModelRunners, type ModelRunner } from '../_shared/models.ts'
+import { perceptualHash } from '../_shared/phash.ts'
+import { flagDuplicates } from '../_shared/duplicates.ts'
+import { getEmbeddingProvider, storeRecordEmbedding } from '../_shared/embeddings.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,8 +31,62 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-// Initialize Hugging Face client
-const hf = new HfInference(Deno.env.get('HUGGING_FACE_ACCESS_TOKEN'))
+const MAX_IMAGES = 4
+const MAX_DETECTIONS = 50
+
+// Supabase Edge Runtime global: keeps the worker alive for work finished after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+interface ShadowView {
+  image_url: string
+  view: ImageView
+  image: Blob
+  detections: Detection[] | null
+}
+
+// Runs a shadow model on the photos the active model just classified and logs its answer
+// next to the active prediction. Failures are only logged; users never see shadow output.
+const runShadowModel = async (
+  shadow: ModelRunner,
+  views: ShadowView[],
+  animalType: AnimalType,
+  animalRecordId: string,
+  activePredictionId: string
+) => {
+  const startTime = Date.now()
+  try {
+    const results = await Promise.all(views.map((v) =>
+      classifyView(shadow.provider, null, v, animalType)
+    ))
+    const { predictions, contributions, non_bovine_score } = fuseViewPredictions(views.map((v, i) => ({
+      image_url: v.image_url,
+      view: v.view,
+      predictions: results[i].predictions,
+      non_bovine_score: results[i].non_bovine_score
+    })))
+
+    const { error } = await supabase
+      .from('breed_predictions')
+      .insert({
+        animal_record_id: animalRecordId,
+        image_url: views[0].image_url,
+        predicted_breeds: predictions,
+        view_contributions: contributions,
+        non_bovine_score,
+        model_version: shadow.versionLabel(results[0].model_version),
+        processing_time_ms: Date.now() - startTime,
+        source: 'shadow',
+        model_id: shadow.model?.id ?? null,
+        shadow_of: activePredictionId
+      })
+
+    if (error) {
+      console.error(`Error logging shadow prediction for ${shadow.model?.name}:`, error)
+    }
+  } catch (error) {
+    console.error(`Shadow model ${shadow.model?.name}@${shadow.model?.version} failed:`, (error as Error).message)
+  }
+}
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -22,79 +95,208 @@ serve(async (req) => {
   }
 
   try {
-    const { image_url, animal_id, user_id, animal_type } = await req.json()
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const {
+      image_url,
+      view,
+      images,
+      animal_id,
+      user_id: requestedUserId,
+      animal_type,
+      location_data,
+      owner_details,
+      farmer_id,
+      farmer,
+      on_device_prediction
+    } = await req.json()
 
-    if (!image_url || !animal_id || !user_id || !animal_type) {
+    // Accept either several views ({ images: [{ image_url, view }] }) or a single image_url
+    const views: Array<{
+      image_url: string
+      view: ImageView
+      quality?: ImageQuality | null
+      detections?: unknown
+    }> = Array.isArray(images) && images.length > 0
+      ? images.map((img: { image_url: string; view?: string; quality?: unknown; detections?: unknown }) => {
+          // Quality scores are informational; malformed ones are dropped rather than failing the capture
+          const quality = imageQualitySchema.safeParse(img.quality)
+          return {
+            image_url: img.image_url,
+            view: IMAGE_VIEWS.includes(img.view as ImageView) ? img.view as ImageView : 'other',
+            quality: quality.success ? quality.data : null,
+            detections: img.detections
+          }
+        })
+      : image_url
+        ? [{ image_url, view: IMAGE_VIEWS.includes(view) ? view : 'other' }]
+        : []
+
+    if (views.length === 0 || !animal_id || !animal_type) {
       return new Response(
-        JSON.stringify({ error: 'Missing required fields: image_url, animal_id, user_id, animal_type' }),
+        JSON.stringify({ error: 'Missing required fields: image_url or images, animal_id, animal_type' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       )
     }
 
-    console.log(`Processing breed classification for animal ${animal_id} of type ${animal_type}`)
-    console.log(`Image URL: ${image_url}`)
-    
-    const startTime = Date.now()
+    // Records always belong to the signed-in user; older clients still send user_id
+    if (requestedUserId && requestedUserId !== user.id) {
+      return new Response(
+        JSON.stringify({ error: 'Cannot classify animals for another user' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+    const user_id = user.id
+
+    if (views.length > MAX_IMAGES) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_IMAGES} images can be classified per animal` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
 
-    // Validate image URL
-    if (!image_url || !image_url.startsWith('http')) {
-      throw new Error('Invalid image URL provided')
+    // Every image must be one the user uploaded to their own folder
+    const objectPaths = views.map((v) => storagePathFromUrl(v.image_url, supabaseUrl))
+    if (objectPaths.some((path) => !path || !path.startsWith(`${user_id}/`))) {
+      return new Response(
+        JSON.stringify({ error: `Images must be uploaded to your own folder in the ${IMAGE_BUCKET} bucket` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    // Detector output sent with a view (e.g. from the detect-and-classify workflow) replaces server-side detection
+    const providedDetections: Array<Detection[] | null> = []
+    for (const v of views) {
+      if (v.detections === undefined || v.detections === null) {
+        providedDetections.push(null)
+        continue
+      }
+      const parsed = detectionSchema.array().max(MAX_DETECTIONS).safeParse(v.detections)
+      if (!parsed.success) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid detections', code: 'validation_error', fields: fieldErrors(parsed.error) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+      providedDetections.push(parsed.data)
+    }
+
+    // Owner and location are optional, but must be well-formed when sent
+    const captureDetails: Record<string, unknown> = {}
+
+    if (location_data) {
+      const location = locationSchema.safeParse(location_data)
+      if (!location.success) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid location data', code: 'validation_error', fields: fieldErrors(location.error) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+      captureDetails.location_data = location.data
     }
 
-    // Obtain image blob - prefer Storage download for private buckets, fallback to HTTP fetch
-    let imageBlob: Blob | null = null
     try {
-      const url = new URL(image_url)
-      const parts = url.pathname.split('/').filter(Boolean)
-      const idxPublic = parts.indexOf('public')
-      if (idxPublic >= 0 && parts[idxPublic + 1]) {
-        const bucketId = parts[idxPublic + 1]
-        const objectPath = parts.slice(idxPublic + 2).join('/')
-        console.log(`Attempting storage download from bucket "${bucketId}" path "${objectPath}"`)
-        const { data, error } = await supabase.storage.from(bucketId).download(objectPath)
-        if (error) {
-          console.warn('Storage download failed, will fallback to HTTP fetch:', error.message)
-        } else {
-          imageBlob = data
+      // An existing farmer, new farmer details (from an offline capture), or a bare owner snapshot
+      const ownerFarmer = farmer_id
+        ? await getOwnFarmer(supabase, user_id, farmer_id)
+        : farmer ? await findOrCreateFarmer(supabase, user_id, farmer) : null
+
+      if (farmer_id && !ownerFarmer) {
+        return new Response(
+          JSON.stringify({ error: 'Farmer not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      if (ownerFarmer) {
+        captureDetails.farmer_id = ownerFarmer.id
+        captureDetails.owner_details = ownerDetailsFromFarmer(ownerFarmer)
+      } else if (owner_details) {
+        const owner = ownerDetailsSchema.safeParse(owner_details)
+        if (!owner.success) {
+          throw new FarmerValidationError(fieldErrors(owner.error))
         }
+        captureDetails.owner_details = owner.data
+      }
+    } catch (farmerError) {
+      if (farmerError instanceof FarmerValidationError) {
+        return new Response(
+          JSON.stringify({ error: farmerError.message, code: 'validation_error', fields: farmerError.fields }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
       }
-    } catch (e) {
-      console.warn('Could not parse storage URL, will fallback to HTTP fetch:', (e as Error).message)
+      throw farmerError
     }
 
-    if (!imageBlob) {
-      console.log('Fetching image via HTTP...')
-      const imageResponse = await fetch(image_url, { headers: { 'Cache-Control': 'no-cache' } })
-      if (!imageResponse.ok) {
-        throw new Error(`Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`)
-      }
-      imageBlob = await imageResponse.blob()
+    console.log(`Processing breed classification for animal ${animal_id} of type ${animal_type} (${views.length} view(s))`)
+
+    const startTime = Date.now()
+
+    // Find the animal in each view, then run the active model on the crop
+    const { active, shadows } = await loadModelRunners(supabase)
+    const detector = getDetectionProvider()
+    console.log(`Running inference with provider "${active.provider.name}"${active.model ? ` (model ${active.model.name}@${active.model.version})` : ''}, detector "${detector?.name ?? 'none'}", ${shadows.length} shadow model(s)`)
+
+    // Images are always read from Storage, never fetched from a caller-supplied host
+    const blobs = await Promise.all(objectPaths.map((path) => downloadImage(supabase, path!)))
+
+    const { results, missing: noAnimal, notBovine } = await classifyViews(active.provider, detector, views.map((v, i) => ({
+      image_url: v.image_url,
+      view: v.view,
+      image: blobs[i],
+      detections: providedDetections[i]
+    })), animal_type as AnimalType)
+
+    // An animal in some views but not others means those photos missed it and need retaking
+    if (noAnimal.length > 0 && !notBovine) {
+      return new Response(
+        JSON.stringify({
+          error: `No animal found in the ${noAnimal[0].view.replace('_', ' ')} photo. Retake it with the whole animal in frame.`,
+          code: 'no_animal_found',
+          image_url: noAnimal[0].imageUrl,
+          view: noAnimal[0].view
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+      )
     }
 
-    console.log(`Image obtained successfully, size: ${imageBlob.size} bytes, type: ${imageBlob.type}`)
+    // No cattle or buffalo in any photo: the record is stored as not_bovine without a model run
+    const model_version = notBovine ? results[0].model_version : active.versionLabel(results[0].model_version)
+    const viewPredictions: ViewPrediction[] = views.map((v, i) => ({
+      ...v,
+      predictions: results[i].predictions,
+      non_bovine_score: results[i].non_bovine_score
+    }))
+
+    const { predictions, contributions, non_bovine_score } = fuseViewPredictions(viewPredictions)
 
-    // Skip Hugging Face API call for now and use mock predictions
-    console.log('Using mock predictions instead of HF API')
-    
     const processingTime = Date.now() - startTime
 
-    // Mock breed predictions based on animal type (replace with actual model results)
-    let predictions = []
-    if (animal_type === 'cattle') {
-      predictions = [
-        { breed: 'gir', confidence: 0.85 },
-        { breed: 'sahiwal', confidence: 0.12 },
-        { breed: 'jersey_cross', confidence: 0.03 }
-      ]
-    } else if (animal_type === 'buffalo') {
-      predictions = [
-        { breed: 'murrah', confidence: 0.78 },
-        { breed: 'nili_ravi', confidence: 0.15 },
-        { breed: 'surti', confidence: 0.07 }
-      ]
-    }
+    // Empty when the model only returned labels outside the catalog; the outcome is then unknown_breed
+    const topPrediction = predictions[0] ?? null
+    const primaryImageUrl = views[0].image_url
 
-    const topPrediction = predictions[0]
+    const thresholds = await loadThresholds(supabase, animal_type)
+    const fields = predictionFields(predictions, thresholds, non_bovine_score)
+    const outcome = fields.prediction_outcome
 
     // Create or update animal record
     const { data: animalRecord, error: recordError } = await supabase
@@ -103,10 +305,12 @@ serve(async (req) => {
         user_id,
         animal_id,
         animal_type,
-        predicted_breed: topPrediction.breed,
-        confidence_score: topPrediction.confidence,
-        image_url,
-        verification_status: 'pending'
+        ...fields,
+        image_url: primaryImageUrl,
+        verification_status: 'pending',
+        updated_by: user_id,
+        // Only overwrite capture details that were actually sent
+        ...captureDetails
       }, {
         onConflict: 'animal_id,user_id'
       })
@@ -121,32 +325,157 @@ serve(async (req) => {
       )
     }
 
+    // Hash the animal as classified, so herd mates cut from one photo don't match each other
+    const hashes = await Promise.all(blobs.map((blob, i) => perceptualHash(blob, results[i].detections?.crop ?? null)))
+
+    // Store every view with its own prediction, replacing views from an earlier capture
+    const { error: clearError } = await supabase.from('animal_images').delete().eq('animal_record_id', animalRecord.id)
+
+    // Inserting on top of the old views would fuse and hash stale photos with the new ones
+    if (clearError) {
+      console.error('Error replacing animal images:', clearError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to replace stored images', details: clearError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const { error: imagesError } = await supabase
+      .from('animal_images')
+      .insert(viewPredictions.map((v, i) => ({
+        animal_record_id: animalRecord.id,
+        user_id,
+        image_url: v.image_url,
+        view: v.view,
+        position: i,
+        predicted_breeds: v.predictions,
+        weight: contributions[i].weight,
+        phash: hashes[i]
+      })))
+
+    if (imagesError) {
+      console.error('Error storing animal images:', imagesError)
+    }
+
+    // The same photo stored for other animals of this worker or district
+    const duplicates = imagesError ? [] : await flagDuplicates(supabase, animalRecord.id)
+    if (duplicates.length > 0) {
+      console.warn(`Animal ${animal_id} has ${duplicates.length} possible duplicate(s): ${duplicates.map((d) => d.matched_animal_id).join(', ')}`)
+    }
+
+    // Embeddings for similarity search don't delay the response, and a failing encoder doesn't fail the capture
+    if (!imagesError) {
+      EdgeRuntime.waitUntil((async () => {
+        const embedder = getEmbeddingProvider()
+        if (!embedder) return
+        await storeRecordEmbedding(supabase, embedder, animalRecord.id, views.map((v, i) => ({
+          image_url: v.image_url,
+          blob: blobs[i],
+          crop: results[i].detections?.crop ?? null
+        })))
+      })().catch((error) => console.error(`Embedding failed for record ${animalRecord.id}:`, error)))
+    }
+
     // Log the prediction
-    const { error: logError } = await supabase
+    const { data: loggedPrediction, error: logError } = await supabase
       .from('breed_predictions')
       .insert({
         animal_record_id: animalRecord.id,
-        image_url,
+        image_url: primaryImageUrl,
         predicted_breeds: predictions,
-        model_version: 'resnet-50-v1.0',
-        processing_time_ms: processingTime
+        view_contributions: contributions,
+        non_bovine_score,
+        quality_scores: views.some((v) => v.quality)
+          ? views.map((v) => ({ image_url: v.image_url, view: v.view, ...v.quality }))
+          : null,
+        detections: results.some((r) => r.detections)
+          ? results.map((r) => r.detections).filter(Boolean)
+          : null,
+        model_version,
+        processing_time_ms: processingTime,
+        model_id: notBovine ? null : active.model?.id ?? null
       })
+      .select('id')
+      .single()
 
     if (logError) {
       console.error('Error logging prediction:', logError)
+    } else {
+      // A new capture makes its own prediction the record's authoritative one
+      const { error: linkError } = await supabase
+        .from('animal_records')
+        .update({ authoritative_prediction_id: loggedPrediction.id })
+        .eq('id', animalRecord.id)
+
+      if (linkError) {
+        console.error('Error linking authoritative prediction:', linkError)
+      }
+
+      // Shadow models see the same crops as the active model and don't delay the response
+      if (shadows.length > 0 && !notBovine) {
+        const shadowViews = views.map((v, i) => ({
+          image_url: v.image_url,
+          view: v.view,
+          image: blobs[i],
+          detections: results[i].detections?.detections ?? null
+        }))
+        EdgeRuntime.waitUntil(Promise.all(shadows.map((shadow) =>
+          runShadowModel(shadow, shadowViews, animal_type as AnimalType, animalRecord.id, loggedPrediction.id)
+        )))
+      }
+    }
+
+    // Keep the provisional in-browser prediction next to this one for comparison
+    if (on_device_prediction) {
+      const onDevice = onDevicePredictionSchema.safeParse(on_device_prediction)
+      if (onDevice.success) {
+        const { error: onDeviceError } = await supabase
+          .from('breed_predictions')
+          .insert({
+            animal_record_id: animalRecord.id,
+            image_url: primaryImageUrl,
+            predicted_breeds: onDevice.data.predictions,
+            model_version: onDevice.data.model_version,
+            processing_time_ms: onDevice.data.processing_time_ms ?? null,
+            source: 'on_device'
+          })
+
+        if (onDeviceError) {
+          console.error('Error logging on-device prediction:', onDeviceError)
+        }
+      } else {
+        console.warn('Ignoring malformed on-device prediction:', fieldErrors(onDevice.error))
+      }
     }
 
-    console.log(`Classification completed in ${processingTime}ms for animal ${animal_id}`)
+    console.log(`Classification completed in ${processingTime}ms for animal ${animal_id} (${outcome})`)
 
     return new Response(
       JSON.stringify({
         success: true,
         animal_record_id: animalRecord.id,
+        farmer_id: animalRecord.farmer_id,
         predictions,
-        top_prediction: {
+        top_prediction: topPrediction && {
           breed: topPrediction.breed,
           confidence: topPrediction.confidence
         },
+        outcome,
+        non_bovine_score,
+        thresholds,
+        // Other workers' animal IDs are only shown to reviewers
+        duplicates: duplicates.map((d) => ({
+          matched_record_id: d.same_worker ? d.matched_record_id : null,
+          matched_animal_id: d.same_worker ? d.matched_animal_id : null,
+          same_worker: d.same_worker,
+          distance: d.distance
+        })),
+        views: contributions.map((c, i) => ({
+          ...c,
+          predictions: viewPredictions[i].predictions,
+          detections: results[i].detections
+        })),
+        model_version,
         processing_time_ms: processingTime
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -159,4 +488,4 @@ serve(async (req) => {
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
     )
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,281 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import type { ViewDetections } from '../_shared/schemas.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_RECORDS = 10000
+const INSERT_BATCH = 500
+const SPLITS = ['train', 'val', 'test'] as const
+const DEFAULT_SPLIT = { train: 0.8, val: 0.1, test: 0.1 }
+
+type Split = typeof SPLITS[number]
+
+interface VerifiedRecord {
+  id: string
+  animal_id: string
+  animal_type: string
+  final_breed: string
+  image_url: string | null
+  animal_images: Array<{ image_url: string; view: string; position: number }> | null
+  authoritative: { detections: ViewDetections[] | null } | null
+}
+
+// Stable pseudo-random order: the same seed always puts a record in the same split
+const hashKey = async (seed: string, id: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${seed}:${id}`))
+  return Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Splits each breed separately so every split has the same breed mix. Whole records are
+// assigned, so the views of one animal never end up on both sides of the split.
+const stratifiedSplit = async (records: VerifiedRecord[], ratios: Record<Split, number>, seed: string) => {
+  const byBreed = new Map<string, Array<{ record: VerifiedRecord; key: string }>>()
+  for (const record of records) {
+    const group = byBreed.get(record.final_breed) ?? []
+    group.push({ record, key: await hashKey(seed, record.id) })
+    byBreed.set(record.final_breed, group)
+  }
+
+  const assignments = new Map<string, Split>()
+  const breedCounts: Record<string, Record<Split, number>> = {}
+
+  for (const [breed, group] of byBreed) {
+    group.sort((a, b) => a.key.localeCompare(b.key))
+    const n = group.length
+    // Rare breeds keep at least one training example
+    let test = Math.round(n * ratios.test)
+    let val = Math.round(n * ratios.val)
+    while (n - test - val < 1 && test + val > 0) {
+      if (test >= val) test--
+      else val--
+    }
+
+    breedCounts[breed] = { train: n - test - val, val, test }
+    group.forEach(({ record }, i) => {
+      assignments.set(record.id, i < test ? 'test' : i < test + val ? 'val' : 'train')
+    })
+  }
+
+  return { assignments, breedCounts }
+}
+
+// Freezes the current verified records into a dataset snapshot; the archive is assembled from it
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role, state, state_key')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profile?.role !== 'district_admin' || !profile.state_key) {
+      return new Response(
+        JSON.stringify({ error: 'Only district admins with a state can export training data' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { name, animal_type, district, date_from, date_to, split, seed } = await req.json().catch(() => ({}))
+
+    if ((date_from && !DATE_PATTERN.test(date_from)) || (date_to && !DATE_PATTERN.test(date_to))) {
+      return new Response(
+        JSON.stringify({ error: 'date_from and date_to must be YYYY-MM-DD' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const ratios: Record<Split, number> = { ...DEFAULT_SPLIT, ...(split || {}) }
+    if (SPLITS.some((s) => typeof ratios[s] !== 'number' || ratios[s] < 0 || ratios[s] > 1)
+      || Math.abs(ratios.train + ratios.val + ratios.test - 1) > 0.001) {
+      return new Response(
+        JSON.stringify({ error: 'split must give train, val and test fractions that add up to 1' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const snapshotSeed = typeof seed === 'string' && seed.trim() ? seed.trim().slice(0, 64) : crypto.randomUUID()
+
+    const recordsQuery = () => {
+      let query = supabase
+        .from('animal_records')
+        .select(`
+          id,
+          animal_id,
+          animal_type,
+          final_breed,
+          image_url,
+          animal_images (
+            image_url,
+            view,
+            position
+          ),
+          authoritative:authoritative_prediction_id (
+            detections
+          ),
+          worker:profiles!animal_records_user_id_profiles_fkey!inner (
+            district_key
+          )
+        `)
+        // Records of every worker in the admin's state, or one district of it
+        .eq('worker.state_key', profile.state_key)
+        .eq('verification_status', 'verified')
+        .not('final_breed', 'is', null)
+        .order('created_at', { ascending: true })
+        .order('id')
+
+      if (district) {
+        query = query.eq('worker.district_key', String(district).trim().toLowerCase())
+      }
+
+      if (animal_type && ['cattle', 'buffalo'].includes(animal_type)) {
+        query = query.eq('animal_type', animal_type)
+      }
+
+      if (date_from) {
+        query = query.gte('created_at', `${date_from}T00:00:00Z`)
+      }
+
+      if (date_to) {
+        query = query.lte('created_at', `${date_to}T23:59:59.999Z`)
+      }
+
+      return query
+    }
+
+    // One row past the cap tells a complete snapshot from a cut-off one
+    const { data, error } = await fetchAllRows((from, to) => recordsQuery().range(from, to), MAX_RECORDS + 1)
+
+    if (error) {
+      console.error('Error fetching verified records:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch verified records', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const records = ((data || []).slice(0, MAX_RECORDS) as unknown as VerifiedRecord[])
+      .filter((r) => r.animal_images?.length || r.image_url)
+
+    if (records.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No verified records with images match these filters' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+      )
+    }
+
+    const { assignments, breedCounts } = await stratifiedSplit(records, ratios, snapshotSeed)
+
+    const items = records.flatMap((record) => {
+      const views = record.animal_images?.length
+        ? [...record.animal_images].sort((a, b) => a.position - b.position)
+        : [{ image_url: record.image_url!, view: 'other', position: 0 }]
+      const detections = record.authoritative?.detections ?? []
+
+      return views.map((v) => ({
+        animal_record_id: record.id,
+        animal_id: record.animal_id,
+        animal_type: record.animal_type,
+        breed: record.final_breed,
+        split: assignments.get(record.id)!,
+        image_url: v.image_url,
+        view: v.view,
+        crop: detections.find((d) => d.image_url === v.image_url)?.crop ?? null
+      }))
+    })
+
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('dataset_snapshots')
+      .insert({
+        created_by: user.id,
+        name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : `verified-${new Date().toISOString().slice(0, 10)}`,
+        filters: {
+          state: profile.state,
+          ...(district ? { district } : {}),
+          ...(animal_type ? { animal_type } : {}),
+          ...(date_from ? { date_from } : {}),
+          ...(date_to ? { date_to } : {})
+        },
+        split_ratios: ratios,
+        seed: snapshotSeed,
+        record_count: records.length,
+        image_count: items.length,
+        breed_counts: breedCounts
+      })
+      .select()
+      .single()
+
+    if (snapshotError) {
+      console.error('Error creating dataset snapshot:', snapshotError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to create dataset snapshot', details: snapshotError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    for (let i = 0; i < items.length; i += INSERT_BATCH) {
+      const { error: itemsError } = await supabase
+        .from('dataset_snapshot_items')
+        .insert(items.slice(i, i + INSERT_BATCH).map((item, j) => ({ ...item, snapshot_id: snapshot.id, position: i + j })))
+
+      if (itemsError) {
+        // A partial snapshot would silently train on less data
+        await supabase.from('dataset_snapshots').delete().eq('id', snapshot.id)
+        console.error('Error storing dataset snapshot items:', itemsError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to store dataset snapshot', details: itemsError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+    }
+
+    console.log(`Dataset snapshot ${snapshot.id}: ${records.length} records, ${items.length} images for user ${user.id}`)
+
+    return new Response(
+      JSON.stringify({ success: true, snapshot, truncated: (data || []).length > MAX_RECORDS }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in create-dataset-snapshot function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
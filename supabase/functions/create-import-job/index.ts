@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const MAX_ROWS = 5000
+const INSERT_CHUNK = 500
+const ANIMAL_TYPES = ['cattle', 'buffalo']
+
+interface ManifestRow {
+  row_number: number
+  animal_id?: string
+  animal_type?: string
+  owner_name?: string
+  village?: string
+  known_breed?: string
+  image_file?: string
+  image_url?: string
+  // Set by the client when the row already failed (missing image, upload error)
+  error?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { file_name, rows } = await req.json() as { file_name?: string, rows?: ManifestRow[] }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'The manifest has no rows' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (rows.length > MAX_ROWS) {
+      return new Response(
+        JSON.stringify({ error: `A single import is limited to ${MAX_ROWS} rows, split the manifest` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: breeds } = await supabase
+      .from('breeds')
+      .select('breed_code, animal_type')
+
+    const breedTypes = new Map((breeds || []).map((b) => [b.breed_code, b.animal_type]))
+    const ownFolder = `/animal-images/${user.id}/`
+    const seenAnimalIds = new Set<string>()
+
+    // Everything that can be checked up front fails here, so the worker only sees classifiable rows
+    const validated = rows.map((row) => {
+      const animalId = row.animal_id?.trim() || null
+      const animalType = row.animal_type?.trim().toLowerCase() || null
+      const knownBreed = row.known_breed?.trim()
+        ? row.known_breed.trim().toLowerCase().replace(/\s+/g, '_')
+        : null
+
+      let error = row.error || null
+      if (!error && !animalId) error = 'animal_id is required'
+      if (!error && (!animalType || !ANIMAL_TYPES.includes(animalType))) error = 'animal_type must be cattle or buffalo'
+      if (!error && seenAnimalIds.has(animalId!)) error = `animal_id ${animalId} appears more than once in the manifest`
+      if (!error && (!row.image_url || !row.image_url.includes(ownFolder))) error = 'Image was not uploaded'
+      if (!error && knownBreed && breedTypes.get(knownBreed) !== animalType) {
+        error = `known_breed "${row.known_breed}" is not a known ${animalType} breed`
+      }
+
+      if (animalId) seenAnimalIds.add(animalId)
+
+      return {
+        user_id: user.id,
+        row_number: row.row_number,
+        animal_id: animalId,
+        animal_type: animalType,
+        owner_name: row.owner_name?.trim() || null,
+        village: row.village?.trim() || null,
+        known_breed: knownBreed,
+        image_file: row.image_file || null,
+        image_url: row.image_url || null,
+        status: error ? 'failed' : 'pending',
+        error
+      }
+    })
+
+    const failedRows = validated.filter((r) => r.status === 'failed').length
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .insert({
+        user_id: user.id,
+        file_name: file_name || null,
+        total_rows: validated.length,
+        failed_rows: failedRows,
+        status: failedRows === validated.length ? 'failed' : 'processing',
+        completed_at: failedRows === validated.length ? new Date().toISOString() : null
+      })
+      .select()
+      .single()
+
+    if (jobError) {
+      console.error('Error creating import job:', jobError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to create import job', details: jobError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    for (let i = 0; i < validated.length; i += INSERT_CHUNK) {
+      const { error: rowsError } = await supabase
+        .from('import_job_rows')
+        .insert(validated.slice(i, i + INSERT_CHUNK).map((r) => ({ ...r, job_id: job.id })))
+
+      if (rowsError) {
+        console.error('Error inserting import rows:', rowsError)
+        await supabase.from('import_jobs').delete().eq('id', job.id)
+        return new Response(
+          JSON.stringify({ error: 'Failed to save manifest rows', details: rowsError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+    }
+
+    console.log(`Import job ${job.id} created by ${user.id} with ${validated.length} rows (${failedRows} rejected)`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in create-import-job function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { animalDetections, getDetectionProvider } from '../_shared/detection.ts'
+import { IMAGE_BUCKET, storagePathFromUrl } from '../_shared/images.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Finds the animals in an uploaded photo so a herd photo can be split into one record per animal
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { image_url } = await req.json().catch(() => ({}))
+
+    if (!image_url) {
+      return new Response(
+        JSON.stringify({ error: 'image_url is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const objectPath = storagePathFromUrl(image_url, supabaseUrl)
+    if (!objectPath || !objectPath.startsWith(`${user.id}/`)) {
+      return new Response(
+        JSON.stringify({ error: `Images must be uploaded to your own folder in the ${IMAGE_BUCKET} bucket` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const detector = getDetectionProvider()
+    if (!detector) {
+      return new Response(
+        JSON.stringify({ error: 'Animal detection is not configured', code: 'detection_unavailable' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 501 }
+      )
+    }
+
+    const { data: image, error: downloadError } = await supabase.storage.from(IMAGE_BUCKET).download(objectPath)
+    if (downloadError || !image) {
+      return new Response(
+        JSON.stringify({ error: 'Image not found', details: downloadError?.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const startTime = Date.now()
+    const detections = animalDetections(await detector.detect(image))
+
+    console.log(`Detected ${detections.length} animal(s) in ${objectPath} in ${Date.now() - startTime}ms`)
+
+    return new Response(
+      JSON.stringify({ success: true, image_url, detector: detector.name, detections }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in detect-animals function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
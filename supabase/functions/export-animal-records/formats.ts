@@ -0,0 +1,261 @@
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1'
+
+type Cell = string | number | null
+
+export interface ExportRecord {
+  id: string
+  animal_id: string
+  animal_type: string
+  predicted_breed: string | null
+  manual_breed: string | null
+  final_breed: string | null
+  confidence_score: number | null
+  prediction_outcome: string
+  verification_status: string | null
+  verification_reason: string | null
+  verified_at: string | null
+  image_url: string | null
+  notes: string | null
+  owner_details: Record<string, unknown> | null
+  location_data: Record<string, unknown> | null
+  created_at: string
+  updated_at: string
+  worker: { full_name: string | null, employee_id: string | null, district: string | null } | null
+}
+
+export interface SummaryOptions {
+  title: string
+  district: string | null
+  dateFrom: string | null
+  dateTo: string | null
+  generatedBy: string
+}
+
+const BASE_COLUMNS = [
+  'animal_id', 'animal_type', 'breed', 'predicted_breed', 'manual_breed', 'final_breed',
+  'confidence_score', 'prediction_outcome', 'verification_status', 'verification_reason', 'verified_at',
+  'worker_name', 'worker_employee_id', 'worker_district', 'notes', 'image_url', 'created_at', 'updated_at'
+]
+
+export const effectiveBreed = (r: ExportRecord) => r.final_breed || r.manual_breed || r.predicted_breed
+
+const formatBreedName = (breed: string | null) =>
+  breed ? breed.split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ') : 'Unknown'
+
+// Nested owner/location JSON becomes owner_name, location_gps_lat, ...; arrays stay as JSON text
+const flattenJson = (prefix: string, value: unknown, out: Record<string, Cell>) => {
+  if (value === null || value === undefined) return
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      flattenJson(`${prefix}_${key}`, nested, out)
+    }
+    return
+  }
+  out[prefix] = Array.isArray(value)
+    ? JSON.stringify(value)
+    : typeof value === 'number' ? value : String(value)
+}
+
+// Header and rows with every column, including one column per owner/location field seen in the export
+export const flattenRecords = (records: ExportRecord[]) => {
+  const flattened = records.map((r) => {
+    const row: Record<string, Cell> = {
+      animal_id: r.animal_id,
+      animal_type: r.animal_type,
+      breed: effectiveBreed(r),
+      predicted_breed: r.predicted_breed,
+      manual_breed: r.manual_breed,
+      final_breed: r.final_breed,
+      confidence_score: r.confidence_score,
+      prediction_outcome: r.prediction_outcome,
+      verification_status: r.verification_status,
+      verification_reason: r.verification_reason,
+      verified_at: r.verified_at,
+      worker_name: r.worker?.full_name ?? null,
+      worker_employee_id: r.worker?.employee_id ?? null,
+      worker_district: r.worker?.district ?? null,
+      notes: r.notes,
+      image_url: r.image_url,
+      created_at: r.created_at,
+      updated_at: r.updated_at
+    }
+    flattenJson('owner', r.owner_details, row)
+    flattenJson('location', r.location_data, row)
+    return row
+  })
+
+  const extra = new Set<string>()
+  for (const row of flattened) {
+    for (const key of Object.keys(row)) {
+      if (!BASE_COLUMNS.includes(key)) extra.add(key)
+    }
+  }
+
+  const header = [...BASE_COLUMNS, ...[...extra].sort()]
+  const rows = flattened.map((row) => header.map((key) => row[key] ?? null))
+  return { header, rows }
+}
+
+// Excel and Sheets run text starting with these as a formula; the leading quote keeps it as plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const neutralizeFormula = (value: Cell): Cell =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value
+
+const toSheet = (rows: Cell[][]) => XLSX.utils.aoa_to_sheet(rows.map((r) => r.map(neutralizeFormula)))
+
+const escapeCsv = (value: Cell) => {
+  const text = value === null ? '' : String(neutralizeFormula(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const buildCsv = (records: ExportRecord[]) => {
+  const { header, rows } = flattenRecords(records)
+  // The BOM lets Excel open UTF-8 owner names correctly
+  return '\uFEFF' + [header, ...rows].map((r) => r.map(escapeCsv).join(',')).join('\r\n')
+}
+
+const countBy = (records: ExportRecord[], key: (r: ExportRecord) => string) => {
+  const counts: Record<string, number> = {}
+  for (const r of records) {
+    const value = key(r)
+    counts[value] = (counts[value] || 0) + 1
+  }
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])
+}
+
+export const breedDistribution = (records: ExportRecord[]) =>
+  countBy(records, (r) => effectiveBreed(r) || 'unknown')
+
+export const statusCounts = (records: ExportRecord[]) =>
+  countBy(records, (r) => r.verification_status || 'pending')
+
+export const buildWorkbook = (records: ExportRecord[], options: SummaryOptions): Uint8Array => {
+  const { header, rows } = flattenRecords(records)
+  const workbook = XLSX.utils.book_new()
+
+  XLSX.utils.book_append_sheet(workbook, toSheet([header, ...rows]), 'Records')
+
+  const summary: Cell[][] = [
+    [options.title],
+    ['District', options.district || 'All'],
+    ['From', options.dateFrom || '—'],
+    ['To', options.dateTo || '—'],
+    ['Total records', records.length],
+    [],
+    ['Verification status', 'Count'],
+    ...statusCounts(records),
+    [],
+    ['Breed', 'Count'],
+    ...breedDistribution(records).map(([breed, count]) => [formatBreedName(breed), count])
+  ]
+  XLSX.utils.book_append_sheet(workbook, toSheet(summary), 'Summary')
+
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as Uint8Array
+}
+
+// Standard PDF fonts only cover Latin-1; other scripts are replaced rather than failing the export
+const safeText = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 40
+
+const THUMB_COLUMNS = 3
+const THUMB_WIDTH = 160
+const THUMB_HEIGHT = 110
+const THUMB_ROW_HEIGHT = THUMB_HEIGHT + 42
+
+export const buildPdfSummary = async (
+  records: ExportRecord[],
+  thumbnails: Map<string, Uint8Array>,
+  options: SummaryOptions
+): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const write = (text: string, size = 10, f: PDFFont = font, x = MARGIN) => {
+    page.drawText(safeText(text), { x, y, size, font: f, color: rgb(0.1, 0.1, 0.1) })
+  }
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  write(options.title, 18, bold)
+  y -= 24
+  write(`District: ${options.district || 'All'}    Period: ${options.dateFrom || 'start'} to ${options.dateTo || 'today'}`)
+  y -= 14
+  write(`Generated ${new Date().toISOString().slice(0, 10)} by ${options.generatedBy}    Records: ${records.length}`)
+  y -= 28
+
+  write('Verification', 13, bold)
+  y -= 18
+  for (const [status, count] of statusCounts(records)) {
+    write(`${status.charAt(0).toUpperCase() + status.slice(1)}: ${count}`)
+    y -= 14
+  }
+  y -= 14
+
+  write('Breed distribution', 13, bold)
+  y -= 18
+  const distribution = breedDistribution(records)
+  const maxCount = distribution[0]?.[1] || 1
+  for (const [breed, count] of distribution) {
+    ensureSpace(14)
+    write(formatBreedName(breed), 10, font, MARGIN)
+    page.drawRectangle({
+      x: MARGIN + 140,
+      y: y - 2,
+      width: Math.max(2, (count / maxCount) * 280),
+      height: 10,
+      color: rgb(0.2, 0.5, 0.3)
+    })
+    write(`${count} (${((count / records.length) * 100).toFixed(1)}%)`, 9, font, MARGIN + 430)
+    y -= 14
+  }
+
+  // Thumbnail grid of the records that had a readable JPEG/PNG
+  const withImages = records.filter((r) => r.image_url && thumbnails.has(r.image_url))
+  if (withImages.length > 0) {
+    y -= 16
+    ensureSpace(20 + THUMB_ROW_HEIGHT)
+    write('Animals', 13, bold)
+    y -= 12
+
+    for (const [idx, r] of withImages.entries()) {
+      const column = idx % THUMB_COLUMNS
+      if (column === 0) {
+        ensureSpace(THUMB_ROW_HEIGHT)
+        y -= THUMB_ROW_HEIGHT
+      }
+      const x = MARGIN + column * (THUMB_WIDTH + 17)
+      const bytes = thumbnails.get(r.image_url!)!
+
+      try {
+        const image = bytes[0] === 0x89 ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes)
+        const scale = Math.min(THUMB_WIDTH / image.width, THUMB_HEIGHT / image.height)
+        page.drawImage(image, {
+          x,
+          y: y + 30,
+          width: image.width * scale,
+          height: image.height * scale
+        })
+      } catch {
+        page.drawRectangle({ x, y: y + 30, width: THUMB_WIDTH, height: THUMB_HEIGHT, borderColor: rgb(0.8, 0.8, 0.8), borderWidth: 1 })
+      }
+
+      page.drawText(safeText(`${r.animal_id} - ${formatBreedName(effectiveBreed(r))}`), { x, y: y + 18, size: 8, font: bold })
+      page.drawText(safeText(`${r.verification_status || 'pending'} - ${r.created_at.slice(0, 10)}`), { x, y: y + 8, size: 8, font })
+    }
+  }
+
+  return await pdf.save()
+}
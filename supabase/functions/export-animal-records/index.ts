@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { ExportRecord, buildCsv, buildPdfSummary, buildWorkbook } from './formats.ts'
+import { IMAGE_BUCKET, ensureRendition, storagePathFromUrl } from '../_shared/images.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const FORMATS = ['csv', 'xlsx', 'pdf']
+const MAX_EXPORT_ROWS = 10000
+const MAX_PDF_THUMBNAILS = 30
+const REVIEWER_ROLES = ['supervisor', 'district_admin']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const BREED_PATTERN = /^[a-z_]+$/
+
+// Uses the thumb renditions from the private bucket. Only JPEG and PNG can be embedded
+// in the PDF; anything else is left out of the thumbnail grid
+const fetchThumbnails = async (urls: string[]) => {
+  const thumbnails = new Map<string, Uint8Array>()
+  await Promise.all(urls.map(async (url) => {
+    try {
+      const path = storagePathFromUrl(url, supabaseUrl)
+      if (!path) return
+      const { data, error } = await supabase.storage
+        .from(IMAGE_BUCKET)
+        .download(await ensureRendition(supabase, path, 'thumb'))
+      if (error || !data) return
+      const bytes = new Uint8Array(await data.arrayBuffer())
+      const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8
+      const isPng = bytes[0] === 0x89 && bytes[1] === 0x50
+      if (isJpeg || isPng) thumbnails.set(url, bytes)
+    } catch (error) {
+      console.error(`Could not fetch thumbnail ${url}:`, error)
+    }
+  }))
+  return thumbnails
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const {
+      format = 'csv',
+      scope = 'mine',
+      status,
+      animal_type,
+      breed,
+      date_from,
+      date_to,
+      district
+    } = await req.json().catch(() => ({}))
+
+    if (!FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({ error: 'format must be one of csv, xlsx, pdf' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (breed && !BREED_PATTERN.test(breed)) {
+      return new Response(
+        JSON.stringify({ error: 'breed must be a breed code' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if ((date_from && !DATE_PATTERN.test(date_from)) || (date_to && !DATE_PATTERN.test(date_to))) {
+      return new Response(
+        JSON.stringify({ error: 'date_from and date_to must be YYYY-MM-DD' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('full_name, role, district, district_key, state_key')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (scope === 'area' && (!profile || !REVIEWER_ROLES.includes(profile.role) || !profile.state_key)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors with a district and state can export their area' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const recordsQuery = () => {
+      let query = supabase
+        .from('animal_records')
+        .select(`
+          id, user_id, animal_id, animal_type, predicted_breed, manual_breed, final_breed, confidence_score, prediction_outcome, verification_status, verification_reason, verified_at, image_url, notes, owner_details, location_data, created_at, updated_at,
+          worker:profiles!animal_records_user_id_profiles_fkey!inner (
+            full_name,
+            employee_id,
+            district
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .order('id')
+
+      // Field workers export their own records; reviewers can export their whole area
+      if (scope === 'area') {
+        query = query.eq('worker.state_key', profile!.state_key)
+        if (profile!.role === 'supervisor') {
+          query = query.eq('worker.district_key', profile!.district_key || '')
+        } else if (district) {
+          query = query.eq('worker.district_key', String(district).trim().toLowerCase())
+        }
+      } else {
+        query = query.eq('user_id', user.id)
+      }
+
+      // Same filters as get-animal-records, so the export matches the Records screen
+      if (status && ['pending', 'verified', 'rejected'].includes(status)) {
+        query = query.eq('verification_status', status)
+      }
+
+      if (animal_type && ['cattle', 'buffalo'].includes(animal_type)) {
+        query = query.eq('animal_type', animal_type)
+      }
+
+      if (breed) {
+        query = query.or(
+          `final_breed.eq.${breed},and(final_breed.is.null,manual_breed.eq.${breed}),and(final_breed.is.null,manual_breed.is.null,predicted_breed.eq.${breed})`
+        )
+      }
+
+      if (date_from) {
+        query = query.gte('created_at', `${date_from}T00:00:00Z`)
+      }
+
+      if (date_to) {
+        query = query.lte('created_at', `${date_to}T23:59:59.999Z`)
+      }
+
+      return query
+    }
+
+    // One row past the cap tells a complete export from a cut-off one
+    const { data, error } = await fetchAllRows((from, to) => recordsQuery().range(from, to), MAX_EXPORT_ROWS + 1)
+
+    if (error) {
+      console.error('Error fetching records for export:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch animal records', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    if ((data || []).length > MAX_EXPORT_ROWS) {
+      return new Response(
+        JSON.stringify({
+          error: `More than ${MAX_EXPORT_ROWS} records match. Narrow the dates or filters and export in parts.`,
+          code: 'export_too_large'
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 413 }
+      )
+    }
+
+    const records = (data || []) as unknown as ExportRecord[]
+
+    const summaryOptions = {
+      title: 'Breed Survey Registration Report',
+      district: scope === 'area' ? (profile?.role === 'supervisor' ? profile.district : district || null) : profile?.district || null,
+      dateFrom: date_from || null,
+      dateTo: date_to || null,
+      generatedBy: profile?.full_name || user.email || user.id
+    }
+
+    console.log(`Exporting ${records.length} records as ${format} for user ${user.id}`)
+
+    if (format === 'csv') {
+      return new Response(buildCsv(records), {
+        headers: { ...corsHeaders, 'Content-Type': 'text/csv; charset=utf-8' }
+      })
+    }
+
+    // Binary formats go out as octet-stream so functions.invoke hands the client a Blob
+    if (format === 'xlsx') {
+      return new Response(buildWorkbook(records, summaryOptions), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' }
+      })
+    }
+
+    const thumbnailUrls = records
+      .map((r) => r.image_url)
+      .filter((url): url is string => !!url)
+      .slice(0, MAX_PDF_THUMBNAILS)
+
+    const pdf = await buildPdfSummary(records, await fetchThumbnails(thumbnailUrls), summaryOptions)
+
+    return new Response(pdf, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' }
+    })
+
+  } catch (error) {
+    console.error('Error in export-animal-records function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,273 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { downloadImage, ensureRendition, IMAGE_BUCKET, storagePathFromUrl } from '../_shared/images.ts'
+import { embedImage, embedRecordViews, getEmbeddingProvider, toVectorLiteral, type EmbeddingView } from '../_shared/embeddings.ts'
+import { boundingBoxSchema, type ViewDetections } from '../_shared/schemas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const REVIEWER_ROLES = ['supervisor', 'district_admin']
+
+const DEFAULT_MATCHES = 8
+
+// Signed thumbnails of the matches stay valid this long
+const EXPIRES_IN_SECONDS = 600
+
+// Verified records that look like a stored record or a freshly uploaded photo
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { record_id, image_url, crop, animal_type, limit } = await req.json().catch(() => ({}))
+
+    if (!record_id && !image_url) {
+      return new Response(
+        JSON.stringify({ error: 'record_id or image_url is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const embedder = getEmbeddingProvider()
+    if (!embedder) {
+      return new Response(
+        JSON.stringify({ error: 'Similarity search is not configured', code: 'similarity_unavailable' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 501 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    const isReviewer = !!profile && REVIEWER_ROLES.includes(profile.role)
+
+    // Owners see their own records; supervisors and district admins those of workers in their area
+    const visibleOwners = new Map<string, boolean>([[user.id, true]])
+    const canSee = async (owner: string) => {
+      if (!visibleOwners.has(owner)) {
+        let inScope = false
+        if (isReviewer) {
+          const { data } = await supabase.rpc('can_review_records_of', {
+            p_reviewer: user.id,
+            p_worker: owner
+          })
+          inScope = !!data
+        }
+        visibleOwners.set(owner, inScope)
+      }
+      return visibleOwners.get(owner)!
+    }
+
+    const startTime = Date.now()
+    let embedding: number[] | null = null
+    let animalType: string | null = ['cattle', 'buffalo'].includes(animal_type) ? animal_type : null
+    let excludeRecord: string | null = null
+
+    if (record_id) {
+      const { data: record, error: recordError } = await supabase
+        .from('animal_records')
+        .select(`
+          id,
+          user_id,
+          animal_type,
+          image_url,
+          embedding,
+          embedding_model,
+          authoritative_prediction_id,
+          animal_images (
+            image_url,
+            position
+          ),
+          breed_predictions!breed_predictions_animal_record_id_fkey (
+            id,
+            detections,
+            source,
+            created_at
+          )
+        `)
+        .eq('id', record_id)
+        .order('created_at', { foreignTable: 'breed_predictions', ascending: false })
+        .maybeSingle()
+
+      if (recordError || !record) {
+        return new Response(
+          JSON.stringify({ error: 'Record not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      if (!await canSee(record.user_id)) {
+        return new Response(
+          JSON.stringify({ error: 'You do not have access to this record' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+        )
+      }
+
+      animalType = record.animal_type
+      excludeRecord = record.id
+
+      if (record.embedding && record.embedding_model === embedder.model) {
+        embedding = JSON.parse(record.embedding)
+      } else {
+        // Records captured before embeddings were stored, or under another encoder, are embedded for
+        // this request only; a reclassify run stores their embedding
+        const predictions = record.breed_predictions || []
+        const prediction = predictions.find((p) => p.id === record.authoritative_prediction_id) ??
+          predictions.find((p) => p.source === 'server')
+        const images = record.animal_images?.length
+          ? [...record.animal_images].sort((a, b) => a.position - b.position)
+          : record.image_url ? [{ image_url: record.image_url }] : []
+
+        const views: EmbeddingView[] = []
+        for (const image of images) {
+          const objectPath = storagePathFromUrl(image.image_url, supabaseUrl)
+          if (!objectPath) continue
+          views.push({
+            image_url: image.image_url,
+            blob: await downloadImage(supabase, objectPath),
+            crop: (prediction?.detections as ViewDetections[] | null)?.find((d) => d.image_url === image.image_url)?.crop ?? null
+          })
+        }
+
+        embedding = (await embedRecordViews(embedder, views))?.mean ?? null
+      }
+    } else {
+      // A photo that hasn't been classified yet, in the caller's own folder
+      const objectPath = storagePathFromUrl(image_url, supabaseUrl)
+      if (!objectPath || !objectPath.startsWith(`${user.id}/`)) {
+        return new Response(
+          JSON.stringify({ error: `Images must be uploaded to your own folder in the ${IMAGE_BUCKET} bucket` }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+        )
+      }
+
+      const parsedCrop = crop ? boundingBoxSchema.safeParse(crop) : null
+      if (parsedCrop && !parsedCrop.success) {
+        return new Response(
+          JSON.stringify({ error: 'crop must be a bounding box with x, y, width and height between 0 and 1' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const { data: image, error: downloadError } = await supabase.storage.from(IMAGE_BUCKET).download(objectPath)
+      if (downloadError || !image) {
+        return new Response(
+          JSON.stringify({ error: 'Image not found', details: downloadError?.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      embedding = await embedImage(embedder, image, parsedCrop?.success ? parsedCrop.data : null)
+    }
+
+    if (!embedding) {
+      return new Response(
+        JSON.stringify({ success: true, matches: [], embedding_model: embedder.model }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: matches, error: matchError } = await supabase.rpc('match_verified_records', {
+      p_embedding: toVectorLiteral(embedding),
+      p_embedding_model: embedder.model,
+      p_animal_type: animalType,
+      p_exclude_record: excludeRecord,
+      p_match_count: Math.min(parseInt(limit || String(DEFAULT_MATCHES)), 24)
+    })
+
+    if (matchError) {
+      console.error('Error searching similar records:', matchError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to search similar animals', details: matchError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    // Photos follow the same rule as get-image-url: only the owner and reviewers of that worker see
+    // them. Everyone else gets the breed and similarity without the photo or the record
+    const visibleMatches = new Set<string>()
+    for (const m of matches || []) {
+      if (await canSee(m.user_id)) visibleMatches.add(m.id)
+    }
+
+    // get-image-url signs one record's photos at a time, so the visible thumbnails are signed here
+    const thumbPaths = new Map<string, string>()
+    await Promise.all((matches || []).map(async (m) => {
+      const path = visibleMatches.has(m.id) && m.image_url ? storagePathFromUrl(m.image_url, supabaseUrl) : null
+      if (!path) return
+      try {
+        thumbPaths.set(m.image_url, await ensureRendition(supabase, path, 'thumb'))
+      } catch (error) {
+        console.error(`Rendition failed for ${path}:`, error)
+        thumbPaths.set(m.image_url, path)
+      }
+    }))
+
+    const { data: signed } = thumbPaths.size > 0
+      ? await supabase.storage.from(IMAGE_BUCKET).createSignedUrls([...new Set(thumbPaths.values())], EXPIRES_IN_SECONDS)
+      : { data: [] }
+    const signedByPath = Object.fromEntries((signed || []).map((s) => [s.path, s.error ? null : s.signedUrl]))
+
+    const results = (matches || []).map((m) => {
+      const visible = visibleMatches.has(m.id)
+      const thumbPath = visible ? thumbPaths.get(m.image_url) : undefined
+      return {
+        record_id: visible ? m.id : null,
+        animal_id: visible ? m.animal_id : null,
+        own: m.user_id === user.id,
+        animal_type: m.animal_type,
+        final_breed: m.final_breed,
+        similarity: m.similarity,
+        verified_at: m.verified_at,
+        thumbnail_url: thumbPath ? signedByPath[thumbPath] ?? null : null
+      }
+    })
+
+    console.log(`Found ${results.length} similar record(s) for ${record_id ? `record ${record_id}` : 'an uploaded photo'} in ${Date.now() - startTime}ms`)
+
+    return new Response(
+      JSON.stringify({ success: true, matches: results, embedding_model: embedder.model }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in find-similar-animals function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
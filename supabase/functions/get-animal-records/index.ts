@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { RECORD_COLUMNS } from '../_shared/records.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -38,25 +39,61 @@ serve(async (req) => {
       )
     }
 
+    // functions.invoke sends filters in the body; query parameters still work for direct calls
     const url = new URL(req.url)
-    const status = url.searchParams.get('status')
-    const animalType = url.searchParams.get('animal_type')
-    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100)
-    const offset = parseInt(url.searchParams.get('offset') || '0')
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const param = (name: string) => body[name] ?? url.searchParams.get(name)
+
+    const status = param('status')
+    const animalType = param('animal_type')
+    const breed = param('breed')
+    const dateFrom = param('date_from')
+    const dateTo = param('date_to')
+    const limit = Math.min(parseInt(param('limit') || '50'), 100)
+    const offset = parseInt(param('offset') || '0')
 
     let query = supabase
       .from('animal_records')
       .select(`
-        *,
-        breed_predictions (
+        ${RECORD_COLUMNS},
+        breed_predictions!breed_predictions_animal_record_id_fkey (
+          id,
           predicted_breeds,
+          view_contributions,
+          detections,
           model_version,
           processing_time_ms,
+          source,
+          run_type,
           created_at
+        ),
+        animal_images (
+          id,
+          image_url,
+          view,
+          position,
+          predicted_breeds,
+          weight
+        ),
+        duplicate_flags!duplicate_flags_animal_record_id_fkey (
+          id,
+          status,
+          same_worker,
+          distance,
+          matched_record_id,
+          matched:matched_record_id (
+            animal_id
+          )
         )
-      `)
+      `, { count: 'exact' })
       .eq('user_id', user.id)
       .order('created_at', { ascending: false })
+      // Shadow model output is only shown on the Models page
+      .neq('breed_predictions.source', 'shadow')
+      // Dismissed duplicate flags were judged to be different animals
+      .neq('duplicate_flags.status', 'dismissed')
+      // Latest prediction of each source first
+      .order('created_at', { foreignTable: 'breed_predictions', ascending: false })
       .range(offset, offset + limit - 1)
 
     // Apply filters
@@ -68,7 +105,22 @@ serve(async (req) => {
       query = query.eq('animal_type', animalType)
     }
 
-    const { data: records, error } = await query
+    // Matches the breed shown on the card: final, else manual, else predicted
+    if (breed && /^[a-z_]+$/.test(breed)) {
+      query = query.or(
+        `final_breed.eq.${breed},and(final_breed.is.null,manual_breed.eq.${breed}),and(final_breed.is.null,manual_breed.is.null,predicted_breed.eq.${breed})`
+      )
+    }
+
+    if (dateFrom && /^\d{4}-\d{2}-\d{2}$/.test(dateFrom)) {
+      query = query.gte('created_at', `${dateFrom}T00:00:00Z`)
+    }
+
+    if (dateTo && /^\d{4}-\d{2}-\d{2}$/.test(dateTo)) {
+      query = query.lte('created_at', `${dateTo}T23:59:59.999Z`)
+    }
+
+    const { data: records, error, count } = await query
 
     if (error) {
       console.error('Error fetching animal records:', error)
@@ -78,20 +130,16 @@ serve(async (req) => {
       )
     }
 
-    // Get total count for pagination
-    const { count, error: countError } = await supabase
-      .from('animal_records')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-
-    if (countError) {
-      console.error('Error counting records:', countError)
-    }
-
     return new Response(
       JSON.stringify({
         success: true,
-        records,
+        // Matches with other workers' animals are reported without identifying them
+        records: (records || []).map((r) => ({
+          ...r,
+          duplicate_flags: (r.duplicate_flags || []).map((f: { same_worker: boolean }) =>
+            f.same_worker ? f : { ...f, matched_record_id: null, matched: null }
+          )
+        })),
         pagination: {
           total: count || 0,
           limit,
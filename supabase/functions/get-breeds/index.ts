@@ -19,7 +19,8 @@ serve(async (req) => {
 
   try {
     const url = new URL(req.url)
-    const animalType = url.searchParams.get('animal_type')
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const animalType = body.animal_type || url.searchParams.get('animal_type')
 
     let query = supabase
       .from('breeds')
@@ -0,0 +1,81 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    // The window can come from the query string or the invoke() body
+    const url = new URL(req.url)
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const requestedDays = parseInt(url.searchParams.get('days') || body.days || String(DEFAULT_DAYS))
+    const days = Number.isFinite(requestedDays)
+      ? Math.min(Math.max(requestedDays, 1), MAX_DAYS)
+      : DEFAULT_DAYS
+
+    const { data: stats, error } = await supabase.rpc('get_dashboard_stats', {
+      p_user_id: user.id,
+      p_days: days
+    })
+
+    if (error) {
+      console.error('Error computing dashboard stats:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to compute dashboard stats', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        window_days: days,
+        stats
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-dashboard-stats function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profile?.role !== 'district_admin') {
+      return new Response(
+        JSON.stringify({ error: 'Only district admins can export training data' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+
+    // A single snapshot comes back with its items, to build the archive
+    if (body.snapshot_id) {
+      const { data: snapshot } = await supabase
+        .from('dataset_snapshots')
+        .select('*')
+        .eq('id', body.snapshot_id)
+        .maybeSingle()
+
+      if (!snapshot) {
+        return new Response(
+          JSON.stringify({ error: 'Dataset snapshot not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      const { data: items, error } = await fetchAllRows((from, to) => supabase
+        .from('dataset_snapshot_items')
+        .select('animal_record_id, animal_id, animal_type, breed, split, image_url, view, crop, position')
+        .eq('snapshot_id', snapshot.id)
+        .order('position')
+        .range(from, to))
+
+      if (error) {
+        console.error('Error fetching snapshot items:', error)
+        return new Response(
+          JSON.stringify({ error: 'Failed to fetch snapshot items', details: error.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, snapshot, items }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const limit = Math.min(parseInt(body.limit || '20'), 100)
+
+    // With the models trained on each snapshot
+    const { data: snapshots, error } = await supabase
+      .from('dataset_snapshots')
+      .select(`
+        *,
+        models (
+          id,
+          name,
+          version,
+          status
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching dataset snapshots:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch dataset snapshots', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, snapshots }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-dataset-snapshots function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
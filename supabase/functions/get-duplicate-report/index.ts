@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: reviewer } = await supabase
+      .from('profiles')
+      .select('role, district_key, state_key')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!reviewer || !['supervisor', 'district_admin'].includes(reviewer.role)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors can view duplicate reports' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    if (!reviewer.state_key || (reviewer.role === 'supervisor' && !reviewer.district_key)) {
+      return new Response(
+        JSON.stringify({ error: 'Ask an administrator to assign your district and state to review duplicates' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const limit = Math.min(parseInt(body.limit || '50'), 100)
+    const offset = parseInt(body.offset || '0')
+    const status: string = ['open', 'confirmed', 'dismissed'].includes(body.status) ? body.status : 'open'
+
+    let flagsQuery = supabase
+      .from('duplicate_flags')
+      .select(`
+        *,
+        record:animal_record_id!inner (
+          id,
+          animal_id,
+          animal_type,
+          user_id,
+          predicted_breed,
+          final_breed,
+          verification_status,
+          created_at,
+          worker:profiles!animal_records_user_id_profiles_fkey!inner (
+            user_id,
+            full_name,
+            employee_id,
+            district,
+            state
+          )
+        ),
+        matched:matched_record_id (
+          id,
+          animal_id,
+          animal_type,
+          user_id,
+          predicted_breed,
+          final_breed,
+          verification_status,
+          created_at,
+          worker:profiles!animal_records_user_id_profiles_fkey (
+            user_id,
+            full_name,
+            employee_id,
+            district,
+            state,
+            district_key,
+            state_key
+          )
+        )
+      `, { count: 'exact' })
+      // Flags on records of workers in the reviewer's district (supervisor) or state (district admin)
+      .eq('record.worker.state_key', reviewer.state_key)
+      .neq('record.user_id', user.id)
+      .eq('status', status)
+
+    if (reviewer.role === 'supervisor') {
+      flagsQuery = flagsQuery.eq('record.worker.district_key', reviewer.district_key)
+    }
+
+    const { data: flags, error, count } = await flagsQuery
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('Error fetching duplicate flags:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch duplicate flags', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    // The matched record's worker is only named when they are in the reviewer's area too
+    const inScope = (worker: { user_id: string, district_key: string | null, state_key: string | null } | null) =>
+      !!worker &&
+      worker.user_id !== user.id &&
+      worker.state_key === reviewer.state_key &&
+      (reviewer.role !== 'supervisor' || worker.district_key === reviewer.district_key)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        flags: (flags || []).map(({ record: { worker, ...record }, matched, ...f }) => {
+          const { worker: matchedWorker, ...matchedRecord } = matched ?? {}
+          return {
+            ...f,
+            record,
+            matched: matched ? matchedRecord : null,
+            worker,
+            matched_worker: inScope(matchedWorker) ? matchedWorker : null
+          }
+        }),
+        pagination: {
+          total: count || 0,
+          limit,
+          offset,
+          has_more: (count || 0) > offset + limit
+        }
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-duplicate-report function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
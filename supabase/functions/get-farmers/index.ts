@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const MAX_LIMIT = 500
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const search = typeof body.q === 'string' ? body.q.trim() : ''
+    const limit = Math.min(Number(body.limit) || MAX_LIMIT, MAX_LIMIT)
+
+    // Workers pick from the farmers they have registered, most recently used first
+    let query = supabase
+      .from('farmers')
+      .select('*')
+      .eq('created_by', user.id)
+      .order('updated_at', { ascending: false })
+      .limit(limit)
+
+    if (search) {
+      const pattern = `%${search.replace(/[%_,()]/g, '')}%`
+      query = query.or(`name.ilike.${pattern},phone.ilike.${pattern},village.ilike.${pattern}`)
+    }
+
+    const { data: farmers, error } = await query
+
+    if (error) {
+      console.error('Error fetching farmers:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch farmers', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, farmers }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-farmers function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
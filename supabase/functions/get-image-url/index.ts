@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { IMAGE_BUCKET, ensureRendition, ownerOfPath, storagePathFromUrl, type ImageSize } from '../_shared/images.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const SIZES: ImageSize[] = ['thumb', 'medium', 'original']
+const MAX_URLS = 100
+const EXPIRES_IN_SECONDS = 600
+// Renditions are generated a few at a time to stay within the function's memory
+const RENDITION_BATCH = 4
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { url, urls, size = 'thumb' } = await req.json().catch(() => ({}))
+    const requested: string[] = [...new Set<string>(Array.isArray(urls) ? urls : url ? [url] : [])]
+
+    if (requested.length === 0 || requested.length > MAX_URLS) {
+      return new Response(
+        JSON.stringify({ error: `Send between 1 and ${MAX_URLS} image URLs` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!SIZES.includes(size)) {
+      return new Response(
+        JSON.stringify({ error: 'size must be one of thumb, medium, original' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Owners see their own images; supervisors and district admins those of workers in their area
+    const allowedOwners = new Map<string, boolean>([[user.id, true]])
+    const canView = async (owner: string) => {
+      if (!allowedOwners.has(owner)) {
+        const { data: inScope } = await supabase.rpc('can_review_records_of', {
+          p_reviewer: user.id,
+          p_worker: owner
+        })
+        allowedOwners.set(owner, !!inScope)
+      }
+      return allowedOwners.get(owner)!
+    }
+
+    const paths = new Map<string, string>()
+    for (const imageUrl of requested) {
+      const path = storagePathFromUrl(imageUrl, supabaseUrl)
+      if (path && await canView(ownerOfPath(path))) {
+        paths.set(imageUrl, path)
+      }
+    }
+
+    if (paths.size === 0) {
+      return new Response(
+        JSON.stringify({ error: 'You do not have access to these images' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const entries = [...paths.entries()]
+    for (let i = 0; i < entries.length; i += RENDITION_BATCH) {
+      await Promise.all(entries.slice(i, i + RENDITION_BATCH).map(async ([imageUrl, path]) => {
+        try {
+          paths.set(imageUrl, await ensureRendition(supabase, path, size))
+        } catch (error) {
+          console.error(`Rendition failed for ${path}:`, error)
+        }
+      }))
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .createSignedUrls([...new Set(paths.values())], EXPIRES_IN_SECONDS)
+
+    if (signError) {
+      console.error('Error signing image URLs:', signError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to sign image URLs', details: signError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const signedByPath = Object.fromEntries((signed || []).map((s) => [s.path, s.error ? null : s.signedUrl]))
+
+    // Unknown or inaccessible URLs map to null so one bad image doesn't break a whole page
+    const result = Object.fromEntries(requested.map((imageUrl) => {
+      const path = paths.get(imageUrl)
+      return [imageUrl, path ? signedByPath[path] ?? null : null]
+    }))
+
+    return new Response(
+      JSON.stringify({ success: true, urls: result, size, expires_in: EXPIRES_IN_SECONDS }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-image-url function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
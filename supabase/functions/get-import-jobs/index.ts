@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+
+    // A single job comes back with its rows, for the progress table and the error report
+    if (body.job_id) {
+      const { data: job } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .eq('id', body.job_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!job) {
+        return new Response(
+          JSON.stringify({ error: 'Import job not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      let rowsQuery = supabase
+        .from('import_job_rows')
+        .select('*')
+        .eq('job_id', job.id)
+        .order('row_number')
+
+      if (body.status) {
+        rowsQuery = rowsQuery.eq('status', body.status)
+      }
+
+      const { data: rows, error } = await rowsQuery
+
+      if (error) {
+        console.error('Error fetching import rows:', error)
+        return new Response(
+          JSON.stringify({ error: 'Failed to fetch import rows', details: error.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, job, rows }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const limit = Math.min(parseInt(body.limit || '20'), 100)
+
+    const { data: jobs, error } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching import jobs:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch import jobs', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, jobs }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-import-jobs function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { evaluatePredictions, type EvaluationSample } from '../_shared/evaluation.ts'
+import type { BreedPrediction } from '../_shared/breeds.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_SAMPLES = 5000
+
+interface VerifiedRecord {
+  final_breed: string
+  predicted_breed: string | null
+  confidence_score: number | null
+  authoritative: { predicted_breeds: BreedPrediction[]; model_version: string | null } | null
+}
+
+// Measures the model against supervisor-verified breeds in the reviewer's area
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: reviewer } = await supabase
+      .from('profiles')
+      .select('role, district_key, state_key')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!reviewer || !['supervisor', 'district_admin'].includes(reviewer.role)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors can view model accuracy' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    if (!reviewer.state_key || (reviewer.role === 'supervisor' && !reviewer.district_key)) {
+      return new Response(
+        JSON.stringify({ error: 'Ask an administrator to assign your district and state to view model accuracy' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { model_version, animal_type, district, date_from, date_to } = await req.json().catch(() => ({}))
+
+    if ((date_from && !DATE_PATTERN.test(date_from)) || (date_to && !DATE_PATTERN.test(date_to))) {
+      return new Response(
+        JSON.stringify({ error: 'date_from and date_to must be YYYY-MM-DD' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // The supervisor's district, or the admin's state (optionally one district of it)
+    const districtKey: string | null = reviewer.role === 'supervisor'
+      ? reviewer.district_key
+      : district ? String(district).trim().toLowerCase() : null
+
+    const recordsQuery = () => {
+      let query = supabase
+        .from('animal_records')
+        .select(`
+          final_breed,
+          predicted_breed,
+          confidence_score,
+          authoritative:authoritative_prediction_id${model_version ? '!inner' : ''} (
+            predicted_breeds,
+            model_version
+          ),
+          worker:profiles!animal_records_user_id_profiles_fkey!inner (
+            district_key
+          )
+        `)
+        .eq('worker.state_key', reviewer.state_key)
+        .eq('verification_status', 'verified')
+        .not('final_breed', 'is', null)
+        .order('created_at', { ascending: false })
+        .order('id')
+
+      if (districtKey) {
+        query = query.eq('worker.district_key', districtKey)
+      }
+
+      if (model_version) {
+        query = query.eq('authoritative.model_version', model_version)
+      }
+
+      if (animal_type && ['cattle', 'buffalo'].includes(animal_type)) {
+        query = query.eq('animal_type', animal_type)
+      }
+
+      if (date_from) {
+        query = query.gte('created_at', `${date_from}T00:00:00Z`)
+      }
+
+      if (date_to) {
+        query = query.lte('created_at', `${date_to}T23:59:59.999Z`)
+      }
+
+      return query
+    }
+
+    // One row past the cap shows whether the newest MAX_SAMPLES records are all there is
+    const { data, error } = await fetchAllRows((from, to) => recordsQuery().range(from, to), MAX_SAMPLES + 1)
+
+    if (error) {
+      console.error('Error fetching verified records:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch verified records', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    // Offered as the model_version filter, so it is listed without that filter
+    const { data: versions, error: versionsError } = await supabase.rpc('verified_model_versions', {
+      p_state_key: reviewer.state_key,
+      p_district_key: districtKey,
+      p_animal_type: animal_type && ['cattle', 'buffalo'].includes(animal_type) ? animal_type : null,
+      p_from: date_from ? `${date_from}T00:00:00Z` : null,
+      p_to: date_to ? `${date_to}T23:59:59.999Z` : null
+    })
+
+    if (versionsError) {
+      console.error('Error fetching model versions:', versionsError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch model versions', details: versionsError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const records = (data || []).slice(0, MAX_SAMPLES) as unknown as VerifiedRecord[]
+
+    const samples: EvaluationSample[] = records
+      .map((r) => ({
+        // Records from before prediction history only kept the top breed
+        predictions: r.authoritative?.predicted_breeds
+          ?? (r.predicted_breed ? [{ breed: r.predicted_breed, confidence: Number(r.confidence_score) || 0 }] : []),
+        actual: r.final_breed
+      }))
+
+    const report = evaluatePredictions(samples)
+
+    console.log(`Evaluated ${report.samples} verified record(s) for reviewer ${user.id}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        report,
+        model_versions: (versions || []).map((v: { model_version: string }) => v.model_version),
+        truncated: (data || []).length > MAX_SAMPLES
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-model-accuracy function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
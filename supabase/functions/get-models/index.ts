@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Per model, newest first
+const MAX_COMPARISONS = 2000
+const MAX_DISAGREEMENTS = 50
+
+type Prediction = { breed: string; confidence: number }
+
+interface ShadowRow {
+  id: string
+  model_id: string
+  predicted_breeds: Prediction[]
+  processing_time_ms: number | null
+  created_at: string
+  active: { predicted_breeds: Prediction[]; model_version: string | null; processing_time_ms: number | null } | null
+  record: { id: string; animal_id: string; final_breed: string | null; verification_status: string } | null
+}
+
+// The model registry, with how each shadow model compares to the active predictions it ran alongside
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profile?.role !== 'district_admin') {
+      return new Response(
+        JSON.stringify({ error: 'Only district admins can manage models' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const days = Math.min(Math.max(parseInt(body.days || '30'), 1), 365)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: models, error: modelsError } = await supabase
+      .from('models')
+      .select(`
+        *,
+        dataset_snapshot:dataset_snapshot_id (
+          id,
+          name
+        )
+      `)
+      .order('created_at', { ascending: false })
+
+    if (modelsError) {
+      console.error('Error fetching models:', modelsError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch models', details: modelsError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    // Each shadow prediction with the active prediction it shadowed and the record's verified breed
+    const shadowQuery = (modelId: string) => supabase
+      .from('breed_predictions')
+      .select(`
+        id,
+        model_id,
+        predicted_breeds,
+        processing_time_ms,
+        created_at,
+        active:shadow_of (
+          predicted_breeds,
+          model_version,
+          processing_time_ms
+        ),
+        record:animal_record_id (
+          id,
+          animal_id,
+          final_breed,
+          verification_status
+        )
+      `)
+      .eq('source', 'shadow')
+      .eq('model_id', modelId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .order('id')
+
+    const mean = (values: number[]) =>
+      values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null
+
+    const comparisons: Record<string, unknown> = {}
+    for (const model of models || []) {
+      // Queried per model so a busy shadow model can't crowd the others out of the sample
+      const { data: shadowRows, error: shadowError } = await fetchAllRows(
+        (from, to) => shadowQuery(model.id).range(from, to),
+        MAX_COMPARISONS + 1
+      )
+
+      if (shadowError) {
+        console.error('Error fetching shadow predictions:', shadowError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to fetch shadow predictions', details: shadowError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      const truncated = (shadowRows || []).length > MAX_COMPARISONS
+      const rows = ((shadowRows || []).slice(0, MAX_COMPARISONS) as unknown as ShadowRow[])
+        .filter((row) => row.active)
+      if (rows.length === 0) continue
+
+      let agreements = 0
+      let verified = 0
+      let shadowCorrect = 0
+      let activeCorrect = 0
+      const disagreements = []
+
+      for (const row of rows) {
+        const shadowTop = row.predicted_breeds[0] ?? null
+        const activeTop = row.active!.predicted_breeds[0] ?? null
+        const agrees = shadowTop?.breed === activeTop?.breed
+        if (agrees) agreements++
+
+        // Verified records tell which model was right
+        const finalBreed = row.record?.verification_status === 'verified' ? row.record.final_breed : null
+        if (finalBreed) {
+          verified++
+          if (shadowTop?.breed === finalBreed) shadowCorrect++
+          if (activeTop?.breed === finalBreed) activeCorrect++
+        }
+
+        if (!agrees && disagreements.length < MAX_DISAGREEMENTS) {
+          disagreements.push({
+            prediction_id: row.id,
+            animal_record_id: row.record?.id ?? null,
+            animal_id: row.record?.animal_id ?? null,
+            active: activeTop,
+            active_model_version: row.active!.model_version,
+            shadow: shadowTop,
+            final_breed: finalBreed,
+            created_at: row.created_at
+          })
+        }
+      }
+
+      comparisons[model.id] = {
+        compared: rows.length,
+        agreements,
+        agreement_rate: agreements / rows.length,
+        verified,
+        shadow_correct: shadowCorrect,
+        active_correct: activeCorrect,
+        avg_processing_ms: mean(rows.map((r) => r.processing_time_ms).filter((v): v is number => v !== null)),
+        active_avg_processing_ms: mean(rows.map((r) => r.active!.processing_time_ms).filter((v): v is number => v !== null)),
+        disagreements,
+        truncated
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, models: models || [], comparisons, days }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-models function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
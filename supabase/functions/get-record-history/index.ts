@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const url = new URL(req.url)
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const record_id = body.record_id || url.searchParams.get('record_id')
+
+    if (!record_id) {
+      return new Response(
+        JSON.stringify({ error: 'record_id is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Access is checked against the owner stored in the trail, so deleted records keep their history
+    const { data: entries, error } = await supabase
+      .from('animal_record_history')
+      .select('id, user_id, changed_by, operation, changed_fields, old_values, new_values, changed_at')
+      .eq('animal_record_id', record_id)
+      .order('changed_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching record history:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch record history', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const ownerId = entries?.[0]?.user_id
+    let allowed = ownerId === user.id
+
+    if (ownerId && !allowed) {
+      const { data: inScope } = await supabase.rpc('can_review_records_of', {
+        p_reviewer: user.id,
+        p_worker: ownerId
+      })
+      allowed = !!inScope
+    }
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Record not found or access denied' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    // Attach names so the timeline can show who made each change
+    const actorIds = [...new Set(entries.map((e) => e.changed_by).filter(Boolean))]
+    const { data: actors } = await supabase
+      .from('profiles')
+      .select('user_id, full_name, employee_id, role')
+      .in('user_id', actorIds)
+
+    const actorsById = Object.fromEntries((actors || []).map((a) => [a.user_id, a]))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        history: entries.map((entry) => ({
+          ...entry,
+          actor: entry.changed_by ? actorsById[entry.changed_by] ?? null : null
+        }))
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-record-history function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { RECORD_COLUMNS } from '../_shared/records.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: reviewer } = await supabase
+      .from('profiles')
+      .select('role, district_key, state_key')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!reviewer || !['supervisor', 'district_admin'].includes(reviewer.role)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors can access the review queue' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    if (!reviewer.state_key || (reviewer.role === 'supervisor' && !reviewer.district_key)) {
+      return new Response(
+        JSON.stringify({ error: 'Ask an administrator to assign your district and state to review records' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const limit = Math.min(parseInt(body.limit || '50'), 100)
+    const offset = parseInt(body.offset || '0')
+    const outcome: string | undefined = body.outcome
+
+    let recordsQuery = supabase
+      .from('animal_records')
+      .select(`
+        ${RECORD_COLUMNS},
+        worker:profiles!animal_records_user_id_profiles_fkey!inner (
+          user_id,
+          full_name,
+          employee_id,
+          district,
+          state
+        ),
+        breed_predictions!breed_predictions_animal_record_id_fkey (
+          id,
+          predicted_breeds,
+          detections,
+          model_version,
+          source,
+          created_at
+        ),
+        animal_images (
+          id,
+          image_url,
+          view,
+          position,
+          predicted_breeds
+        ),
+        duplicate_flags!duplicate_flags_animal_record_id_fkey (
+          id,
+          status,
+          same_worker,
+          distance,
+          image_url,
+          matched_record_id,
+          matched_image_url,
+          matched:matched_record_id (
+            animal_id,
+            verification_status
+          )
+        )
+      `, { count: 'exact' })
+      // Workers in the reviewer's district (supervisor) or state (district admin)
+      .eq('worker.state_key', reviewer.state_key)
+      .neq('user_id', user.id)
+      .eq('verification_status', 'pending')
+      // Shadow model output is only shown on the Models page
+      .neq('breed_predictions.source', 'shadow')
+      // Dismissed duplicate flags were judged to be different animals
+      .neq('duplicate_flags.status', 'dismissed')
+
+    if (reviewer.role === 'supervisor') {
+      recordsQuery = recordsQuery.eq('worker.district_key', reviewer.district_key)
+    }
+
+    if (outcome && ['confident', 'needs_review', 'unknown_breed', 'not_bovine'].includes(outcome)) {
+      recordsQuery = recordsQuery.eq('prediction_outcome', outcome)
+    }
+
+    // Outcomes sort descending as text: unknown_breed, not_bovine, needs_review, then confident.
+    // Records without a trusted breed therefore come first, oldest first within each outcome
+    const { data: records, error, count } = await recordsQuery
+      .order('prediction_outcome', { ascending: false })
+      .order('created_at', { ascending: true })
+      .order('created_at', { foreignTable: 'breed_predictions', ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('Error fetching review queue:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch review queue', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        records: records || [],
+        pagination: {
+          total: count || 0,
+          limit,
+          offset,
+          has_more: (count || 0) > offset + limit
+        }
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-review-queue function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const DEFAULT_BATCH_SIZE = 5
+const MAX_BATCH_SIZE = 10
+// Rows left in 'processing' this long were dropped by a timed-out invocation
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+const countRows = async (jobId: string, status: string) => {
+  const { count } = await supabase
+    .from('import_job_rows')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .eq('status', status)
+  return count || 0
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { job_id, batch_size } = await req.json()
+    const batchSize = Math.min(parseInt(batch_size || DEFAULT_BATCH_SIZE), MAX_BATCH_SIZE)
+
+    const { data: job } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', job_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!job) {
+      return new Response(
+        JSON.stringify({ error: 'Import job not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    if (job.status !== 'processing') {
+      return new Response(
+        JSON.stringify({ success: true, job, processed: 0, remaining: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    await supabase
+      .from('import_job_rows')
+      .update({ status: 'pending' })
+      .eq('job_id', job.id)
+      .eq('status', 'processing')
+      .lt('updated_at', new Date(Date.now() - STALE_PROCESSING_MS).toISOString())
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('import_job_rows')
+      .select('*')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .order('row_number')
+      .limit(batchSize)
+
+    if (rowsError) {
+      console.error('Error fetching import rows:', rowsError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch import rows', details: rowsError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    let processed = 0
+
+    for (const row of rows || []) {
+      // Claim the row only if it is still pending, so two runs of the same job never import it twice
+      const { data: claimed, error: claimError } = await supabase
+        .from('import_job_rows')
+        .update({ status: 'processing' })
+        .eq('id', row.id)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (claimError) {
+        console.error(`Failed to claim import row ${row.row_number} of job ${job.id}:`, claimError)
+        continue
+      }
+      if (!claimed || claimed.length === 0) continue
+
+      processed++
+
+      try {
+        // Historical imports never overwrite records captured in the field
+        const { data: existing } = await supabase
+          .from('animal_records')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('animal_id', row.animal_id)
+          .maybeSingle()
+
+        if (existing) {
+          throw new Error(`A record for animal ID ${row.animal_id} already exists`)
+        }
+
+        // Go through classify-breed as the user so imports follow the same path as field captures
+        const response = await fetch(`${supabaseUrl}/functions/v1/classify-breed`, {
+          method: 'POST',
+          headers: { Authorization: authHeader, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            images: [{ image_url: row.image_url, view: 'other' }],
+            animal_id: row.animal_id,
+            animal_type: row.animal_type,
+            owner_details: row.owner_name ? { name: row.owner_name, village: row.village || undefined } : null
+          })
+        })
+
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.details || result.error || `Classification failed with status ${response.status}`)
+        }
+
+        if (row.known_breed) {
+          const { error: breedError } = await supabase
+            .from('animal_records')
+            .update({ manual_breed: row.known_breed, updated_by: user.id })
+            .eq('id', result.animal_record_id)
+
+          if (breedError) {
+            throw new Error(`Classified, but the known breed could not be saved: ${breedError.message}`)
+          }
+        }
+
+        await supabase
+          .from('import_job_rows')
+          .update({ status: 'completed', error: null, animal_record_id: result.animal_record_id })
+          .eq('id', row.id)
+
+      } catch (rowError) {
+        console.error(`Import row ${row.row_number} of job ${job.id} failed:`, rowError)
+        await supabase
+          .from('import_job_rows')
+          .update({ status: 'failed', error: rowError instanceof Error ? rowError.message : String(rowError) })
+          .eq('id', row.id)
+      }
+    }
+
+    const [pending, processing, completed, failed] = await Promise.all([
+      countRows(job.id, 'pending'),
+      countRows(job.id, 'processing'),
+      countRows(job.id, 'completed'),
+      countRows(job.id, 'failed')
+    ])
+    const remaining = pending + processing
+
+    const jobUpdate: Record<string, unknown> = {
+      succeeded_rows: completed,
+      failed_rows: failed
+    }
+
+    if (remaining === 0) {
+      jobUpdate.status = completed === 0 ? 'failed' : failed > 0 ? 'completed_with_errors' : 'completed'
+      jobUpdate.completed_at = new Date().toISOString()
+    }
+
+    const { data: updatedJob } = await supabase
+      .from('import_jobs')
+      .update(jobUpdate)
+      .eq('id', job.id)
+      .select()
+      .single()
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job: updatedJob || job,
+        processed,
+        remaining
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in process-import-job function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
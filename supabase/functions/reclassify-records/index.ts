@@ -0,0 +1,248 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import type { AnimalType } from '../_shared/providers.ts'
+import { fuseViewPredictions, IMAGE_VIEWS, type ImageView } from '../_shared/fusion.ts'
+import { getDetectionProvider } from '../_shared/detection.ts'
+import { classifyViews, loadThresholds, predictionFields } from '../_shared/classification.ts'
+import { downloadImage, storagePathFromUrl } from '../_shared/images.ts'
+import { loadModelRunners } from '../_shared/models.ts'
+import { getEmbeddingProvider, storeRecordEmbedding } from '../_shared/embeddings.ts'
+import type { ConfidenceThresholds } from '../_shared/breeds.ts'
+import type { ViewDetections } from '../_shared/schemas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const MAX_RECORDS = 20
+
+interface StoredRecord {
+  id: string
+  animal_id: string
+  animal_type: AnimalType
+  image_url: string | null
+  animal_images: Array<{ image_url: string; view: string; position: number }> | null
+  breed_predictions: Array<{ detections: ViewDetections[] | null; source: string; created_at: string }> | null
+}
+
+// Runs the active model on a record's stored images and appends the result to its prediction history.
+// The record itself keeps its authoritative prediction until the worker picks the new one.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { record_ids } = await req.json().catch(() => ({}))
+    const recordIds: string[] = Array.isArray(record_ids) ? [...new Set<string>(record_ids.map(String))] : []
+
+    if (recordIds.length === 0 || recordIds.length > MAX_RECORDS) {
+      return new Response(
+        JSON.stringify({ error: `Send between 1 and ${MAX_RECORDS} record_ids` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: records, error: recordsError } = await supabase
+      .from('animal_records')
+      .select(`
+        id,
+        animal_id,
+        animal_type,
+        image_url,
+        animal_images (
+          image_url,
+          view,
+          position
+        ),
+        breed_predictions!breed_predictions_animal_record_id_fkey (
+          detections,
+          source,
+          created_at
+        )
+      `)
+      .in('id', recordIds)
+      .eq('user_id', user.id)
+
+    if (recordsError) {
+      console.error('Error fetching records to reclassify:', recordsError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch records', details: recordsError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    if (!records || records.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Record not found or access denied' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const { active } = await loadModelRunners(supabase)
+    const detector = getDetectionProvider()
+    const thresholdsByType = new Map<string, ConfidenceThresholds>()
+
+    // One record at a time keeps memory flat for bulk runs
+    const results = []
+    for (const record of records as StoredRecord[]) {
+      const startTime = Date.now()
+
+      const views = record.animal_images?.length
+        ? [...record.animal_images].sort((a, b) => a.position - b.position)
+        : record.image_url ? [{ image_url: record.image_url, view: 'other', position: 0 }] : []
+
+      if (views.length === 0) {
+        results.push({ record_id: record.id, animal_id: record.animal_id, success: false, error: 'Record has no stored images' })
+        continue
+      }
+
+      // Classify the same animal as before: reuse the boxes found when the record was captured
+      const stored = [...(record.breed_predictions || [])]
+        .filter((p) => p.source === 'server' && p.detections)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))[0]?.detections ?? null
+
+      try {
+        const blobs = await Promise.all(views.map((v) => {
+          const objectPath = storagePathFromUrl(v.image_url, supabaseUrl)
+          if (!objectPath) {
+            throw new Error(`Stored image ${v.image_url} is not in Storage`)
+          }
+          return downloadImage(supabase, objectPath)
+        }))
+
+        // Same rules as classify-breed: no animal in any photo is a not_bovine result, while an
+        // animal missing from only some photos means they can't be compared and need retaking
+        const { results: viewResults, missing, notBovine } = await classifyViews(active.provider, detector, views.map((v, i) => ({
+          image_url: v.image_url,
+          view: v.view,
+          image: blobs[i],
+          detections: stored?.find((d) => d.image_url === v.image_url)?.detections ?? null
+        })), record.animal_type)
+
+        if (missing.length > 0 && !notBovine) {
+          results.push({
+            record_id: record.id,
+            animal_id: record.animal_id,
+            success: false,
+            error: `No animal found in the stored ${missing[0].view.replace('_', ' ')} photo`
+          })
+          continue
+        }
+
+        // An empty result (only labels outside the catalog) is kept; its outcome is unknown_breed
+        const { predictions, contributions, non_bovine_score } = fuseViewPredictions(views.map((v, i) => ({
+          image_url: v.image_url,
+          view: IMAGE_VIEWS.includes(v.view as ImageView) ? v.view as ImageView : 'other',
+          predictions: viewResults[i].predictions,
+          non_bovine_score: viewResults[i].non_bovine_score
+        })))
+
+        const processingTime = Date.now() - startTime
+        const model_version = notBovine ? viewResults[0].model_version : active.versionLabel(viewResults[0].model_version)
+
+        const { data: prediction, error: logError } = await supabase
+          .from('breed_predictions')
+          .insert({
+            animal_record_id: record.id,
+            image_url: views[0].image_url,
+            predicted_breeds: predictions,
+            view_contributions: contributions,
+            non_bovine_score,
+            detections: viewResults.some((r) => r.detections)
+              ? viewResults.map((r) => r.detections).filter(Boolean)
+              : null,
+            model_version,
+            processing_time_ms: processingTime,
+            run_type: 'reclassify',
+            model_id: notBovine ? null : active.model?.id ?? null
+          })
+          .select('id, created_at')
+          .single()
+
+        if (logError) {
+          throw new Error(`Failed to store prediction: ${logError.message}`)
+        }
+
+        // Also the backfill for similarity search: records captured before embeddings were stored get
+        // one here. Awaited rather than deferred so only one record's photos are held at a time
+        try {
+          const embedder = getEmbeddingProvider()
+          if (embedder && !notBovine) {
+            await storeRecordEmbedding(supabase, embedder, record.id, views.map((v, i) => ({
+              image_url: v.image_url,
+              blob: blobs[i],
+              crop: viewResults[i].detections?.crop ?? null
+            })))
+          }
+        } catch (error) {
+          console.error(`Embedding failed for record ${record.id}:`, error)
+        }
+
+        if (!thresholdsByType.has(record.animal_type)) {
+          thresholdsByType.set(record.animal_type, await loadThresholds(supabase, record.animal_type))
+        }
+
+        results.push({
+          record_id: record.id,
+          animal_id: record.animal_id,
+          success: true,
+          prediction_id: prediction.id,
+          top_prediction: predictions[0] ?? null,
+          outcome: predictionFields(predictions, thresholdsByType.get(record.animal_type)!, non_bovine_score).prediction_outcome,
+          model_version,
+          processing_time_ms: processingTime
+        })
+      } catch (error) {
+        console.error(`Reclassification failed for record ${record.id}:`, error)
+        results.push({
+          record_id: record.id,
+          animal_id: record.animal_id,
+          success: false,
+          error: (error as Error).message
+        })
+      }
+    }
+
+    console.log(`Reclassified ${results.filter((r) => r.success).length}/${results.length} record(s) for user ${user.id}`)
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in reclassify-records function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,183 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { RECORD_COLUMNS } from '../_shared/records.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const REVIEWER_ROLES = ['supervisor', 'district_admin']
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: reviewer } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!reviewer || !REVIEWER_ROLES.includes(reviewer.role)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors can review records' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { record_id, decision, reason, final_breed } = await req.json()
+
+    if (!record_id || !['verified', 'rejected'].includes(decision)) {
+      return new Response(
+        JSON.stringify({ error: 'record_id and a decision of "verified" or "rejected" are required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'A reason is required for every review decision' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from('animal_records')
+      .select('id, user_id, animal_type, predicted_breed, manual_breed, final_breed')
+      .eq('id', record_id)
+      .maybeSingle()
+
+    if (recordError || !record) {
+      return new Response(
+        JSON.stringify({ error: 'Record not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    if (record.user_id === user.id) {
+      return new Response(
+        JSON.stringify({ error: 'You cannot verify your own records' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: inScope, error: scopeError } = await supabase.rpc('can_review_records_of', {
+      p_reviewer: user.id,
+      p_worker: record.user_id
+    })
+
+    if (scopeError || !inScope) {
+      return new Response(
+        JSON.stringify({ error: 'This record belongs to a worker outside your district' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const updateData: Record<string, unknown> = {
+      verification_status: decision,
+      verification_reason: reason.trim(),
+      verified_by: user.id,
+      updated_by: user.id
+    }
+
+    if (decision === 'verified') {
+      const finalBreedCode = final_breed
+        ? String(final_breed).trim().toLowerCase().replace(/\s+/g, '_')
+        : record.final_breed || record.manual_breed || record.predicted_breed
+
+      // Uncertain predictions leave predicted_breed empty, so the reviewer has to name the breed
+      if (!finalBreedCode) {
+        return new Response(
+          JSON.stringify({
+            error: 'The model was not confident about this animal; choose the breed before verifying',
+            code: 'breed_required',
+            field: 'final_breed'
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      // Same check as update-animal-record, so a typo never reaches the breed_type enum column
+      const { data: breeds } = await supabase
+        .from('breeds')
+        .select('breed_code')
+        .eq('animal_type', record.animal_type)
+
+      const allowedCodes = (breeds || []).map((b) => b.breed_code)
+      if (!allowedCodes.includes(finalBreedCode)) {
+        return new Response(
+          JSON.stringify({
+            error: `"${final_breed || finalBreedCode}" is not a known ${record.animal_type} breed`,
+            code: 'invalid_breed',
+            field: 'final_breed',
+            allowed_codes: allowedCodes
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      updateData.final_breed = finalBreedCode
+    }
+
+    const { data: updatedRecord, error } = await supabase
+      .from('animal_records')
+      .update(updateData)
+      .eq('id', record_id)
+      .select(RECORD_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error reviewing animal record:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to review animal record', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    console.log(`Animal record ${record_id} ${decision} by reviewer ${user.id}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        record: updatedRecord
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in review-animal-record function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
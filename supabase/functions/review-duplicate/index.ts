@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const REVIEWER_ROLES = ['supervisor', 'district_admin']
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: reviewer } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!reviewer || !REVIEWER_ROLES.includes(reviewer.role)) {
+      return new Response(
+        JSON.stringify({ error: 'Only supervisors can review duplicates' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { flag_id, decision, notes } = await req.json().catch(() => ({}))
+
+    if (!flag_id || !['confirmed', 'dismissed'].includes(decision)) {
+      return new Response(
+        JSON.stringify({ error: 'flag_id and a decision of "confirmed" or "dismissed" are required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: flag, error: flagError } = await supabase
+      .from('duplicate_flags')
+      .select('id, animal_record_id, record:animal_record_id (user_id)')
+      .eq('id', flag_id)
+      .maybeSingle()
+
+    if (flagError || !flag || !flag.record) {
+      return new Response(
+        JSON.stringify({ error: 'Duplicate flag not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const workerId = (flag.record as { user_id: string }).user_id
+
+    if (workerId === user.id) {
+      return new Response(
+        JSON.stringify({ error: 'You cannot review duplicates of your own records' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: inScope, error: scopeError } = await supabase.rpc('can_review_records_of', {
+      p_reviewer: user.id,
+      p_worker: workerId
+    })
+
+    if (scopeError || !inScope) {
+      return new Response(
+        JSON.stringify({ error: 'This record belongs to a worker outside your district' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: updatedFlag, error } = await supabase
+      .from('duplicate_flags')
+      .update({
+        status: decision,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        review_notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+      })
+      .eq('id', flag_id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error reviewing duplicate flag:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to review duplicate flag', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    console.log(`Duplicate flag ${flag_id} on record ${flag.animal_record_id} ${decision} by reviewer ${user.id}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        flag: updatedFlag
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in review-duplicate function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { fieldErrors, farmerSchema } from '../_shared/schemas.ts'
+import { FarmerValidationError, findOrCreateFarmer, getOwnFarmer, normalizePhone } from '../_shared/farmers.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { id, ...details } = await req.json()
+
+    // Editing an existing farmer by id; otherwise reuse a matching farmer or create one
+    if (id) {
+      const existing = await getOwnFarmer(supabase, user.id, id)
+      if (!existing) {
+        return new Response(
+          JSON.stringify({ error: 'Farmer not found or access denied' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      const parsed = farmerSchema.safeParse(details)
+      if (!parsed.success) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid farmer details', code: 'validation_error', fields: fieldErrors(parsed.error) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const { data: farmer, error } = await supabase
+        .from('farmers')
+        .update({ ...parsed.data, phone: normalizePhone(parsed.data.phone ?? null) })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating farmer:', error)
+        return new Response(
+          JSON.stringify({ error: 'Failed to update farmer', details: error.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, farmer }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const farmer = await findOrCreateFarmer(supabase, user.id, details)
+
+    return new Response(
+      JSON.stringify({ success: true, farmer }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof FarmerValidationError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: 'validation_error', fields: error.fields }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    console.error('Error in save-farmer function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
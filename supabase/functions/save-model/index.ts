@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { fieldErrors, modelSchema } from '../_shared/schemas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Registers a model or edits one. Making a model active moves the current active model to
+// shadow (or retired, with demote_to), since only one model answers users at a time.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization header required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profile?.role !== 'district_admin') {
+      return new Response(
+        JSON.stringify({ error: 'Only district admins can manage models' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { id, demote_to, ...details } = await req.json().catch(() => ({}))
+
+    // New models need every field; edits only the ones sent
+    const parsed = id ? modelSchema.partial().safeParse(details) : modelSchema.safeParse(details)
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid model details', code: 'validation_error', fields: fieldErrors(parsed.error) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (demote_to !== undefined && !['shadow', 'retired'].includes(demote_to)) {
+      return new Response(
+        JSON.stringify({ error: 'demote_to must be shadow or retired' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (id) {
+      const { data: existing } = await supabase
+        .from('models')
+        .select('id, status')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (!existing) {
+        return new Response(
+          JSON.stringify({ error: 'Model not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      // There must always be a model answering users; activate its replacement instead
+      if (existing.status === 'active' && parsed.data.status && parsed.data.status !== 'active') {
+        return new Response(
+          JSON.stringify({ error: 'Activate another model to take this one out of service' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+    }
+
+    // Free the single active slot first; it is restored if saving the new model fails
+    let demotedId: string | null = null
+    if (parsed.data.status === 'active') {
+      const { data: current } = await supabase
+        .from('models')
+        .select('id')
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (current && current.id !== id) {
+        const { error: demoteError } = await supabase
+          .from('models')
+          .update({ status: demote_to || 'shadow', updated_by: user.id })
+          .eq('id', current.id)
+
+        if (demoteError) {
+          console.error('Error demoting active model:', demoteError)
+          return new Response(
+            JSON.stringify({ error: 'Failed to demote the active model', details: demoteError.message }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+          )
+        }
+        demotedId = current.id
+      }
+    }
+
+    const { data: model, error } = id
+      ? await supabase
+          .from('models')
+          .update({ ...parsed.data, updated_by: user.id })
+          .eq('id', id)
+          .select()
+          .single()
+      : await supabase
+          .from('models')
+          .insert({ ...parsed.data, created_by: user.id, updated_by: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      if (demotedId) {
+        await supabase.from('models').update({ status: 'active' }).eq('id', demotedId)
+      }
+
+      // Unique (name, version)
+      if (error.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'A model with this name and version already exists', code: 'validation_error', fields: { version: 'Already registered' } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
+      }
+
+      // Foreign key to dataset_snapshots
+      if (error.code === '23503') {
+        return new Response(
+          JSON.stringify({ error: 'Dataset snapshot not found', code: 'validation_error', fields: { dataset_snapshot_id: 'Unknown snapshot' } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      console.error('Error saving model:', error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to save model', details: error.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    console.log(`Model ${model.name}@${model.version} saved as ${model.status} by ${user.id}${demotedId ? ` (demoted ${demotedId})` : ''}`)
+
+    return new Response(
+      JSON.stringify({ success: true, model, demoted_model_id: demotedId }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in save-model function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { fieldErrors, locationSchema, ownerDetailsSchema } from '../_shared/schemas.ts'
+import { getOwnFarmer, ownerDetailsFromFarmer } from '../_shared/farmers.ts'
+import { loadThresholds, predictionFields } from '../_shared/classification.ts'
+import { RECORD_COLUMNS } from '../_shared/records.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -41,11 +45,12 @@ serve(async (req) => {
     const { 
       record_id, 
       manual_breed, 
-      final_breed, 
       verification_status,
       notes,
       location_data,
-      owner_details 
+      owner_details,
+      farmer_id,
+      authoritative_prediction_id
     } = await req.json()
 
     if (!record_id) {
@@ -55,27 +60,145 @@ serve(async (req) => {
       )
     }
 
+    // Owners can reopen a record but verification decisions (and final_breed) go through review-animal-record
+    if (verification_status && verification_status !== 'pending') {
+      return new Response(
+        JSON.stringify({ error: 'Records can only be verified or rejected by a supervisor' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: record } = await supabase
+      .from('animal_records')
+      .select('id, animal_type, verification_status, manual_breed, authoritative_prediction_id')
+      .eq('id', record_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!record) {
+      return new Response(
+        JSON.stringify({ error: 'Record not found or access denied' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const manualBreedCode = manual_breed
+      ? String(manual_breed).trim().toLowerCase().replace(/\s+/g, '_')
+      : null
+
+    // Check against the breeds table before the value reaches the breed_type enum column
+    if (manualBreedCode) {
+      const { data: breeds, error: breedsError } = await supabase
+        .from('breeds')
+        .select('breed_code')
+        .eq('animal_type', record.animal_type)
+
+      if (breedsError) {
+        console.error('Error fetching breeds:', breedsError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to validate breed', details: breedsError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      const allowedCodes = (breeds || []).map((b) => b.breed_code)
+      if (!allowedCodes.includes(manualBreedCode)) {
+        return new Response(
+          JSON.stringify({
+            error: `"${manual_breed}" is not a known ${record.animal_type} breed`,
+            code: 'invalid_breed',
+            field: 'manual_breed',
+            allowed_codes: allowedCodes
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+    }
+
+    const location = location_data ? locationSchema.safeParse(location_data) : null
+    if (location && !location.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid location data', code: 'validation_error', fields: fieldErrors(location.error) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const owner = owner_details ? ownerDetailsSchema.safeParse(owner_details) : null
+    if (owner && !owner.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid farmer details', code: 'validation_error', fields: fieldErrors(owner.error) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const farmer = farmer_id ? await getOwnFarmer(supabase, user.id, farmer_id) : null
+    if (farmer_id && !farmer) {
+      return new Response(
+        JSON.stringify({ error: 'Farmer not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Any server prediction of this record can become the one its predicted breed comes from
+    let authoritative: {
+      id: string,
+      predicted_breeds: Array<{ breed: string, confidence: number }>,
+      non_bovine_score: number | null
+    } | null = null
+    if (authoritative_prediction_id) {
+      const { data: prediction } = await supabase
+        .from('breed_predictions')
+        .select('id, predicted_breeds, non_bovine_score')
+        .eq('id', authoritative_prediction_id)
+        .eq('animal_record_id', record_id)
+        .eq('source', 'server')
+        .maybeSingle()
+
+      // An empty breed list is a valid not_bovine or unknown_breed result
+      if (!prediction || !Array.isArray(prediction.predicted_breeds)) {
+        return new Response(
+          JSON.stringify({ error: 'Prediction not found for this record' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+      authoritative = prediction
+    }
+
     // Prepare update data
     const updateData: any = {}
     
-    if (manual_breed) updateData.manual_breed = manual_breed.toLowerCase().replace(/\s+/g, '_')
-    if (final_breed) updateData.final_breed = final_breed.toLowerCase().replace(/\s+/g, '_')
+    if (manualBreedCode) updateData.manual_breed = manualBreedCode
     if (verification_status) updateData.verification_status = verification_status
     if (notes !== undefined) updateData.notes = notes
-    if (location_data) updateData.location_data = location_data
-    if (owner_details) updateData.owner_details = owner_details
-
-    // If verification status is being set, record who verified it
-    if (verification_status && ['verified', 'rejected'].includes(verification_status)) {
-      updateData.verified_by = user.id
+    if (location?.success) updateData.location_data = location.data
+    if (owner?.success) updateData.owner_details = owner.data
+    // Linking a farmer replaces the owner snapshot with the farmer's current details
+    if (farmer) {
+      updateData.farmer_id = farmer.id
+      updateData.owner_details = ownerDetailsFromFarmer(farmer)
+    }
+    if (authoritative) {
+      Object.assign(updateData, predictionFields(
+        authoritative.predicted_breeds,
+        await loadThresholds(supabase, record.animal_type),
+        authoritative.non_bovine_score === null ? null : Number(authoritative.non_bovine_score)
+      ))
+      updateData.authoritative_prediction_id = authoritative.id
+    }
+    // A reviewer's decision only covers the breed they saw, so changing it reopens the review
+    const breedChanged = (manualBreedCode !== null && manualBreedCode !== record.manual_breed)
+      || (authoritative !== null && authoritative.id !== record.authoritative_prediction_id)
+    if (breedChanged && record.verification_status !== 'pending') {
+      updateData.verification_status = 'pending'
     }
+    updateData.updated_by = user.id
 
     const { data: updatedRecord, error } = await supabase
       .from('animal_records')
       .update(updateData)
       .eq('id', record_id)
       .eq('user_id', user.id) // Ensure user can only update their own records
-      .select()
+      .select(RECORD_COLUMNS)
       .single()
 
     if (error) {
@@ -0,0 +1,57 @@
+-- Aggregated dashboard statistics for a single user's animal records.
+-- SECURITY INVOKER so direct RPC callers only ever see rows RLS lets them see;
+-- the get-dashboard-stats edge function calls it with the service role.
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats(p_user_id UUID, p_days INTEGER DEFAULT 30)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH records AS (
+    SELECT * FROM public.animal_records WHERE user_id = p_user_id
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM records),
+    'recent_24h', (SELECT count(*) FROM records WHERE created_at > now() - interval '24 hours'),
+    'average_confidence', (SELECT round(avg(confidence_score), 4) FROM records),
+    'by_status', (
+      SELECT coalesce(jsonb_object_agg(status, total), '{}'::jsonb)
+      FROM (
+        SELECT coalesce(verification_status, 'pending') AS status, count(*) AS total
+        FROM records
+        GROUP BY 1
+      ) s
+    ),
+    'by_animal_type', (
+      SELECT coalesce(jsonb_object_agg(animal_type, total), '{}'::jsonb)
+      FROM (
+        SELECT animal_type, count(*) AS total
+        FROM records
+        GROUP BY 1
+      ) t
+    ),
+    'by_breed', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('breed', breed, 'count', total) ORDER BY total DESC, breed), '[]'::jsonb)
+      FROM (
+        SELECT coalesce(final_breed, predicted_breed)::text AS breed, count(*) AS total
+        FROM records
+        WHERE coalesce(final_breed, predicted_breed) IS NOT NULL
+        GROUP BY 1
+      ) b
+    ),
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object('date', day::date, 'count', coalesce(c.total, 0)) ORDER BY day)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS day
+      LEFT JOIN (
+        SELECT created_at::date AS created_on, count(*) AS total
+        FROM records
+        WHERE created_at >= current_date - (p_days - 1)
+        GROUP BY 1
+      ) c ON c.created_on = day::date
+    )
+  );
+$$;
+
+-- Speeds up the per-user aggregates above
+CREATE INDEX IF NOT EXISTS idx_animal_records_user_created
+  ON public.animal_records (user_id, created_at DESC);
@@ -0,0 +1,51 @@
+-- Views a field worker can capture for one animal
+CREATE TYPE public.image_view AS ENUM ('left_side', 'right_side', 'front_face', 'rear_udder', 'other');
+
+-- One row per photo of an animal, with that photo's own prediction
+CREATE TABLE public.animal_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  animal_record_id UUID NOT NULL REFERENCES public.animal_records(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  image_url TEXT NOT NULL,
+  view image_view NOT NULL DEFAULT 'other',
+  position INTEGER NOT NULL DEFAULT 0, -- capture order, 0 is the primary photo
+  predicted_breeds JSONB, -- Per-view predictions with confidence scores
+  weight DECIMAL(4,3), -- Weight this view carried in the fused result
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_animal_images_record ON public.animal_images (animal_record_id, position);
+
+-- How each view contributed to the fused prediction
+ALTER TABLE public.breed_predictions
+  ADD COLUMN view_contributions JSONB;
+
+ALTER TABLE public.animal_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own animal images"
+ON public.animal_images FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add images to their own animal records"
+ON public.animal_images FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.animal_records
+    WHERE animal_records.id = animal_images.animal_record_id
+    AND animal_records.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own animal images"
+ON public.animal_images FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Existing single-photo records become one "other" view each
+INSERT INTO public.animal_images (animal_record_id, user_id, image_url, view, position, predicted_breeds, weight)
+SELECT r.id, r.user_id, r.image_url, 'other', 0,
+  (SELECT p.predicted_breeds FROM public.breed_predictions p
+   WHERE p.animal_record_id = r.id ORDER BY p.created_at DESC LIMIT 1),
+  1
+FROM public.animal_records r
+WHERE r.image_url IS NOT NULL;
@@ -0,0 +1,148 @@
+-- Roles for the verification workflow
+CREATE TYPE public.app_role AS ENUM ('field_worker', 'supervisor', 'district_admin');
+
+ALTER TABLE public.profiles
+  ADD COLUMN role app_role NOT NULL DEFAULT 'field_worker';
+
+-- Review outcome details
+ALTER TABLE public.animal_records
+  ADD COLUMN verification_reason TEXT,
+  ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_profiles_district_state ON public.profiles (state, district);
+CREATE INDEX idx_animal_records_status ON public.animal_records (verification_status, created_at DESC);
+
+-- Role lookup that bypasses profiles RLS, so policies can call it without recursion
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = p_user_id
+$$;
+
+-- Supervisors review workers in their district, district admins everyone in their state.
+-- Nobody reviews their own records.
+CREATE OR REPLACE FUNCTION public.can_review_records_of(p_reviewer UUID, p_worker UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_reviewer IS DISTINCT FROM p_worker AND EXISTS (
+    SELECT 1
+    FROM public.profiles reviewer
+    JOIN public.profiles worker ON worker.user_id = p_worker
+    WHERE reviewer.user_id = p_reviewer
+      AND worker.state IS NOT NULL
+      AND lower(reviewer.state) = lower(worker.state)
+      AND (
+        reviewer.role = 'district_admin'
+        OR (
+          reviewer.role = 'supervisor'
+          AND worker.district IS NOT NULL
+          AND lower(reviewer.district) = lower(worker.district)
+        )
+      )
+  )
+$$;
+
+-- Reviewers can read records and predictions of the workers they supervise
+CREATE POLICY "Reviewers can view records in their area"
+ON public.animal_records FOR SELECT
+USING (public.can_review_records_of(auth.uid(), user_id));
+
+CREATE POLICY "Reviewers can verify records in their area"
+ON public.animal_records FOR UPDATE
+USING (public.can_review_records_of(auth.uid(), user_id));
+
+CREATE POLICY "Reviewers can view predictions in their area"
+ON public.breed_predictions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.animal_records
+    WHERE animal_records.id = breed_predictions.animal_record_id
+    AND public.can_review_records_of(auth.uid(), animal_records.user_id)
+  )
+);
+
+CREATE POLICY "Reviewers can view images in their area"
+ON public.animal_images FOR SELECT
+USING (public.can_review_records_of(auth.uid(), user_id));
+
+CREATE POLICY "Reviewers can view worker profiles in their area"
+ON public.profiles FOR SELECT
+USING (public.can_review_records_of(auth.uid(), user_id));
+
+-- Verification rules enforced for every writer, including the edge functions:
+-- a decision needs a reviewer other than the owner and a reason
+CREATE OR REPLACE FUNCTION public.enforce_verification_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.verification_status IN ('verified', 'rejected')
+     AND NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+    IF NEW.verified_by IS NULL OR NEW.verified_by = NEW.user_id THEN
+      RAISE EXCEPTION 'Records must be verified by a reviewer other than their owner';
+    END IF;
+    -- Direct client writes must come from a reviewer for this worker, acting as themselves
+    IF auth.uid() IS NOT NULL AND (
+      NEW.verified_by <> auth.uid() OR NOT public.can_review_records_of(auth.uid(), NEW.user_id)
+    ) THEN
+      RAISE EXCEPTION 'Only a supervisor for this worker can verify the record';
+    END IF;
+    IF NEW.verification_reason IS NULL OR btrim(NEW.verification_reason) = '' THEN
+      RAISE EXCEPTION 'A reason is required to verify or reject a record';
+    END IF;
+    NEW.verified_at = now();
+  END IF;
+
+  -- Reopening a record clears the previous decision
+  IF NEW.verification_status = 'pending' AND OLD.verification_status IS DISTINCT FROM 'pending' THEN
+    NEW.verified_by = NULL;
+    NEW.verified_at = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_animal_records_verification
+  BEFORE INSERT OR UPDATE ON public.animal_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_verification_rules();
+
+-- Users may edit their own profile but not promote themselves
+CREATE OR REPLACE FUNCTION public.prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.get_user_role(auth.uid()) IS NOT DISTINCT FROM 'district_admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.role <> 'field_worker')
+     OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role) THEN
+    RAISE EXCEPTION 'Only a district admin can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_role_self_assignment
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_self_assignment();
+
+-- Self-approved records from before this workflow go back to the queue
+UPDATE public.animal_records
+SET verification_status = 'pending'
+WHERE verification_status IN ('verified', 'rejected')
+  AND (verified_by IS NULL OR verified_by = user_id);
@@ -0,0 +1,110 @@
+-- Who made the latest change; edge functions run as the service role, so auth.uid() is empty there
+ALTER TABLE public.animal_records
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id);
+
+-- One row per insert, edit or delete of an animal record.
+-- No foreign key to animal_records so the trail survives deleting the record.
+CREATE TABLE public.animal_record_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  animal_record_id UUID NOT NULL,
+  user_id UUID NOT NULL, -- owner of the record, for RLS
+  changed_by UUID REFERENCES auth.users(id),
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  old_values JSONB,
+  new_values JSONB,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_animal_record_history_record ON public.animal_record_history (animal_record_id, changed_at DESC);
+
+ALTER TABLE public.animal_record_history ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients: rows are only written by the trigger below
+CREATE POLICY "Users can view history of their own records"
+ON public.animal_record_history FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Reviewers can view history of records in their area"
+ON public.animal_record_history FOR SELECT
+USING (public.can_review_records_of(auth.uid(), user_id));
+
+CREATE OR REPLACE FUNCTION public.log_animal_record_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns are left out of the trail
+  tracked TEXT[] := ARRAY[
+    'animal_id', 'animal_type', 'predicted_breed', 'manual_breed', 'final_breed',
+    'confidence_score', 'image_url', 'location_data', 'owner_details',
+    'verification_status', 'verification_reason', 'verified_by', 'notes'
+  ];
+  -- Nulls are stripped so a new record only lists the fields it was created with
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(OLD)) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(NEW)) END;
+  field TEXT;
+  fields TEXT[] := '{}';
+  old_changes JSONB := '{}'::jsonb;
+  new_changes JSONB := '{}'::jsonb;
+BEGIN
+  FOREACH field IN ARRAY tracked LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      fields := fields || field;
+      old_changes := old_changes || jsonb_build_object(field, old_row -> field);
+      new_changes := new_changes || jsonb_build_object(field, new_row -> field);
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND cardinality(fields) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.animal_record_history (
+    animal_record_id, user_id, changed_by, operation, changed_fields, old_values, new_values
+  ) VALUES (
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.user_id, OLD.user_id),
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE COALESCE(NEW.updated_by, NEW.user_id) END),
+    TG_OP,
+    fields,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE old_changes END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE new_changes END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER log_animal_records_history
+  AFTER INSERT OR UPDATE OR DELETE ON public.animal_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_animal_record_change();
+
+-- Existing records start their trail from their current state
+INSERT INTO public.animal_record_history (
+  animal_record_id, user_id, changed_by, operation, changed_fields, new_values, changed_at
+)
+SELECT
+  r.id,
+  r.user_id,
+  r.user_id,
+  'INSERT',
+  ARRAY(SELECT jsonb_object_keys(snapshot.v)),
+  snapshot.v,
+  r.created_at
+FROM public.animal_records r
+CROSS JOIN LATERAL (
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'animal_id', r.animal_id,
+    'animal_type', r.animal_type,
+    'predicted_breed', r.predicted_breed,
+    'manual_breed', r.manual_breed,
+    'final_breed', r.final_breed,
+    'confidence_score', r.confidence_score,
+    'verification_status', r.verification_status,
+    'notes', r.notes
+  )) AS v
+) snapshot;
@@ -0,0 +1,58 @@
+-- Bulk import of historical photos: one job per uploaded ZIP + manifest, one row per manifest line
+CREATE TABLE public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'completed_with_errors', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  succeeded_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.import_job_rows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL, -- line in the manifest, header excluded
+  animal_id TEXT,
+  animal_type TEXT,
+  owner_name TEXT,
+  village TEXT,
+  known_breed TEXT,
+  image_file TEXT,
+  image_url TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  error TEXT,
+  animal_record_id UUID REFERENCES public.animal_records(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, row_number)
+);
+
+CREATE INDEX idx_import_jobs_user ON public.import_jobs (user_id, created_at DESC);
+CREATE INDEX idx_import_job_rows_job_status ON public.import_job_rows (job_id, status, row_number);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_rows ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the import edge functions; users can only read their own
+CREATE POLICY "Users can view their own import jobs"
+ON public.import_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own import rows"
+ON public.import_job_rows FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_jobs_updated_at
+  BEFORE UPDATE ON public.import_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_import_job_rows_updated_at
+  BEFORE UPDATE ON public.import_job_rows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
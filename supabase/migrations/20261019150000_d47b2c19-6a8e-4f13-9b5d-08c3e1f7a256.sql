@@ -0,0 +1,45 @@
+-- Farmers (animal owners), captured once and reused for every animal they own
+CREATE TABLE public.farmers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  phone TEXT,
+  village TEXT NOT NULL,
+  tehsil TEXT,
+  district TEXT NOT NULL,
+  state TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A worker registers each phone number once; farmers without a phone are matched by name and village
+CREATE UNIQUE INDEX idx_farmers_created_by_phone ON public.farmers (created_by, phone) WHERE phone IS NOT NULL;
+CREATE INDEX idx_farmers_created_by_name ON public.farmers (created_by, lower(name));
+
+ALTER TABLE public.animal_records
+  ADD COLUMN farmer_id UUID REFERENCES public.farmers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_animal_records_farmer ON public.animal_records (farmer_id);
+
+ALTER TABLE public.farmers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own farmers"
+ON public.farmers FOR SELECT
+USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can insert their own farmers"
+ON public.farmers FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their own farmers"
+ON public.farmers FOR UPDATE
+USING (auth.uid() = created_by);
+
+CREATE POLICY "Reviewers can view farmers in their area"
+ON public.farmers FOR SELECT
+USING (public.can_review_records_of(auth.uid(), created_by));
+
+CREATE TRIGGER update_farmers_updated_at
+  BEFORE UPDATE ON public.farmers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
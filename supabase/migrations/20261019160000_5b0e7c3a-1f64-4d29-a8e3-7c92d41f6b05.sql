@@ -0,0 +1,15 @@
+-- Make the animal-images bucket private again (reverts 20250924112535).
+-- Images are now shown through short-lived signed URLs from the get-image-url function,
+-- which also generates the thumb/medium renditions under <user_id>/renditions/.
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'animal-images';
+
+-- Retried captures upload to the same path with upsert, which needs UPDATE on the object
+DROP POLICY IF EXISTS "Users can replace their animal images" ON storage.objects;
+CREATE POLICY "Users can replace their animal images"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'animal-images' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,7 @@
+-- Client-side photo quality scores (blur, exposure, resolution, aspect) for each view,
+-- kept with the prediction so quality can be compared with later breed corrections
+ALTER TABLE public.breed_predictions
+  ADD COLUMN quality_scores JSONB;
+
+COMMENT ON COLUMN public.breed_predictions.quality_scores IS
+  'Array of { image_url, view, level, issues, blur, brightness, dark_fraction, bright_fraction, width, height, aspect_ratio } per classified view';
@@ -0,0 +1,8 @@
+-- Provisional predictions made in the browser with the on-device ONNX model are stored
+-- next to the server prediction for the same capture, so the two can be compared
+ALTER TABLE public.breed_predictions
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'server'
+    CHECK (source IN ('server', 'on_device'));
+
+CREATE INDEX idx_breed_predictions_record_source
+  ON public.breed_predictions (animal_record_id, source, created_at DESC);
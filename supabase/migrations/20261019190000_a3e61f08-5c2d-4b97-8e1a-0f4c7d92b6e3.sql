@@ -0,0 +1,38 @@
+-- Minimum top-1 confidence and margin over the runner-up a prediction needs before its breed
+-- is taken as the record's predicted breed. Anything below goes to a reviewer instead.
+CREATE TABLE public.classification_thresholds (
+  animal_type animal_type PRIMARY KEY,
+  min_confidence DECIMAL(5,4) NOT NULL CHECK (min_confidence BETWEEN 0 AND 1),
+  min_margin DECIMAL(5,4) NOT NULL CHECK (min_margin BETWEEN 0 AND 1),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.classification_thresholds (animal_type, min_confidence, min_margin) VALUES
+  ('cattle', 0.6, 0.15),
+  ('buffalo', 0.6, 0.15);
+
+ALTER TABLE public.classification_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view classification thresholds"
+ON public.classification_thresholds FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "District admins can update classification thresholds"
+ON public.classification_thresholds FOR UPDATE
+USING (public.get_user_role(auth.uid()) = 'district_admin');
+
+CREATE TRIGGER update_classification_thresholds_updated_at
+BEFORE UPDATE ON public.classification_thresholds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 'needs_review' records keep predicted_breed empty until a reviewer picks the breed
+ALTER TABLE public.animal_records
+  ADD COLUMN prediction_outcome TEXT NOT NULL DEFAULT 'confident'
+    CHECK (prediction_outcome IN ('confident', 'needs_review'));
+
+CREATE INDEX idx_animal_records_outcome
+  ON public.animal_records (prediction_outcome, verification_status, created_at);
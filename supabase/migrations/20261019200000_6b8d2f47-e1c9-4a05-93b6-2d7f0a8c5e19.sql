@@ -0,0 +1,5 @@
+-- Animals found by the detector in each view, with the box that was cropped and classified:
+-- [{ image_url, view, detections: [{ label, score, box: { x, y, width, height } }], crop }]
+-- Boxes are fractions of the image size. NULL when no detector ran.
+ALTER TABLE public.breed_predictions
+  ADD COLUMN detections JSONB;
@@ -0,0 +1,18 @@
+-- Records can be classified again with the stored images; every run is kept in breed_predictions
+-- and the worker chooses which one the record's predicted breed comes from
+ALTER TABLE public.breed_predictions
+  ADD COLUMN run_type TEXT NOT NULL DEFAULT 'capture'
+    CHECK (run_type IN ('capture', 'reclassify'));
+
+ALTER TABLE public.animal_records
+  ADD COLUMN authoritative_prediction_id UUID REFERENCES public.breed_predictions(id) ON DELETE SET NULL;
+
+-- Until now the latest server prediction was the one shown
+UPDATE public.animal_records r
+SET authoritative_prediction_id = (
+  SELECT p.id
+  FROM public.breed_predictions p
+  WHERE p.animal_record_id = r.id AND p.source = 'server'
+  ORDER BY p.created_at DESC
+  LIMIT 1
+);
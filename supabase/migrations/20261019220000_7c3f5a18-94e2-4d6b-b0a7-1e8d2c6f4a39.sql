@@ -0,0 +1,41 @@
+-- Registered classification models. The active model answers users; shadow models run on the
+-- same photos in the background so a candidate can be compared before it is promoted.
+CREATE TABLE public.models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('mock', 'fastapi', 'huggingface', 'onnx')),
+  -- Endpoint settings such as api_url, model_id, model_url, labels, input_size. No credentials.
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'shadow' CHECK (status IN ('active', 'shadow', 'retired')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (name, version)
+);
+
+-- At most one model answers users at a time
+CREATE UNIQUE INDEX idx_models_single_active ON public.models ((status)) WHERE status = 'active';
+
+ALTER TABLE public.models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "District admins can view models"
+ON public.models FOR SELECT
+USING (public.get_user_role(auth.uid()) = 'district_admin');
+
+CREATE TRIGGER update_models_updated_at
+BEFORE UPDATE ON public.models
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Shadow predictions are logged next to the active one they ran alongside
+ALTER TABLE public.breed_predictions
+  DROP CONSTRAINT breed_predictions_source_check,
+  ADD CONSTRAINT breed_predictions_source_check CHECK (source IN ('server', 'on_device', 'shadow')),
+  ADD COLUMN model_id UUID REFERENCES public.models(id) ON DELETE SET NULL,
+  ADD COLUMN shadow_of UUID REFERENCES public.breed_predictions(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_breed_predictions_model ON public.breed_predictions (model_id, created_at DESC);
+CREATE INDEX idx_breed_predictions_shadow_of ON public.breed_predictions (shadow_of);
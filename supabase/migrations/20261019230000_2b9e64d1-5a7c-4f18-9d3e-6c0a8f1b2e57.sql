@@ -0,0 +1,52 @@
+-- Training datasets: a frozen list of verified images with their final_breed and split, so the
+-- archive can be rebuilt and a model traced back to the data it was trained on
+CREATE TABLE public.dataset_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL,
+  -- Filters the records were selected with, e.g. { "animal_type": "cattle", "date_to": "2026-09-30" }
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Fractions for train / val / test, e.g. { "train": 0.8, "val": 0.1, "test": 0.1 }
+  split_ratios JSONB NOT NULL,
+  seed TEXT NOT NULL,
+  record_count INTEGER NOT NULL DEFAULT 0,
+  image_count INTEGER NOT NULL DEFAULT 0,
+  -- { breed: { train, val, test } } in records
+  breed_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.dataset_snapshot_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES public.dataset_snapshots(id) ON DELETE CASCADE,
+  -- Kept when the record is deleted so the snapshot stays reproducible from Storage
+  animal_record_id UUID REFERENCES public.animal_records(id) ON DELETE SET NULL,
+  animal_id TEXT NOT NULL,
+  animal_type TEXT NOT NULL,
+  breed breed_type NOT NULL,
+  split TEXT NOT NULL CHECK (split IN ('train', 'val', 'test')),
+  image_url TEXT NOT NULL,
+  view TEXT NOT NULL,
+  -- Normalized box of the animal when the photo shows more than the animal (herd photos)
+  crop JSONB,
+  position INTEGER NOT NULL
+);
+
+CREATE INDEX idx_dataset_snapshots_created ON public.dataset_snapshots (created_at DESC);
+CREATE INDEX idx_dataset_snapshot_items_snapshot ON public.dataset_snapshot_items (snapshot_id, position);
+
+ALTER TABLE public.dataset_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dataset_snapshot_items ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written by create-dataset-snapshot; district admins can read them
+CREATE POLICY "District admins can view dataset snapshots"
+ON public.dataset_snapshots FOR SELECT
+USING (public.get_user_role(auth.uid()) = 'district_admin');
+
+CREATE POLICY "District admins can view dataset snapshot items"
+ON public.dataset_snapshot_items FOR SELECT
+USING (public.get_user_role(auth.uid()) = 'district_admin');
+
+-- The data a registered model was trained on
+ALTER TABLE public.models
+  ADD COLUMN dataset_snapshot_id UUID REFERENCES public.dataset_snapshots(id) ON DELETE SET NULL;
@@ -0,0 +1,114 @@
+-- Perceptual hash (64-bit DCT hash as 16 hex characters) of the animal in each photo
+ALTER TABLE public.animal_images
+  ADD COLUMN phash TEXT CHECK (phash ~ '^[0-9a-f]{16}$');
+
+-- Number of differing bits between two perceptual hashes
+CREATE OR REPLACE FUNCTION public.phash_distance(a TEXT, b TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || a)::bit(64) # ('x' || b)::bit(64))::integer
+$$;
+
+-- Near-identical photos of a record among the same worker's records and the rest of
+-- the worker's district. Called by classify-breed with the service role.
+CREATE OR REPLACE FUNCTION public.find_duplicate_images(p_record_id UUID, p_max_distance INTEGER)
+RETURNS TABLE (
+  image_url TEXT,
+  matched_record_id UUID,
+  matched_animal_id TEXT,
+  matched_image_url TEXT,
+  matched_user_id UUID,
+  distance INTEGER,
+  same_worker BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT r.id, r.user_id, p.district, p.state
+    FROM public.animal_records r
+    LEFT JOIN public.profiles p ON p.user_id = r.user_id
+    WHERE r.id = p_record_id
+  ),
+  scope AS (
+    SELECT t.user_id FROM target t
+    UNION
+    SELECT p.user_id
+    FROM public.profiles p, target t
+    WHERE t.district IS NOT NULL
+      AND lower(p.district) = lower(t.district)
+      AND lower(p.state) = lower(t.state)
+  )
+  SELECT DISTINCT ON (own.image_url, other.animal_record_id)
+    own.image_url,
+    other.animal_record_id,
+    r.animal_id,
+    other.image_url,
+    r.user_id,
+    public.phash_distance(own.phash, other.phash),
+    r.user_id = (SELECT user_id FROM target)
+  FROM public.animal_images own
+  JOIN public.animal_images other
+    ON other.animal_record_id <> own.animal_record_id
+    AND other.phash IS NOT NULL
+    AND public.phash_distance(own.phash, other.phash) <= p_max_distance
+  JOIN public.animal_records r ON r.id = other.animal_record_id
+  WHERE own.animal_record_id = p_record_id
+    AND own.phash IS NOT NULL
+    AND r.user_id IN (SELECT user_id FROM scope)
+  ORDER BY own.image_url, other.animal_record_id, public.phash_distance(own.phash, other.phash)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_duplicate_images(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- A capture whose photo looks like one already stored for another animal
+CREATE TABLE public.duplicate_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  animal_record_id UUID NOT NULL REFERENCES public.animal_records(id) ON DELETE CASCADE,
+  image_url TEXT NOT NULL,
+  matched_record_id UUID NOT NULL REFERENCES public.animal_records(id) ON DELETE CASCADE,
+  matched_image_url TEXT NOT NULL,
+  distance INTEGER NOT NULL,
+  same_worker BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (animal_record_id, matched_record_id)
+);
+
+CREATE INDEX idx_duplicate_flags_status ON public.duplicate_flags (status, created_at DESC);
+CREATE INDEX idx_duplicate_flags_matched ON public.duplicate_flags (matched_record_id);
+
+ALTER TABLE public.duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+-- Flags are written by the edge functions; workers see flags on their records, reviewers those in their area
+CREATE POLICY "Users can view duplicate flags on their records"
+ON public.duplicate_flags FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.animal_records
+    WHERE animal_records.id = duplicate_flags.animal_record_id
+    AND animal_records.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Reviewers can view duplicate flags in their area"
+ON public.duplicate_flags FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.animal_records
+    WHERE animal_records.id = duplicate_flags.animal_record_id
+    AND public.can_review_records_of(auth.uid(), animal_records.user_id)
+  )
+);
+
+CREATE TRIGGER update_duplicate_flags_updated_at
+  BEFORE UPDATE ON public.duplicate_flags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,60 @@
+-- Image embeddings for "find animals that look like this one"
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Embedding of each view, and of the record as the normalised mean of its views.
+-- embedding_model keeps vectors from different encoders from being compared.
+ALTER TABLE public.animal_images
+  ADD COLUMN embedding extensions.vector(512);
+
+ALTER TABLE public.animal_records
+  ADD COLUMN embedding extensions.vector(512),
+  ADD COLUMN embedding_model TEXT;
+
+-- Only verified records are searched, so only they are indexed
+CREATE INDEX idx_animal_records_embedding_verified ON public.animal_records
+  USING hnsw (embedding extensions.vector_cosine_ops)
+  WHERE verification_status = 'verified';
+
+-- Verified records closest to an embedding, most similar first. Called by find-similar-animals
+-- with the service role, which decides what the caller may see of each match.
+CREATE OR REPLACE FUNCTION public.match_verified_records(
+  p_embedding extensions.vector(512),
+  p_embedding_model TEXT,
+  p_animal_type TEXT DEFAULT NULL,
+  p_exclude_record UUID DEFAULT NULL,
+  p_match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  animal_id TEXT,
+  user_id UUID,
+  animal_type TEXT,
+  final_breed TEXT,
+  image_url TEXT,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    r.id,
+    r.animal_id,
+    r.user_id,
+    r.animal_type::text,
+    r.final_breed::text,
+    r.image_url,
+    r.verified_at,
+    1 - (r.embedding <=> p_embedding)
+  FROM public.animal_records r
+  WHERE r.verification_status = 'verified'
+    AND r.embedding IS NOT NULL
+    AND r.embedding_model = p_embedding_model
+    AND (p_animal_type IS NULL OR r.animal_type::text = p_animal_type)
+    AND (p_exclude_record IS NULL OR r.id <> p_exclude_record)
+  ORDER BY r.embedding <=> p_embedding
+  LIMIT LEAST(p_match_count, 50)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_verified_records(extensions.vector, TEXT, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
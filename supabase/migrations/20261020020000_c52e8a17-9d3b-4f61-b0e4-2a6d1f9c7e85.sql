@@ -0,0 +1,79 @@
+-- Open-set outcomes: 'not_bovine' for photos without cattle or buffalo and 'unknown_breed' for
+-- animals that fit no catalog breed. Like 'needs_review', both leave predicted_breed empty.
+ALTER TABLE public.classification_thresholds
+  ADD COLUMN min_known_confidence DECIMAL(5,4) NOT NULL DEFAULT 0.3
+    CHECK (min_known_confidence BETWEEN 0 AND 1),
+  ADD COLUMN max_non_bovine DECIMAL(5,4) NOT NULL DEFAULT 0.5
+    CHECK (max_non_bovine BETWEEN 0 AND 1),
+  ADD CONSTRAINT classification_thresholds_known_below_confident
+    CHECK (min_known_confidence <= min_confidence);
+
+ALTER TABLE public.animal_records
+  DROP CONSTRAINT animal_records_prediction_outcome_check,
+  ADD CONSTRAINT animal_records_prediction_outcome_check
+    CHECK (prediction_outcome IN ('confident', 'needs_review', 'unknown_breed', 'not_bovine'));
+
+-- Score given to "no cattle or buffalo": the model's non-bovine class, or 1 when the detector
+-- found none. Null for models without such a class.
+ALTER TABLE public.breed_predictions
+  ADD COLUMN non_bovine_score DECIMAL(5,4) CHECK (non_bovine_score BETWEEN 0 AND 1);
+
+-- Dashboard stats gain the records per prediction outcome
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats(p_user_id UUID, p_days INTEGER DEFAULT 30)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH records AS (
+    SELECT * FROM public.animal_records WHERE user_id = p_user_id
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM records),
+    'recent_24h', (SELECT count(*) FROM records WHERE created_at > now() - interval '24 hours'),
+    'average_confidence', (SELECT round(avg(confidence_score), 4) FROM records),
+    'by_status', (
+      SELECT coalesce(jsonb_object_agg(status, total), '{}'::jsonb)
+      FROM (
+        SELECT coalesce(verification_status, 'pending') AS status, count(*) AS total
+        FROM records
+        GROUP BY 1
+      ) s
+    ),
+    'by_outcome', (
+      SELECT coalesce(jsonb_object_agg(prediction_outcome, total), '{}'::jsonb)
+      FROM (
+        SELECT prediction_outcome, count(*) AS total
+        FROM records
+        GROUP BY 1
+      ) o
+    ),
+    'by_animal_type', (
+      SELECT coalesce(jsonb_object_agg(animal_type, total), '{}'::jsonb)
+      FROM (
+        SELECT animal_type, count(*) AS total
+        FROM records
+        GROUP BY 1
+      ) t
+    ),
+    'by_breed', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('breed', breed, 'count', total) ORDER BY total DESC, breed), '[]'::jsonb)
+      FROM (
+        SELECT coalesce(final_breed, predicted_breed)::text AS breed, count(*) AS total
+        FROM records
+        WHERE coalesce(final_breed, predicted_breed) IS NOT NULL
+        GROUP BY 1
+      ) b
+    ),
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object('date', day::date, 'count', coalesce(c.total, 0)) ORDER BY day)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS day
+      LEFT JOIN (
+        SELECT created_at::date AS created_on, count(*) AS total
+        FROM records
+        WHERE created_at >= current_date - (p_days - 1)
+        GROUP BY 1
+      ) c ON c.created_on = day::date
+    )
+  );
+$$;
@@ -0,0 +1,64 @@
+-- A reviewer's area comes from their profile, so district and state are assigned by an
+-- administrator rather than typed in by the user
+CREATE OR REPLACE FUNCTION public.prevent_area_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role, dashboard and the sign-up trigger
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND (NEW.district IS NOT NULL OR NEW.state IS NOT NULL))
+     OR (TG_OP = 'UPDATE' AND (
+       NEW.district IS DISTINCT FROM OLD.district OR NEW.state IS DISTINCT FROM OLD.state
+     )) THEN
+    RAISE EXCEPTION 'Only an administrator can change district or state';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_area_self_assignment
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_area_self_assignment();
+
+-- Normalised area names, compared with equality everywhere a scope is worked out
+ALTER TABLE public.profiles
+  ADD COLUMN district_key TEXT GENERATED ALWAYS AS (nullif(lower(btrim(district)), '')) STORED,
+  ADD COLUMN state_key TEXT GENERATED ALWAYS AS (nullif(lower(btrim(state)), '')) STORED;
+
+DROP INDEX IF EXISTS public.idx_profiles_district_state;
+CREATE INDEX idx_profiles_area ON public.profiles (state_key, district_key);
+
+CREATE OR REPLACE FUNCTION public.can_review_records_of(p_reviewer UUID, p_worker UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_reviewer IS DISTINCT FROM p_worker AND EXISTS (
+    SELECT 1
+    FROM public.profiles reviewer
+    JOIN public.profiles worker ON worker.user_id = p_worker
+    WHERE reviewer.user_id = p_reviewer
+      AND worker.state_key IS NOT NULL
+      AND reviewer.state_key = worker.state_key
+      AND (
+        reviewer.role = 'district_admin'
+        OR (
+          reviewer.role = 'supervisor'
+          AND worker.district_key IS NOT NULL
+          AND reviewer.district_key = worker.district_key
+        )
+      )
+  )
+$$;
+
+-- Verification goes through review-animal-record, which writes with the service role and keeps
+-- the decision and its history together; reviewers get no direct write access to worker records
+DROP POLICY IF EXISTS "Reviewers can verify records in their area" ON public.animal_records;
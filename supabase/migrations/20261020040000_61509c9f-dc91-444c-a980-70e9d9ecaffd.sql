@@ -0,0 +1,3 @@
+-- Record edits go through update-animal-record, which reopens reviewed records when the breed
+-- changes; a direct owner UPDATE could rewrite the breed of a verified record and keep its status
+DROP POLICY IF EXISTS "Users can update their own animal records" ON public.animal_records;
@@ -0,0 +1,10 @@
+-- Links each record to its worker's profile so area-scoped queries can join on the profile's
+-- district_key/state_key instead of sending the list of worker IDs
+INSERT INTO public.profiles (user_id)
+SELECT DISTINCT r.user_id
+FROM public.animal_records r
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = r.user_id);
+
+ALTER TABLE public.animal_records
+  ADD CONSTRAINT animal_records_user_id_profiles_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles (user_id);
@@ -0,0 +1,50 @@
+-- The trail also covers the farmer link, the prediction a record relies on and when it was reviewed
+CREATE OR REPLACE FUNCTION public.log_animal_record_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns are left out of the trail
+  tracked TEXT[] := ARRAY[
+    'animal_id', 'animal_type', 'farmer_id', 'predicted_breed', 'manual_breed', 'final_breed',
+    'confidence_score', 'prediction_outcome', 'authoritative_prediction_id', 'image_url',
+    'location_data', 'owner_details', 'verification_status', 'verification_reason',
+    'verified_by', 'verified_at', 'notes'
+  ];
+  -- Nulls are stripped so a new record only lists the fields it was created with
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(OLD)) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE jsonb_strip_nulls(to_jsonb(NEW)) END;
+  field TEXT;
+  fields TEXT[] := '{}';
+  old_changes JSONB := '{}'::jsonb;
+  new_changes JSONB := '{}'::jsonb;
+BEGIN
+  FOREACH field IN ARRAY tracked LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      fields := fields || field;
+      old_changes := old_changes || jsonb_build_object(field, old_row -> field);
+      new_changes := new_changes || jsonb_build_object(field, new_row -> field);
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND cardinality(fields) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.animal_record_history (
+    animal_record_id, user_id, changed_by, operation, changed_fields, old_values, new_values
+  ) VALUES (
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.user_id, OLD.user_id),
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE COALESCE(NEW.updated_by, NEW.user_id) END),
+    TG_OP,
+    fields,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE old_changes END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE new_changes END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
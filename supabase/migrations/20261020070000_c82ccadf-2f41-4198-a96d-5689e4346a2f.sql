@@ -0,0 +1,16 @@
+-- Photos uploaded only to find animals or look up similar ones are removed again when the worker
+-- discards the capture. Anything a record still points at stays.
+CREATE POLICY "Users can delete their unused animal images"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'animal-images' AND
+  auth.uid()::text = (storage.foldername(name))[1] AND
+  NOT EXISTS (
+    SELECT 1 FROM public.animal_records r
+    WHERE r.user_id = auth.uid() AND r.image_url LIKE '%/animal-images/' || name
+  ) AND
+  NOT EXISTS (
+    SELECT 1 FROM public.animal_images i
+    WHERE i.user_id = auth.uid() AND i.image_url LIKE '%/animal-images/' || name
+  )
+);
@@ -0,0 +1,3 @@
+-- Predictions are written by the edge functions with the service role, on-device ones included.
+-- A client-inserted row could pose as server output and be picked as the authoritative prediction.
+DROP POLICY IF EXISTS "Users can insert predictions for their animals" ON public.breed_predictions;
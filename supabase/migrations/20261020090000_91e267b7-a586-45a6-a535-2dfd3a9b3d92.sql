@@ -0,0 +1,30 @@
+-- Model versions behind the verified records of an area, offered as the filter on the accuracy
+-- report. Called by get-model-accuracy with the service role after it has checked the scope.
+CREATE OR REPLACE FUNCTION public.verified_model_versions(
+  p_state_key TEXT,
+  p_district_key TEXT DEFAULT NULL,
+  p_animal_type TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (model_version TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT p.model_version
+  FROM public.animal_records r
+  JOIN public.profiles w ON w.user_id = r.user_id
+  JOIN public.breed_predictions p ON p.id = r.authoritative_prediction_id
+  WHERE r.verification_status = 'verified'
+    AND r.final_breed IS NOT NULL
+    AND p.model_version IS NOT NULL
+    AND w.state_key = p_state_key
+    AND (p_district_key IS NULL OR w.district_key = p_district_key)
+    AND (p_animal_type IS NULL OR r.animal_type::text = p_animal_type)
+    AND (p_from IS NULL OR r.created_at >= p_from)
+    AND (p_to IS NULL OR r.created_at <= p_to)
+  ORDER BY p.model_version
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verified_model_versions(TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
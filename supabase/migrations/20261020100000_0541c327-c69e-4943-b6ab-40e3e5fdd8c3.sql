@@ -0,0 +1,57 @@
+-- Duplicate lookups only hash-compare photos of records in scope, and work out the district with
+-- the same normalised keys as review scope
+CREATE OR REPLACE FUNCTION public.find_duplicate_images(p_record_id UUID, p_max_distance INTEGER)
+RETURNS TABLE (
+  image_url TEXT,
+  matched_record_id UUID,
+  matched_animal_id TEXT,
+  matched_image_url TEXT,
+  matched_user_id UUID,
+  distance INTEGER,
+  same_worker BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT r.id, r.user_id, p.district_key, p.state_key
+    FROM public.animal_records r
+    LEFT JOIN public.profiles p ON p.user_id = r.user_id
+    WHERE r.id = p_record_id
+  ),
+  scope AS (
+    SELECT t.user_id FROM target t
+    UNION
+    SELECT p.user_id
+    FROM public.profiles p, target t
+    WHERE t.district_key IS NOT NULL
+      AND t.state_key IS NOT NULL
+      AND p.district_key = t.district_key
+      AND p.state_key = t.state_key
+  ),
+  candidates AS (
+    SELECT
+      own.image_url,
+      other.animal_record_id,
+      r.animal_id,
+      other.image_url AS matched_image_url,
+      r.user_id,
+      public.phash_distance(own.phash, other.phash) AS distance
+    FROM scope s
+    JOIN public.animal_records r ON r.user_id = s.user_id AND r.id <> p_record_id
+    JOIN public.animal_images other ON other.animal_record_id = r.id AND other.phash IS NOT NULL
+    JOIN public.animal_images own ON own.animal_record_id = p_record_id AND own.phash IS NOT NULL
+  )
+  SELECT DISTINCT ON (c.image_url, c.animal_record_id)
+    c.image_url,
+    c.animal_record_id,
+    c.animal_id,
+    c.matched_image_url,
+    c.user_id,
+    c.distance,
+    c.user_id = (SELECT user_id FROM target)
+  FROM candidates c
+  WHERE c.distance <= p_max_distance
+  ORDER BY c.image_url, c.animal_record_id, c.distance
+$$;